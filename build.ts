@@ -18,6 +18,7 @@ const entrypoints = [
   "src/openhands/index.ts",
   "src/routes/handler.ts",
   "src/utils/agent-server.ts",
+  "src/testing/index.ts",
 ];
 
 console.log("Transpiling TypeScript to JavaScript...");
@@ -1,19 +1,32 @@
 import { Sandbox } from "@cloudflare/sandbox";
-import { OpenhandsServer, proxyToOpenhands } from "cloudflare-openhands-sdk";
+import {
+  OpenhandsAgentConfigBuilder,
+  OpenhandsServer,
+  proxyToOpenhands,
+} from "cloudflare-openhands-sdk";
 import { env } from "cloudflare:workers";
 
 const DEFAULT_CONVERSATION_ID = "7f5866f5-d500-4bce-869c-2a5da18f8e1a";
 
-interface AgentConfig {
-  model: string;
-  apiKey: string;
-  temperature: number;
-  workingDir: string;
-}
+const WORKING_DIR = "workspace/project";
+
+// API keys are resolved from Worker bindings when a conversation is created
+const agents = new OpenhandsAgentConfigBuilder({
+  llm: {
+    provider: "anthropic",
+    model: "claude-sonnet-4-5-20250929",
+    temperature: 1,
+    usageId: "openhands-sandbox",
+  },
+  resolveSecret: (name) =>
+    (env as unknown as Record<string, string | undefined>)[name],
+  systemPromptKwargs: {
+    llm_security_analyzer: true,
+  },
+});
 
 export class AskRequestHandler {
   private conversationId: string;
-  private agentConfig: AgentConfig;
 
   constructor(
     private sandbox: Sandbox,
@@ -21,12 +34,6 @@ export class AskRequestHandler {
     conversationId: string = DEFAULT_CONVERSATION_ID
   ) {
     this.conversationId = conversationId;
-    this.agentConfig = {
-      model: "anthropic/claude-sonnet-4-5-20250929",
-      apiKey: env.ANTHROPIC_API_KEY,
-      temperature: 1,
-      workingDir: "workspace/project",
-    };
   }
 
   static isAskRequest(request: Request): boolean {
@@ -60,19 +67,9 @@ export class AskRequestHandler {
       },
       body: JSON.stringify({
         conversation_id: this.conversationId,
-        agent: {
-          llm: {
-            model: this.agentConfig.model,
-            api_key: this.agentConfig.apiKey,
-            temperature: this.agentConfig.temperature,
-            usage_id: "openhands-sandbox",
-          },
-          system_prompt_kwargs: {
-            llm_security_analyzer: true,
-          },
-        },
+        agent: await agents.build(),
         workspace: {
-          working_dir: this.agentConfig.workingDir,
+          working_dir: WORKING_DIR,
         },
       }),
     });
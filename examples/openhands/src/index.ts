@@ -1,6 +1,7 @@
 import { getSandbox, Sandbox } from "@cloudflare/sandbox";
 import {
   createOpenhandsServer,
+  OpenhandsServerCache,
   proxyToOpenhands,
 } from "cloudflare-openhands-sdk";
 import { AskRequestHandler } from "./askRequest";
@@ -9,14 +10,19 @@ export { Sandbox } from "@cloudflare/sandbox";
 
 const SANDBOX_NAME = "openhands";
 
+// Skip the process scan for requests arriving within a few seconds
+const servers = new OpenhandsServerCache({ ttl: 10_000 });
+
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
     const sandbox = getSandbox(env.Sandbox, SANDBOX_NAME, {
       sleepAfter: "10m",
     });
-    const server = await createOpenhandsServer(sandbox, {
-      sandboxName: SANDBOX_NAME,
-    });
+    const server = await servers.resolve(SANDBOX_NAME, () =>
+      createOpenhandsServer(sandbox, {
+        sandboxName: SANDBOX_NAME,
+      })
+    );
 
     if (AskRequestHandler.isAskRequest(request)) {
       try {
@@ -0,0 +1,103 @@
+import type { OpenhandsServer } from './types';
+
+const DEFAULT_TTL = 5_000;
+
+/**
+ * In-isolate cache of resolved agent-server handles.
+ *
+ * Resolving a server scans the sandbox's processes (and may start one), so
+ * caching the handle for a few seconds lets bursts of requests skip the
+ * control plane. Entries are dropped when the cached server is closed.
+ *
+ * @example
+ * ```typescript
+ * // Module scope, so the cache outlives a single request
+ * const servers = new OpenhandsServerCache({ ttl: 10_000 })
+ *
+ * const server = await servers.resolve(sandboxName, () =>
+ *   createOpenhandsServer(sandbox, options)
+ * )
+ * ```
+ */
+export class OpenhandsServerCache {
+  private readonly ttl: number;
+  private readonly entries = new Map<
+    string,
+    { server: OpenhandsServer; expiresAt: number }
+  >();
+
+  /**
+   * @param options.ttl - Lifetime of a cached server in ms (default: 5000)
+   */
+  constructor(options: { ttl?: number } = {}) {
+    this.ttl = options.ttl ?? DEFAULT_TTL;
+  }
+
+  /**
+   * Cached server for a key, if present and not expired
+   */
+  get(key: string): OpenhandsServer | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.server;
+  }
+
+  /**
+   * Cache a server. Closing the returned handle evicts it.
+   */
+  set(key: string, server: OpenhandsServer): OpenhandsServer {
+    const cached: OpenhandsServer = {
+      ...server,
+      close: (closeOptions) => {
+        this.delete(key);
+        return server.close(closeOptions);
+      },
+    };
+    this.entries.set(key, { server: cached, expiresAt: Date.now() + this.ttl });
+    return cached;
+  }
+
+  /**
+   * Return the cached server for a key, or resolve and cache it.
+   * Resolvers returning null are not cached.
+   */
+  resolve(
+    key: string,
+    resolver: () => Promise<OpenhandsServer>
+  ): Promise<OpenhandsServer>;
+  resolve(
+    key: string,
+    resolver: () => Promise<OpenhandsServer | null>
+  ): Promise<OpenhandsServer | null>;
+  async resolve(
+    key: string,
+    resolver: () => Promise<OpenhandsServer | null>
+  ): Promise<OpenhandsServer | null> {
+    const cached = this.get(key);
+    if (cached) {
+      return cached;
+    }
+    const server = await resolver();
+    return server ? this.set(key, server) : null;
+  }
+
+  /**
+   * Evict a key
+   */
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Evict every key
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,282 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type {
+  ConfirmationPolicy,
+  ConversationInfo,
+  ConversationPage,
+  EventPage,
+  ListConversationsParams,
+  OpenhandsClientOptions,
+  OpenhandsConfirmationDecision,
+  OpenhandsObservabilityOptions,
+  OpenhandsServer,
+  SearchEventsParams,
+  SendMessageRequest,
+  StartConversationRequest,
+} from './types';
+import { OpenhandsApiError } from './errors';
+import { proxyToOpenhands } from './openhands';
+import { redactSecrets } from './redact';
+
+/**
+ * Read a response body as JSON, falling back to text when it isn't JSON
+ */
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) {
+    return null;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Typed client for the agent-server conversation API.
+ *
+ * Requests are sent through `proxyToOpenhands()`, so the client works with any
+ * server handle returned by `createOpenhandsServer()`.
+ *
+ * @example
+ * ```typescript
+ * import { getSandbox } from '@cloudflare/sandbox'
+ * import { createOpenhandsServer, OpenhandsClient } from 'openhands-sdk/openhands'
+ *
+ * const sandbox = getSandbox(env.Sandbox, 'my-sandbox')
+ * const server = await createOpenhandsServer(sandbox)
+ * const client = new OpenhandsClient(sandbox, server)
+ *
+ * const conversation = await client.createConversation({
+ *   agent: { llm: { model: 'anthropic/claude-sonnet-4-5-20250929', api_key: env.ANTHROPIC_API_KEY } },
+ *   workspace: { working_dir: 'workspace/project' },
+ * })
+ * const answer = await client.askAgent(conversation.id, 'What does this repo do?')
+ * ```
+ */
+export class OpenhandsClient {
+  private readonly sandbox: Sandbox<unknown>;
+  private readonly server: OpenhandsServer;
+  private readonly headers: Record<string, string>;
+  private readonly observability: OpenhandsObservabilityOptions;
+
+  constructor(
+    sandbox: Sandbox<unknown>,
+    server: OpenhandsServer,
+    options: OpenhandsClientOptions = {}
+  ) {
+    this.sandbox = sandbox;
+    this.server = server;
+    this.headers = options.headers ?? {};
+    this.observability = {
+      logger: options.logger,
+      tracer: options.tracer,
+      requestId: options.requestId,
+    };
+  }
+
+  /**
+   * Create a conversation. If `conversation_id` refers to an existing
+   * conversation, the agent-server returns it unchanged.
+   */
+  createConversation(
+    request: StartConversationRequest
+  ): Promise<ConversationInfo> {
+    return this.request<ConversationInfo>(
+      'POST',
+      '/api/conversations',
+      request
+    );
+  }
+
+  /**
+   * List conversations, one page at a time
+   */
+  listConversations(
+    params: ListConversationsParams = {}
+  ): Promise<ConversationPage> {
+    const query = new URLSearchParams();
+    if (params.pageId) {
+      query.set('page_id', params.pageId);
+    }
+    if (params.limit !== undefined) {
+      query.set('limit', String(params.limit));
+    }
+    if (params.status) {
+      query.set('status', params.status);
+    }
+    const search = query.toString();
+    return this.request<ConversationPage>(
+      'GET',
+      `/api/conversations/search${search ? `?${search}` : ''}`
+    );
+  }
+
+  /**
+   * Fetch a single conversation
+   */
+  getConversation(conversationId: string): Promise<ConversationInfo> {
+    return this.request<ConversationInfo>(
+      'GET',
+      `/api/conversations/${encodeURIComponent(conversationId)}`
+    );
+  }
+
+  /**
+   * Delete a conversation
+   */
+  async deleteConversation(conversationId: string): Promise<void> {
+    await this.request(
+      'DELETE',
+      `/api/conversations/${encodeURIComponent(conversationId)}`
+    );
+  }
+
+  /**
+   * Append a message to a conversation. A plain string is sent as a single
+   * user text block.
+   */
+  async sendMessage(
+    conversationId: string,
+    message: string | SendMessageRequest
+  ): Promise<void> {
+    const body: SendMessageRequest =
+      typeof message === 'string'
+        ? { role: 'user', content: [{ type: 'text', text: message }] }
+        : message;
+    await this.request(
+      'POST',
+      `/api/conversations/${encodeURIComponent(conversationId)}/events`,
+      body
+    );
+  }
+
+  /**
+   * Start (or resume) the agent loop of a conversation
+   */
+  async runConversation(conversationId: string): Promise<void> {
+    await this.request(
+      'POST',
+      `/api/conversations/${encodeURIComponent(conversationId)}/run`
+    );
+  }
+
+  /**
+   * Pause the agent loop of a conversation
+   */
+  async pauseConversation(conversationId: string): Promise<void> {
+    await this.request(
+      'POST',
+      `/api/conversations/${encodeURIComponent(conversationId)}/pause`
+    );
+  }
+
+  /**
+   * Ask the agent a question without adding it to the conversation history
+   */
+  async askAgent(conversationId: string, question: string): Promise<string> {
+    const result = await this.request<{ response: string }>(
+      'POST',
+      `/api/conversations/${encodeURIComponent(conversationId)}/ask_agent`,
+      { question }
+    );
+    return result.response;
+  }
+
+  /**
+   * List the events of a conversation, one page at a time
+   */
+  searchEvents(
+    conversationId: string,
+    params: SearchEventsParams = {}
+  ): Promise<EventPage> {
+    const query = new URLSearchParams();
+    if (params.pageId) {
+      query.set('page_id', params.pageId);
+    }
+    if (params.limit !== undefined) {
+      query.set('limit', String(params.limit));
+    }
+    if (params.kind) {
+      query.set('kind', params.kind);
+    }
+    const search = query.toString();
+    return this.request<EventPage>(
+      'GET',
+      `/api/conversations/${encodeURIComponent(conversationId)}/events/search${search ? `?${search}` : ''}`
+    );
+  }
+
+  /**
+   * Change when the agent must wait for approval before acting
+   */
+  async setConfirmationPolicy(
+    conversationId: string,
+    policy: ConfirmationPolicy
+  ): Promise<void> {
+    await this.request(
+      'POST',
+      `/api/conversations/${encodeURIComponent(conversationId)}/confirmation_policy`,
+      policy
+    );
+  }
+
+  /**
+   * Approve or reject the actions a conversation is waiting on.
+   * Approving resumes the agent loop.
+   */
+  async respondToConfirmation(
+    conversationId: string,
+    decision: OpenhandsConfirmationDecision
+  ): Promise<void> {
+    await this.request(
+      'POST',
+      `/api/conversations/${encodeURIComponent(conversationId)}/events/respond_to_confirmation`,
+      { accept: decision.accept, reason: decision.reason }
+    );
+  }
+
+  /**
+   * Send a request to the agent-server and parse the response body.
+   * Throws `OpenhandsApiError` for non-2xx responses.
+   */
+  protected async request<T = unknown>(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    const headers: Record<string, string> = { ...this.headers };
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const request = new Request(`${this.server.url}${path}`, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    const response = await proxyToOpenhands(
+      request,
+      this.sandbox,
+      this.server,
+      this.observability
+    );
+    const responseBody = await readBody(response);
+
+    if (!response.ok) {
+      throw new OpenhandsApiError(
+        `agent-server ${method} ${path} failed with status ${response.status}`,
+        {
+          method,
+          path,
+          status: response.status,
+          // Validation errors echo the request, which may carry API keys
+          body: redactSecrets(responseBody),
+        }
+      );
+    }
+
+    return responseBody as T;
+  }
+}
@@ -0,0 +1,210 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type {
+  OpenhandsConfirmationNotice,
+  OpenhandsConfirmationWatchOptions,
+  OpenhandsConfirmationWatcher,
+  OpenhandsEvent,
+  OpenhandsPendingAction,
+  OpenhandsServer,
+  SecurityRisk,
+} from './types';
+import { OpenhandsClient } from './client';
+import { connectOpenhandsEvents } from './events';
+
+/**
+ * Event kinds that resolve an action (executed, rejected or failed)
+ */
+const ACTION_RESULT_KINDS = [
+  'ObservationEvent',
+  'UserRejectObservation',
+  'AgentErrorEvent',
+];
+
+/**
+ * Whether an event reports that the conversation is waiting for confirmation
+ */
+function isWaitingForConfirmation(event: OpenhandsEvent): boolean {
+  if (event.kind !== 'ConversationStateUpdateEvent') {
+    return false;
+  }
+  if (event.key === 'execution_status') {
+    return event.value === 'waiting_for_confirmation';
+  }
+  return (
+    event.key === 'full_state' &&
+    (event.value as { execution_status?: string } | undefined)
+      ?.execution_status === 'waiting_for_confirmation'
+  );
+}
+
+/**
+ * List the actions a conversation is waiting to have approved.
+ * Returns an empty list unless the conversation is waiting for confirmation.
+ *
+ * @param sandbox - The Sandbox instance running agent-server
+ * @param server - The agent-server handle
+ * @param conversationId - Conversation to inspect
+ */
+export async function getPendingActions(
+  sandbox: Sandbox<unknown>,
+  server: OpenhandsServer,
+  conversationId: string
+): Promise<OpenhandsPendingAction[]> {
+  const client = new OpenhandsClient(sandbox, server);
+  const conversation = await client.getConversation(conversationId);
+  if (conversation.execution_status !== 'waiting_for_confirmation') {
+    return [];
+  }
+
+  const actions: OpenhandsEvent[] = [];
+  const resolved = new Set<string>();
+  let pageId: string | undefined;
+  do {
+    const page = await client.searchEvents(conversationId, {
+      pageId,
+      limit: 100,
+    });
+    for (const event of page.items) {
+      if (event.kind === 'ActionEvent') {
+        actions.push(event);
+      } else if (ACTION_RESULT_KINDS.includes(event.kind)) {
+        for (const id of [event.action_id, event.tool_call_id]) {
+          if (typeof id === 'string') {
+            resolved.add(id);
+          }
+        }
+      }
+    }
+    pageId = page.next_page_id ?? undefined;
+  } while (pageId);
+
+  return actions
+    .filter(
+      (event) =>
+        !resolved.has(event.id) && !resolved.has(String(event.tool_call_id))
+    )
+    .map((event) => ({
+      eventId: event.id,
+      toolName: String(event.tool_name ?? ''),
+      toolCallId: String(event.tool_call_id ?? ''),
+      action: (event.action as Record<string, unknown> | undefined) ?? {},
+      thought: Array.isArray(event.thought)
+        ? (event.thought as Array<{ text?: string }>)
+            .map((block) => block.text ?? '')
+            .join('')
+        : undefined,
+      securityRisk: event.security_risk as SecurityRisk | undefined,
+      timestamp: event.timestamp,
+    }));
+}
+
+/**
+ * Deliver a notice to the configured webhook and callback.
+ * Failures are ignored so one broken sink doesn't stop the watcher.
+ */
+async function notify(
+  notice: OpenhandsConfirmationNotice,
+  options: OpenhandsConfirmationWatchOptions
+): Promise<void> {
+  if (options.webhook) {
+    await fetch(options.webhook, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.webhookHeaders,
+      },
+      body: JSON.stringify(notice),
+    }).catch(() => {});
+  }
+  try {
+    await options.onWaiting?.(notice);
+  } catch {
+    // The callback is best-effort
+  }
+}
+
+/**
+ * Watch a conversation and send a notice every time the agent starts
+ * waiting for confirmation of an action.
+ *
+ * The watcher holds the agent-server event socket open from the Worker, so
+ * run it where the Worker stays alive: a Durable Object, or
+ * `ctx.waitUntil(watcher.closed)` for short-lived conversations.
+ *
+ * @param sandbox - The Sandbox instance running agent-server
+ * @param server - The agent-server handle
+ * @param conversationId - Conversation to watch
+ * @param options - Webhook and callback
+ * @returns The watcher, or null if the event socket couldn't be opened
+ *
+ * @example
+ * ```typescript
+ * const watcher = await watchConfirmations(sandbox, server, conversationId, {
+ *   sandboxName,
+ *   webhook: 'https://example.com/hooks/openhands',
+ * })
+ * ctx.waitUntil(watcher?.closed)
+ * ```
+ */
+export async function watchConfirmations(
+  sandbox: Sandbox<unknown>,
+  server: OpenhandsServer,
+  conversationId: string,
+  options: OpenhandsConfirmationWatchOptions
+): Promise<OpenhandsConfirmationWatcher | null> {
+  const upstream = await connectOpenhandsEvents(
+    sandbox,
+    server,
+    conversationId
+  );
+  const socket = upstream.webSocket;
+  if (!socket) {
+    return null;
+  }
+
+  let resolveClosed: () => void;
+  const closed = new Promise<void>((resolve) => {
+    resolveClosed = resolve;
+  });
+
+  socket.accept();
+  socket.addEventListener('message', (message) => {
+    let event: OpenhandsEvent;
+    try {
+      event = JSON.parse(
+        typeof message.data === 'string'
+          ? message.data
+          : new TextDecoder().decode(message.data as ArrayBuffer)
+      ) as OpenhandsEvent;
+    } catch {
+      return;
+    }
+    if (!isWaitingForConfirmation(event)) {
+      return;
+    }
+    void getPendingActions(sandbox, server, conversationId)
+      .then((pending) =>
+        notify(
+          {
+            type: 'confirmation.waiting',
+            conversationId,
+            sandboxName: options.sandboxName,
+            pending,
+            timestamp: new Date().toISOString(),
+          },
+          options
+        )
+      )
+      .catch(() => {});
+  });
+  socket.addEventListener('close', () => resolveClosed());
+  socket.addEventListener('error', () => resolveClosed());
+
+  return {
+    closed,
+    close() {
+      socket.close(1000, 'watcher closed');
+      resolveClosed();
+    },
+  };
+}
@@ -0,0 +1,362 @@
+import type {
+  OpenhandsApiErrorContext,
+  OpenhandsAuthUnavailableContext,
+  OpenhandsBudgetExceededContext,
+  OpenhandsConfigurationContext,
+  OpenhandsExecutableNotFoundContext,
+  OpenhandsExposureErrorContext,
+  OpenhandsGitErrorContext,
+  OpenhandsInvalidRequestContext,
+  OpenhandsNotFoundContext,
+  OpenhandsPortConflictContext,
+  OpenhandsProcessKilledContext,
+  OpenhandsProxyErrorContext,
+  OpenhandsRateLimitContext,
+  OpenhandsReadinessTimeoutContext,
+  OpenhandsStartupContext,
+  OpenhandsWorkspaceErrorContext,
+} from './types';
+
+/**
+ * Stable codes of all errors thrown by the SDK
+ */
+export type OpenhandsErrorCode =
+  | 'OPENHANDS_STARTUP_FAILED'
+  | 'OPENHANDS_EXECUTABLE_NOT_FOUND'
+  | 'OPENHANDS_PORT_CONFLICT'
+  | 'OPENHANDS_READINESS_TIMEOUT'
+  | 'OPENHANDS_EXPOSURE_FAILED'
+  | 'OPENHANDS_PROXY_FAILED'
+  | 'OPENHANDS_API_ERROR'
+  | 'OPENHANDS_PROCESS_KILLED'
+  | 'OPENHANDS_INVALID_REQUEST'
+  | 'OPENHANDS_GIT_FAILED'
+  | 'OPENHANDS_RATE_LIMITED'
+  | 'OPENHANDS_AUTH_UNAVAILABLE'
+  | 'OPENHANDS_CONFIGURATION_ERROR'
+  | 'OPENHANDS_NOT_FOUND'
+  | 'OPENHANDS_WORKSPACE_FAILED'
+  | 'OPENHANDS_BUDGET_EXCEEDED';
+
+/**
+ * Brand marking SDK errors. Each entrypoint is bundled separately and carries
+ * its own copy of these classes, so `instanceof` fails across entrypoints;
+ * the brand is shared through the global symbol registry.
+ */
+const OPENHANDS_ERROR_BRAND: unique symbol = Symbol.for(
+  'cloudflare-openhands-sdk.error'
+);
+
+/**
+ * Base class of all errors thrown by the SDK
+ */
+export abstract class OpenhandsError<
+  TContext extends object = object,
+> extends Error {
+  abstract readonly code: OpenhandsErrorCode;
+  readonly context: TContext;
+  readonly [OPENHANDS_ERROR_BRAND] = true;
+
+  constructor(message: string, context: TContext, options?: ErrorOptions) {
+    super(message, options);
+    this.context = context;
+  }
+
+  toJSON(): {
+    name: string;
+    code: OpenhandsErrorCode;
+    message: string;
+    context: TContext;
+  } {
+    return {
+      name: this.name,
+      code: this.code,
+      message: this.message,
+      context: this.context,
+    };
+  }
+}
+
+/**
+ * Check whether a value is an error thrown by the SDK, including errors
+ * thrown by another entrypoint's copy of the SDK
+ */
+export function isOpenhandsError(value: unknown): value is OpenhandsError {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { [OPENHANDS_ERROR_BRAND]?: unknown })[OPENHANDS_ERROR_BRAND] ===
+      true
+  );
+}
+
+/**
+ * Error thrown when agent-server fails to start
+ */
+export class OpenhandsStartupError extends OpenhandsError<OpenhandsStartupContext> {
+  readonly code = 'OPENHANDS_STARTUP_FAILED' as const;
+
+  constructor(
+    message: string,
+    context: OpenhandsStartupContext,
+    options?: ErrorOptions
+  ) {
+    super(message, context, options);
+    this.name = 'OpenhandsStartupError';
+  }
+}
+
+/**
+ * Error thrown when the agent-server executable can't be found
+ */
+export class OpenhandsExecutableNotFoundError extends OpenhandsError<OpenhandsExecutableNotFoundContext> {
+  readonly code = 'OPENHANDS_EXECUTABLE_NOT_FOUND' as const;
+
+  constructor(
+    message: string,
+    context: OpenhandsExecutableNotFoundContext,
+    options?: ErrorOptions
+  ) {
+    super(message, context, options);
+    this.name = 'OpenhandsExecutableNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when the agent-server port is already in use
+ */
+export class OpenhandsPortConflictError extends OpenhandsError<OpenhandsPortConflictContext> {
+  readonly code = 'OPENHANDS_PORT_CONFLICT' as const;
+
+  constructor(
+    message: string,
+    context: OpenhandsPortConflictContext,
+    options?: ErrorOptions
+  ) {
+    super(message, context, options);
+    this.name = 'OpenhandsPortConflictError';
+  }
+}
+
+/**
+ * Error thrown when agent-server doesn't become ready in time
+ */
+export class OpenhandsReadinessTimeoutError extends OpenhandsError<OpenhandsReadinessTimeoutContext> {
+  readonly code = 'OPENHANDS_READINESS_TIMEOUT' as const;
+
+  constructor(
+    message: string,
+    context: OpenhandsReadinessTimeoutContext,
+    options?: ErrorOptions
+  ) {
+    super(message, context, options);
+    this.name = 'OpenhandsReadinessTimeoutError';
+  }
+}
+
+/**
+ * Error thrown when the agent-server port can't be exposed as a preview URL
+ */
+export class OpenhandsExposureError extends OpenhandsError<OpenhandsExposureErrorContext> {
+  readonly code = 'OPENHANDS_EXPOSURE_FAILED' as const;
+
+  constructor(
+    message: string,
+    context: OpenhandsExposureErrorContext,
+    options?: ErrorOptions
+  ) {
+    super(message, context, options);
+    this.name = 'OpenhandsExposureError';
+  }
+}
+
+/**
+ * Error thrown when a request can't be delivered to agent-server
+ */
+export class OpenhandsProxyError extends OpenhandsError<OpenhandsProxyErrorContext> {
+  readonly code = 'OPENHANDS_PROXY_FAILED' as const;
+
+  constructor(
+    message: string,
+    context: OpenhandsProxyErrorContext,
+    options?: ErrorOptions
+  ) {
+    super(message, context, options);
+    this.name = 'OpenhandsProxyError';
+  }
+}
+
+/**
+ * Error thrown when the agent-server API responds with a non-2xx status
+ */
+export class OpenhandsApiError extends OpenhandsError<OpenhandsApiErrorContext> {
+  readonly code = 'OPENHANDS_API_ERROR' as const;
+
+  constructor(
+    message: string,
+    context: OpenhandsApiErrorContext,
+    options?: ErrorOptions
+  ) {
+    super(message, context, options);
+    this.name = 'OpenhandsApiError';
+  }
+
+  /** HTTP status returned by the agent-server */
+  get status(): number {
+    return this.context.status;
+  }
+
+  /** Parsed response body (JSON when possible, otherwise text) */
+  get body(): unknown {
+    return this.context.body;
+  }
+}
+
+/**
+ * Error thrown when the agent-server process was killed
+ */
+export class OpenhandsProcessKilledError extends OpenhandsError<OpenhandsProcessKilledContext> {
+  readonly code = 'OPENHANDS_PROCESS_KILLED' as const;
+
+  constructor(
+    message: string,
+    context: OpenhandsProcessKilledContext,
+    options?: ErrorOptions
+  ) {
+    super(message, context, options);
+    this.name = 'OpenhandsProcessKilledError';
+  }
+}
+
+/**
+ * Error thrown for invalid input (instance names, paths, parameters)
+ */
+export class OpenhandsInvalidRequestError extends OpenhandsError<OpenhandsInvalidRequestContext> {
+  readonly code = 'OPENHANDS_INVALID_REQUEST' as const;
+
+  constructor(
+    message: string,
+    context: OpenhandsInvalidRequestContext,
+    options?: ErrorOptions
+  ) {
+    super(message, context, options);
+    this.name = 'OpenhandsInvalidRequestError';
+  }
+}
+
+/**
+ * Error thrown when a git command in the sandbox fails
+ */
+export class OpenhandsGitError extends OpenhandsError<OpenhandsGitErrorContext> {
+  readonly code = 'OPENHANDS_GIT_FAILED' as const;
+
+  constructor(
+    message: string,
+    context: OpenhandsGitErrorContext,
+    options?: ErrorOptions
+  ) {
+    super(message, context, options);
+    this.name = 'OpenhandsGitError';
+  }
+}
+
+/**
+ * Error thrown when a request exceeds a rate or concurrency limit
+ */
+export class OpenhandsRateLimitError extends OpenhandsError<OpenhandsRateLimitContext> {
+  readonly code = 'OPENHANDS_RATE_LIMITED' as const;
+
+  constructor(
+    message: string,
+    context: OpenhandsRateLimitContext,
+    options?: ErrorOptions
+  ) {
+    super(message, context, options);
+    this.name = 'OpenhandsRateLimitError';
+  }
+}
+
+/**
+ * Error thrown when credentials can't be verified because the key set
+ * could not be fetched
+ */
+export class OpenhandsAuthUnavailableError extends OpenhandsError<OpenhandsAuthUnavailableContext> {
+  readonly code = 'OPENHANDS_AUTH_UNAVAILABLE' as const;
+
+  constructor(
+    message: string,
+    context: OpenhandsAuthUnavailableContext,
+    options?: ErrorOptions
+  ) {
+    super(message, context, options);
+    this.name = 'OpenhandsAuthUnavailableError';
+  }
+}
+
+/**
+ * Error thrown when the SDK is configured in a way it can't work with
+ * (e.g. an LLM profile without an API key or base URL). This is a problem
+ * with the server, not with the request.
+ */
+export class OpenhandsConfigurationError extends OpenhandsError<OpenhandsConfigurationContext> {
+  readonly code = 'OPENHANDS_CONFIGURATION_ERROR' as const;
+
+  constructor(
+    message: string,
+    context: OpenhandsConfigurationContext,
+    options?: ErrorOptions
+  ) {
+    super(message, context, options);
+    this.name = 'OpenhandsConfigurationError';
+  }
+}
+
+/**
+ * Error thrown when a workspace path doesn't exist
+ */
+export class OpenhandsNotFoundError extends OpenhandsError<OpenhandsNotFoundContext> {
+  readonly code = 'OPENHANDS_NOT_FOUND' as const;
+
+  constructor(
+    message: string,
+    context: OpenhandsNotFoundContext,
+    options?: ErrorOptions
+  ) {
+    super(message, context, options);
+    this.name = 'OpenhandsNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when a workspace command in the sandbox (delete, archive)
+ * fails
+ */
+export class OpenhandsWorkspaceError extends OpenhandsError<OpenhandsWorkspaceErrorContext> {
+  readonly code = 'OPENHANDS_WORKSPACE_FAILED' as const;
+
+  constructor(
+    message: string,
+    context: OpenhandsWorkspaceErrorContext,
+    options?: ErrorOptions
+  ) {
+    super(message, context, options);
+    this.name = 'OpenhandsWorkspaceError';
+  }
+}
+
+/**
+ * Error thrown when a task or job would start a conversation on a sandbox
+ * whose usage reached its budget
+ */
+export class OpenhandsBudgetExceededError extends OpenhandsError<OpenhandsBudgetExceededContext> {
+  readonly code = 'OPENHANDS_BUDGET_EXCEEDED' as const;
+
+  constructor(
+    message: string,
+    context: OpenhandsBudgetExceededContext,
+    options?: ErrorOptions
+  ) {
+    super(message, context, options);
+    this.name = 'OpenhandsBudgetExceededError';
+  }
+}
@@ -0,0 +1,180 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type {
+  OpenhandsEventSocket,
+  OpenhandsEventStreamOptions,
+  OpenhandsServer,
+} from './types';
+
+const DEFAULT_HEARTBEAT_INTERVAL = 15_000;
+
+/**
+ * Build the agent-server event socket path for a conversation
+ */
+export function getConversationEventsPath(
+  conversationId: string,
+  options: OpenhandsEventStreamOptions & { sessionApiKey?: string } = {}
+): string {
+  const path = `/sockets/events/${encodeURIComponent(conversationId)}`;
+  const query = new URLSearchParams();
+  if (options.resendAll) {
+    query.set('resend_all', 'true');
+  }
+  if (options.sessionApiKey) {
+    query.set('session_api_key', options.sessionApiKey);
+  }
+  const search = query.toString();
+  return search ? `${path}?${search}` : path;
+}
+
+/**
+ * Bridge an incoming WebSocket upgrade request to the agent-server's event
+ * socket for a conversation.
+ *
+ * @param request - The incoming upgrade request (must carry `Upgrade: websocket`)
+ * @param sandbox - The Sandbox instance running agent-server
+ * @param server - The agent-server handle from createOpenhandsServer()
+ * @param conversationId - Conversation whose events should be streamed
+ * @param options - Stream options
+ * @returns The 101 response to return from the Worker
+ *
+ * @example
+ * ```typescript
+ * if (request.headers.get('Upgrade') === 'websocket') {
+ *   return proxyOpenhandsEvents(request, sandbox, server, conversationId)
+ * }
+ * ```
+ */
+export function proxyOpenhandsEvents(
+  request: Request,
+  sandbox: Sandbox<unknown>,
+  server: OpenhandsServer,
+  conversationId: string,
+  options: OpenhandsEventStreamOptions = {}
+): Promise<Response> {
+  const url = `${server.url}${getConversationEventsPath(conversationId, {
+    ...options,
+    sessionApiKey: server.sessionApiKey,
+  })}`;
+  return sandbox.wsConnect(new Request(url, request), server.port);
+}
+
+/**
+ * Open the agent-server event socket of a conversation from the Worker.
+ * The returned response carries the socket in `webSocket` (call `accept()`
+ * before adding listeners); it is null if the upgrade failed.
+ *
+ * @param sandbox - The Sandbox instance running agent-server
+ * @param server - The agent-server handle from createOpenhandsServer()
+ * @param conversationId - Conversation whose events should be received
+ * @param options - Stream options
+ */
+export async function connectOpenhandsEvents(
+  sandbox: Sandbox<unknown>,
+  server: OpenhandsServer,
+  conversationId: string,
+  options: OpenhandsEventStreamOptions = {}
+): Promise<Response & { webSocket?: OpenhandsEventSocket | null }> {
+  const url = `${server.url}${getConversationEventsPath(conversationId, {
+    ...options,
+    sessionApiKey: server.sessionApiKey,
+  })}`;
+  return sandbox.wsConnect(
+    new Request(url, { headers: { Upgrade: 'websocket' } }),
+    server.port
+  );
+}
+
+/**
+ * Stream conversation events as Server-Sent Events, for clients that can't
+ * open a WebSocket. The Worker holds the upstream socket and forwards each
+ * event as a `data:` line.
+ *
+ * @param sandbox - The Sandbox instance running agent-server
+ * @param server - The agent-server handle from createOpenhandsServer()
+ * @param conversationId - Conversation whose events should be streamed
+ * @param options - Stream options
+ * @returns A `text/event-stream` response
+ */
+export async function streamOpenhandsEvents(
+  sandbox: Sandbox<unknown>,
+  server: OpenhandsServer,
+  conversationId: string,
+  options: OpenhandsEventStreamOptions = {}
+): Promise<Response> {
+  const upstream = await connectOpenhandsEvents(
+    sandbox,
+    server,
+    conversationId,
+    options
+  );
+  const socket = upstream.webSocket;
+  if (!socket) {
+    return upstream;
+  }
+
+  const heartbeatInterval =
+    options.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL;
+  const encoder = new TextEncoder();
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const finish = () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        clearInterval(heartbeat);
+        controller.close();
+      };
+
+      socket.accept();
+      socket.addEventListener('message', (event) => {
+        if (closed) {
+          return;
+        }
+        const data =
+          typeof event.data === 'string'
+            ? event.data
+            : new TextDecoder().decode(event.data as ArrayBuffer);
+        let id: string | undefined;
+        try {
+          id = (JSON.parse(data) as { id?: string }).id;
+        } catch {
+          // Forward non-JSON frames unchanged
+        }
+        const lines = data
+          .split('\n')
+          .map((line) => `data: ${line}`)
+          .join('\n');
+        controller.enqueue(
+          encoder.encode(`${id ? `id: ${id}\n` : ''}${lines}\n\n`)
+        );
+      });
+      socket.addEventListener('close', finish);
+      socket.addEventListener('error', finish);
+
+      if (heartbeatInterval > 0) {
+        heartbeat = setInterval(() => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(': ping\n\n'));
+          }
+        }, heartbeatInterval);
+      }
+    },
+    cancel() {
+      closed = true;
+      clearInterval(heartbeat);
+      socket.close(1000, 'client disconnected');
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FakeSandbox } from '../testing';
+import { OpenhandsInvalidRequestError } from './errors';
+import { cloneRepository, collectWorkspaceChanges } from './git';
+
+/**
+ * Run a shell command on this machine, as the sandbox would
+ */
+function run(command: string, env: Record<string, string> = {}) {
+  const result = spawnSync('sh', ['-c', command], {
+    env: {
+      ...process.env,
+      // Ignore the machine's git config (hooks, signing)
+      GIT_CONFIG_GLOBAL: '/dev/null',
+      GIT_CONFIG_NOSYSTEM: '1',
+      GIT_AUTHOR_NAME: 'Test',
+      GIT_AUTHOR_EMAIL: 'test@example.com',
+      GIT_COMMITTER_NAME: 'Test',
+      GIT_COMMITTER_EMAIL: 'test@example.com',
+      ...env,
+    },
+    encoding: 'utf-8',
+  });
+  return {
+    exitCode: result.status ?? 1,
+    stdout: result.stdout,
+    stderr: result.stderr,
+  };
+}
+
+describe('cloneRepository', () => {
+  test('rejects refs, branches and repositories that look like options', async () => {
+    const fake = new FakeSandbox();
+    const clone = (options: Record<string, string>) =>
+      cloneRepository(fake.asSandbox(), {
+        repository: 'https://github.com/acme/app.git',
+        ...options,
+      });
+
+    await expect(
+      clone({ ref: '--upload-pack=touch /tmp/x' })
+    ).rejects.toBeInstanceOf(OpenhandsInvalidRequestError);
+    await expect(clone({ branch: '-f' })).rejects.toBeInstanceOf(
+      OpenhandsInvalidRequestError
+    );
+    await expect(
+      clone({ repository: '--config=core.sshCommand=id' })
+    ).rejects.toBeInstanceOf(OpenhandsInvalidRequestError);
+    expect(fake.execLog).toHaveLength(0);
+  });
+
+  test('passes credentials through the environment only', async () => {
+    const envs: Array<Record<string, string> | undefined> = [];
+    const fake = new FakeSandbox({
+      onExec: (_command, options) => {
+        envs.push(options.env);
+        return {};
+      },
+    });
+
+    await cloneRepository(fake.asSandbox(), {
+      repository: 'https://github.com/acme/app.git',
+      credentials: { token: 'ghp_secret' },
+    });
+
+    expect(fake.execLog.join('\n')).not.toContain('ghp_secret');
+    expect(envs.some((env) => env?.OPENHANDS_GIT_TOKEN === 'ghp_secret')).toBe(
+      true
+    );
+  });
+});
+
+describe('collectWorkspaceChanges', () => {
+  let directory: string;
+  let sandbox: FakeSandbox;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'openhands-git-'));
+    sandbox = new FakeSandbox({
+      onExec: (command, options) => run(command, options.env),
+    });
+    run(
+      `cd ${directory} && git init --quiet && echo one > tracked.txt && git add . && git commit --quiet -m base && git config openhands.baseCommit "$(git rev-parse HEAD)"`
+    );
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('collects commits, edits and untracked files', async () => {
+    run(
+      `cd ${directory} && echo two > tracked.txt && git commit --quiet -am "Edit tracked"`
+    );
+    writeFileSync(join(directory, 'tracked.txt'), 'three\n');
+    writeFileSync(join(directory, 'new.txt'), 'hello\n');
+
+    const changes = await collectWorkspaceChanges(
+      sandbox.asSandbox(),
+      directory
+    );
+
+    expect(changes.commits.map((commit) => commit.subject)).toEqual([
+      'Edit tracked',
+    ]);
+    expect(changes.files).toEqual([
+      { path: 'new.txt', status: 'A' },
+      { path: 'tracked.txt', status: 'M' },
+    ]);
+    expect(changes.diff).toContain('+hello');
+    expect(changes.diff).toContain('+three');
+    expect(changes.patch).toContain('Subject: [PATCH] Edit tracked');
+  });
+
+  test('leaves the repository index untouched', async () => {
+    writeFileSync(join(directory, 'new.txt'), 'hello\n');
+    const before = run(`cd ${directory} && git status --porcelain`).stdout;
+
+    await collectWorkspaceChanges(sandbox.asSandbox(), directory);
+
+    expect(run(`cd ${directory} && git status --porcelain`).stdout).toBe(
+      before
+    );
+    expect(before).toContain('?? new.txt');
+    // The temporary index copy is removed
+    const copies = sandbox.execLog.filter((command) =>
+      command.startsWith('rm -f -- ')
+    );
+    expect(copies).toHaveLength(1);
+    expect(
+      run(`test -e ${copies[0]!.slice('rm -f -- '.length)}`).exitCode
+    ).toBe(1);
+  });
+
+  test('rejects a base that looks like an option', async () => {
+    await expect(
+      collectWorkspaceChanges(sandbox.asSandbox(), directory, {
+        base: '--output=/etc/passwd',
+      })
+    ).rejects.toBeInstanceOf(OpenhandsInvalidRequestError);
+  });
+});
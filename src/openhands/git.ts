@@ -0,0 +1,374 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type {
+  ConversationInfo,
+  OpenhandsCloneOptions,
+  OpenhandsGitCommit,
+  OpenhandsPrepareWorkspaceOptions,
+  OpenhandsServer,
+  OpenhandsWorkspaceChanges,
+  OpenhandsWorkspaceInfo,
+} from './types';
+import { OpenhandsGitError, OpenhandsInvalidRequestError } from './errors';
+import { OpenhandsClient } from './client';
+import { quoteShellArg } from '../utils/agent-server';
+
+const DEFAULT_GIT_USERNAME = 'x-access-token';
+const BASE_COMMIT_CONFIG_KEY = 'openhands.baseCommit';
+
+// Answers git credential requests from the environment, so tokens never
+// appear in the command line or the repository config
+const CREDENTIAL_HELPER =
+  '!f() { test "$1" = get && echo "username=$OPENHANDS_GIT_USERNAME" && echo "password=$OPENHANDS_GIT_TOKEN"; }; f';
+
+/**
+ * Run a git command in the sandbox and return its stdout.
+ * Throws OpenhandsGitError on a non-zero exit code.
+ */
+async function runGit(
+  sandbox: Sandbox<unknown>,
+  directory: string,
+  args: string[],
+  env?: Record<string, string>
+): Promise<string> {
+  const command = `git ${args.map(quoteShellArg).join(' ')}`;
+  const result = await sandbox.exec(
+    `cd ${quoteShellArg(directory)} && ${command}`,
+    { env: { GIT_TERMINAL_PROMPT: '0', ...env } }
+  );
+  if (!result.success) {
+    throw new OpenhandsGitError(
+      `git ${args[0]} failed with exit code ${result.exitCode}`,
+      {
+        command,
+        directory,
+        exitCode: result.exitCode,
+        stderr: result.stderr,
+      }
+    );
+  }
+  return result.stdout;
+}
+
+/**
+ * Reject values git would parse as options
+ */
+function assertNotOption(field: string, value: string | undefined): void {
+  if (value?.startsWith('-')) {
+    throw new OpenhandsInvalidRequestError(`Invalid ${field}: ${value}`, {
+      field,
+      value,
+    });
+  }
+}
+
+/**
+ * Default clone directory: /workspace/{repository name}
+ */
+function getDefaultDirectory(repository: string): string {
+  const name = repository
+    .replace(/\/+$/, '')
+    .split(/[/:]/)
+    .pop()
+    ?.replace(/\.git$/, '');
+  if (!name) {
+    throw new OpenhandsInvalidRequestError(
+      `Can't derive a directory from repository: ${repository}`,
+      { field: 'repository', value: repository }
+    );
+  }
+  return `/workspace/${name}`;
+}
+
+/**
+ * Clone a repository into the sandbox and check out a ref.
+ *
+ * Works for branches, tags and commit SHAs. Running it again on the same
+ * directory fetches and checks out the ref again. The checked-out commit is
+ * recorded as the base commit for `collectWorkspaceChanges()`.
+ *
+ * @param sandbox - The Sandbox instance
+ * @param options - Repository, ref, depth, credentials and target directory
+ * @returns The checked-out workspace
+ *
+ * @example
+ * ```typescript
+ * const workspace = await cloneRepository(sandbox, {
+ *   repository: 'https://github.com/acme/app.git',
+ *   ref: 'main',
+ *   depth: 1,
+ *   credentials: { token: env.GITHUB_TOKEN },
+ *   branch: 'openhands/fix-login',
+ * });
+ * ```
+ */
+export async function cloneRepository(
+  sandbox: Sandbox<unknown>,
+  options: OpenhandsCloneOptions
+): Promise<OpenhandsWorkspaceInfo> {
+  assertNotOption('repository', options.repository);
+  assertNotOption('ref', options.ref);
+  assertNotOption('branch', options.branch);
+  if (
+    options.depth !== undefined &&
+    (!Number.isInteger(options.depth) || options.depth < 1)
+  ) {
+    throw new OpenhandsInvalidRequestError(`Invalid depth: ${options.depth}`, {
+      field: 'depth',
+      value: options.depth,
+    });
+  }
+
+  const directory =
+    options.directory ?? getDefaultDirectory(options.repository);
+  await sandbox.mkdir(directory, { recursive: true });
+
+  await runGit(sandbox, directory, ['init', '--quiet']);
+  const remotes = await runGit(sandbox, directory, ['remote']);
+  await runGit(
+    sandbox,
+    directory,
+    remotes.split('\n').includes('origin')
+      ? ['remote', 'set-url', 'origin', options.repository]
+      : ['remote', 'add', 'origin', options.repository]
+  );
+
+  const credentialArgs = options.credentials
+    ? [
+        '-c',
+        'credential.helper=',
+        '-c',
+        `credential.helper=${CREDENTIAL_HELPER}`,
+      ]
+    : [];
+  const credentialEnv = options.credentials
+    ? {
+        OPENHANDS_GIT_USERNAME:
+          options.credentials.username ?? DEFAULT_GIT_USERNAME,
+        OPENHANDS_GIT_TOKEN: options.credentials.token,
+      }
+    : undefined;
+  await runGit(
+    sandbox,
+    directory,
+    [
+      ...credentialArgs,
+      'fetch',
+      '--quiet',
+      ...(options.depth ? [`--depth=${options.depth}`] : []),
+      'origin',
+      options.ref ?? 'HEAD',
+    ],
+    credentialEnv
+  );
+  await runGit(sandbox, directory, [
+    'checkout',
+    '--quiet',
+    '--force',
+    ...(options.branch ? ['-B', options.branch] : ['--detach']),
+    'FETCH_HEAD',
+  ]);
+
+  if (options.author) {
+    await runGit(sandbox, directory, [
+      'config',
+      'user.name',
+      options.author.name,
+    ]);
+    await runGit(sandbox, directory, [
+      'config',
+      'user.email',
+      options.author.email,
+    ]);
+  }
+
+  const baseCommit = (
+    await runGit(sandbox, directory, ['rev-parse', 'HEAD'])
+  ).trim();
+  await runGit(sandbox, directory, [
+    'config',
+    BASE_COMMIT_CONFIG_KEY,
+    baseCommit,
+  ]);
+
+  return {
+    directory,
+    repository: options.repository,
+    ref: options.ref,
+    branch: options.branch,
+    baseCommit,
+  };
+}
+
+/**
+ * Clone a repository and start a conversation working in it.
+ *
+ * @param sandbox - The Sandbox instance
+ * @param server - The agent-server handle
+ * @param options - Clone options and the conversation to start
+ * @returns The checked-out workspace and the new conversation
+ *
+ * @example
+ * ```typescript
+ * const { workspace, conversation } = await prepareWorkspace(sandbox, server, {
+ *   repository: 'https://github.com/acme/app.git',
+ *   branch: 'openhands/fix-login',
+ *   conversation: {
+ *     agent: { llm: { model: 'anthropic/claude-sonnet-4-5-20250929', api_key: env.ANTHROPIC_API_KEY } },
+ *     initial_message: { content: [{ type: 'text', text: 'Fix the login bug' }], run: true },
+ *   },
+ * });
+ * ```
+ */
+export async function prepareWorkspace(
+  sandbox: Sandbox<unknown>,
+  server: OpenhandsServer,
+  options: OpenhandsPrepareWorkspaceOptions
+): Promise<{
+  workspace: OpenhandsWorkspaceInfo;
+  conversation: ConversationInfo;
+}> {
+  const { conversation: request, ...cloneOptions } = options;
+  const workspace = await cloneRepository(sandbox, cloneOptions);
+  const conversation = await new OpenhandsClient(
+    sandbox,
+    server
+  ).createConversation({
+    ...request,
+    workspace: { ...request.workspace, working_dir: workspace.directory },
+  });
+  return { workspace, conversation };
+}
+
+/**
+ * Copy the index of a repository to a temporary file, so files can be
+ * staged for a diff without touching the index the agent is working with.
+ * A repository without an index gets a path that doesn't exist yet, which
+ * git reads as an empty index.
+ *
+ * @returns Path of the copy, to pass as `GIT_INDEX_FILE`
+ */
+async function copyIndex(
+  sandbox: Sandbox<unknown>,
+  directory: string
+): Promise<string> {
+  const index = (
+    await runGit(sandbox, directory, ['rev-parse', '--git-path', 'index'])
+  ).trim();
+  const command = `path=$(mktemp) && { cp -- ${quoteShellArg(index)} "$path" || rm -f -- "$path"; } && printf %s "$path"`;
+  const result = await sandbox.exec(
+    `cd ${quoteShellArg(directory)} && ${command}`
+  );
+  if (!result.success) {
+    throw new OpenhandsGitError(
+      `Copying the git index failed with exit code ${result.exitCode}`,
+      {
+        command,
+        directory,
+        exitCode: result.exitCode,
+        stderr: result.stderr,
+      }
+    );
+  }
+  return result.stdout.trim();
+}
+
+/**
+ * Collect the changes made in a workspace since its base commit: commit
+ * list, changed files, a diff including uncommitted and untracked files,
+ * and the commits as a `git format-patch` series. Untracked files are
+ * staged in a temporary copy of the index, so the repository's own index
+ * is left as it was and this can run while the agent is working.
+ *
+ * @param sandbox - The Sandbox instance
+ * @param directory - Repository directory
+ * @param options - Base commit (default: the one recorded by `cloneRepository()`)
+ */
+export async function collectWorkspaceChanges(
+  sandbox: Sandbox<unknown>,
+  directory: string,
+  options: { base?: string } = {}
+): Promise<OpenhandsWorkspaceChanges> {
+  assertNotOption('base', options.base);
+  const baseCommit = (
+    options.base ??
+    (await runGit(sandbox, directory, [
+      'config',
+      '--get',
+      BASE_COMMIT_CONFIG_KEY,
+    ]))
+  ).trim();
+  const headCommit = (
+    await runGit(sandbox, directory, ['rev-parse', 'HEAD'])
+  ).trim();
+
+  const index = await copyIndex(sandbox, directory);
+  try {
+    return await diffWorkspace(sandbox, directory, baseCommit, headCommit, {
+      GIT_INDEX_FILE: index,
+    });
+  } finally {
+    await sandbox.exec(`rm -f -- ${quoteShellArg(index)}`);
+  }
+}
+
+/**
+ * Read the commits, changed files, diff and patch series since a base
+ * commit, with git reading the index at `env.GIT_INDEX_FILE`
+ */
+async function diffWorkspace(
+  sandbox: Sandbox<unknown>,
+  directory: string,
+  baseCommit: string,
+  headCommit: string,
+  env: Record<string, string>
+): Promise<OpenhandsWorkspaceChanges> {
+  // Mark untracked files as intent-to-add so they show up in the diff
+  await runGit(sandbox, directory, ['add', '--intent-to-add', '--all'], env);
+
+  const log = await runGit(sandbox, directory, [
+    'log',
+    '--reverse',
+    '--format=%H%x1f%an%x1f%ae%x1f%aI%x1f%s%x1e',
+    `${baseCommit}..HEAD`,
+  ]);
+  const commits = log
+    .split('\x1e')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry): OpenhandsGitCommit => {
+      const [sha = '', author = '', email = '', date = '', subject = ''] =
+        entry.split('\x1f');
+      return { sha, author, email, date, subject };
+    });
+
+  const nameStatus = await runGit(
+    sandbox,
+    directory,
+    ['diff', '--name-status', baseCommit],
+    env
+  );
+  const files = nameStatus
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => {
+      const [status = '', ...paths] = line.split('\t');
+      return { path: paths[paths.length - 1] ?? '', status: status.charAt(0) };
+    });
+
+  const diff = await runGit(
+    sandbox,
+    directory,
+    ['diff', '--binary', baseCommit],
+    env
+  );
+  const patch = commits.length
+    ? await runGit(sandbox, directory, [
+        'format-patch',
+        '--stdout',
+        '--binary',
+        `${baseCommit}..HEAD`,
+      ])
+    : '';
+
+  return { baseCommit, headCommit, commits, files, diff, patch };
+}
@@ -1,3 +1,21 @@
 export * from './types';
+export * from './errors';
 export * from './openhands';
-
+export * from './client';
+export * from './events';
+export * from './registry';
+export * from './supervisor';
+export * from './workspace';
+export * from './git';
+export * from './persistence';
+export * from './llm';
+export * from './redact';
+export * from './logging';
+export * from './logs';
+export * from './usage';
+export * from './cache';
+export * from './confirmation';
+export * from './webhooks';
+export * from './previews';
+export * from './tasks';
+export * from './jobs';
@@ -0,0 +1,161 @@
+import { describe, expect, test } from 'bun:test';
+import { FakeSandbox, MemoryKeyValueStore, MemoryQueue } from '../testing';
+import { OpenhandsJobQueue } from './jobs';
+import type { OpenhandsJob, OpenhandsJobConsumerOptions } from './types';
+
+/**
+ * Store that runs a hook after each read, standing in for a request that
+ * lands between the consumer's read and its next write
+ */
+class RacingStore extends MemoryKeyValueStore {
+  afterGet?: (key: string, job: OpenhandsJob) => void;
+
+  override async get(key: string): Promise<string | null> {
+    const value = await super.get(key);
+    if (value && this.afterGet) {
+      this.afterGet(key, JSON.parse(value) as OpenhandsJob);
+    }
+    return value;
+  }
+
+  /**
+   * Overwrite a stored job, as `cancel()` in another request would
+   */
+  cancelNow(key: string, job: OpenhandsJob): void {
+    this.values.set(key, JSON.stringify({ ...job, status: 'cancelled' }));
+  }
+}
+
+/**
+ * Job queue, its store and queue, and consumer options on a fake sandbox
+ */
+function setup(store = new MemoryKeyValueStore()) {
+  const queue = new MemoryQueue();
+  const jobs = new OpenhandsJobQueue({ queue, store });
+  const fake = new FakeSandbox({ agentServer: { reply: () => 'Done' } });
+  const options: OpenhandsJobConsumerOptions = {
+    getSandbox: () => fake.asSandbox(),
+    agent: () => ({
+      kind: 'Agent',
+      llm: { model: 'test-model', usage_id: 'agent' },
+    }),
+    interval: 10,
+    changes: false,
+  };
+  return { queue, jobs, fake, options };
+}
+
+const TASK = { prompt: 'Say hi', workspace: '/workspace' };
+
+describe('OpenhandsJobQueue', () => {
+  test('runs a queued job to completion', async () => {
+    const { queue, jobs, options } = setup();
+    const job = await jobs.enqueue('test', TASK);
+
+    const delivery = await queue.deliver((batch) =>
+      jobs.consume(batch, options)
+    );
+
+    expect(delivery).toEqual({ acked: 1, retried: 0 });
+    expect(await jobs.get(job.id)).toMatchObject({
+      status: 'finished',
+      attempts: 1,
+      result: { status: 'finished', finalMessage: 'Done' },
+    });
+  });
+
+  test('skips a job cancelled before delivery', async () => {
+    const { queue, jobs, fake, options } = setup();
+    const job = await jobs.enqueue('test', TASK);
+    await jobs.cancel(job.id);
+
+    await queue.deliver((batch) => jobs.consume(batch, options));
+
+    expect((await jobs.get(job.id))?.status).toBe('cancelled');
+    expect(await fake.asSandbox().listProcesses()).toHaveLength(0);
+  });
+
+  test('keeps a cancel that lands before the job is marked running', async () => {
+    const store = new RacingStore();
+    const { queue, jobs, fake, options } = setup(store);
+    const job = await jobs.enqueue('test', TASK);
+    store.afterGet = (key, stored) => {
+      if (stored.status === 'queued') {
+        store.afterGet = undefined;
+        store.cancelNow(key, stored);
+      }
+    };
+
+    const delivery = await queue.deliver((batch) =>
+      jobs.consume(batch, options)
+    );
+
+    expect(delivery.acked).toBe(1);
+    expect((await jobs.get(job.id))?.status).toBe('cancelled');
+    expect(await fake.asSandbox().listProcesses()).toHaveLength(0);
+  });
+
+  test('keeps a cancel that lands while the job runs', async () => {
+    const store = new RacingStore();
+    const { queue, jobs, options } = setup(store);
+    const job = await jobs.enqueue('test', TASK);
+    store.afterGet = (key, stored) => {
+      if (stored.status === 'running') {
+        store.afterGet = undefined;
+        store.cancelNow(key, stored);
+      }
+    };
+
+    await queue.deliver((batch) => jobs.consume(batch, options));
+
+    expect((await jobs.get(job.id))?.status).toBe('cancelled');
+  });
+
+  test('retries a job that throws, then marks it failed', async () => {
+    const { queue, jobs, options } = setup();
+    const job = await jobs.enqueue('test', TASK);
+    const failing = {
+      ...options,
+      maxAttempts: 2,
+      agent: () => {
+        throw new Error('No agent');
+      },
+    };
+
+    expect(
+      await queue.deliver((batch) => jobs.consume(batch, failing))
+    ).toEqual({ acked: 0, retried: 1 });
+    expect((await jobs.get(job.id))?.status).toBe('queued');
+    expect(
+      await queue.deliver((batch) => jobs.consume(batch, failing))
+    ).toEqual({ acked: 1, retried: 0 });
+    expect(await jobs.get(job.id)).toMatchObject({
+      status: 'failed',
+      attempts: 2,
+      error: 'No agent',
+    });
+  });
+
+  test('fails a job whose sandbox is over budget without starting it', async () => {
+    const { queue, jobs, options } = setup();
+    const job = await jobs.enqueue('test', TASK);
+
+    const delivery = await queue.deliver((batch) =>
+      jobs.consume(batch, { ...options, usage: { budget: { maxTokens: 0 } } })
+    );
+
+    expect(delivery).toEqual({ acked: 1, retried: 0 });
+    const failed = await jobs.get(job.id);
+    expect(failed).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(failed?.error).toContain('budget');
+    expect(failed?.result).toBeUndefined();
+  });
+
+  test('leaves jobs that already ended unchanged on cancel', async () => {
+    const { queue, jobs, options } = setup();
+    const job = await jobs.enqueue('test', TASK);
+    await queue.deliver((batch) => jobs.consume(batch, options));
+
+    expect((await jobs.cancel(job.id))?.status).toBe('finished');
+  });
+});
@@ -0,0 +1,319 @@
+import type {
+  OpenhandsJob,
+  OpenhandsJobConsumerOptions,
+  OpenhandsJobQueueOptions,
+  OpenhandsJobStatus,
+  OpenhandsJobTask,
+  OpenhandsKeyValueStore,
+  OpenhandsQueueBatch,
+  OpenhandsQueueSender,
+} from './types';
+import { OpenhandsClient } from './client';
+import { OpenhandsApiError, OpenhandsBudgetExceededError } from './errors';
+import { createOpenhandsServer } from './openhands';
+import { snapshotSettledConversations } from './persistence';
+import { startTask, waitForTask } from './tasks';
+import { assertWithinBudget } from './usage';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Job statuses after which a job is never picked up again
+ */
+const FINAL_JOB_STATUSES: OpenhandsJobStatus[] = [
+  'finished',
+  'failed',
+  'cancelled',
+];
+
+/**
+ * Whether a job status is final
+ */
+export function isJobDone(status: OpenhandsJobStatus): boolean {
+  return FINAL_JOB_STATUSES.includes(status);
+}
+
+/**
+ * Background jobs running agent tasks through a queue.
+ *
+ * Agent runs often outlast the request that starts them, so `enqueue()`
+ * records a job and sends its ID to a queue, and a queue consumer calls
+ * `consume()` to start the sandbox's agent-server, drive the conversation to
+ * completion and store the result. Job records live in a key-value store
+ * shared by the producer and the consumer.
+ *
+ * @example
+ * ```typescript
+ * const jobs = (env: Env) =>
+ *   new OpenhandsJobQueue({ queue: env.AGENT_JOBS, store: env.AGENT_JOB_RECORDS })
+ *
+ * export default {
+ *   async fetch(request, env) {
+ *     const job = await jobs(env).enqueue('my-sandbox', {
+ *       prompt: 'Upgrade the dependencies and fix the build',
+ *       workspace: '/workspace/repo',
+ *     })
+ *     return Response.json(job, { status: 202 })
+ *   },
+ *   async queue(batch, env) {
+ *     await jobs(env).consume(batch, {
+ *       getSandbox: (name) => getSandbox(env.Sandbox, name),
+ *       agent: () => agents.build(),
+ *       server: { env: { LLM_API_KEY: env.ANTHROPIC_API_KEY } },
+ *     })
+ *   },
+ * }
+ * ```
+ */
+export class OpenhandsJobQueue {
+  private readonly queue: OpenhandsQueueSender;
+  private readonly store: OpenhandsKeyValueStore;
+  private readonly prefix: string;
+
+  constructor(options: OpenhandsJobQueueOptions) {
+    this.queue = options.queue;
+    this.store = options.store;
+    this.prefix = options.prefix ?? 'openhands:job:';
+  }
+
+  /**
+   * Record a job and send it to the queue
+   *
+   * @param sandboxName - Sandbox the task runs in
+   * @param task - Prompt, workspace and limits of the task
+   * @returns The queued job
+   */
+  async enqueue(
+    sandboxName: string,
+    task: OpenhandsJobTask
+  ): Promise<OpenhandsJob> {
+    const job: OpenhandsJob = {
+      id: crypto.randomUUID(),
+      sandboxName,
+      task,
+      status: 'queued',
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    };
+    await this.save(job);
+    await this.queue.send({ jobId: job.id });
+    return job;
+  }
+
+  /**
+   * Fetch a job, or null if it doesn't exist
+   */
+  async get(jobId: string): Promise<OpenhandsJob | null> {
+    const value = await this.store.get(this.prefix + jobId);
+    return value ? (JSON.parse(value) as OpenhandsJob) : null;
+  }
+
+  /**
+   * Cancel a queued or running job. A queued job is skipped when it is
+   * delivered; a running job's conversation is paused on the consumer's
+   * next status poll. Jobs that already ended are returned unchanged.
+   *
+   * @returns The job, or null if it doesn't exist
+   */
+  async cancel(jobId: string): Promise<OpenhandsJob | null> {
+    const job = await this.get(jobId);
+    if (!job || isJobDone(job.status)) {
+      return job;
+    }
+    const cancelled: OpenhandsJob = {
+      ...job,
+      status: 'cancelled',
+      finishedAt: new Date().toISOString(),
+    };
+    await this.save(cancelled);
+    return cancelled;
+  }
+
+  /**
+   * Run the jobs of a batch of queue messages, one at a time. Messages are
+   * acknowledged once their job has ended; a job that throws is retried
+   * until `maxAttempts` and then marked failed.
+   *
+   * @param batch - Batch delivered to the Worker's `queue()` handler
+   * @param options - Sandbox, agent and server of a job, plus waiting options
+   */
+  async consume(
+    batch: OpenhandsQueueBatch,
+    options: OpenhandsJobConsumerOptions
+  ): Promise<void> {
+    const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    for (const message of batch.messages) {
+      const job = await this.get(message.body.jobId);
+      if (!job || isJobDone(job.status)) {
+        message.ack();
+        continue;
+      }
+
+      const running: OpenhandsJob & { conversationId: string } = {
+        ...job,
+        status: 'running',
+        attempts: job.attempts + 1,
+        startedAt: job.startedAt ?? new Date().toISOString(),
+        // Assigned up front so a retry resumes the same conversation
+        conversationId: job.conversationId ?? crypto.randomUUID(),
+      };
+      // Written through update(), which re-reads the job: a cancel since the
+      // read above is kept, and the job is then skipped
+      await this.update(job.id, running);
+      if ((await this.get(job.id))?.status !== 'running') {
+        message.ack();
+        continue;
+      }
+
+      try {
+        await this.run(running, options);
+        message.ack();
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        if ((await this.get(running.id))?.status === 'cancelled') {
+          message.ack();
+        } else if (running.attempts < maxAttempts) {
+          await this.update(running.id, { status: 'queued', error: reason });
+          message.retry();
+        } else {
+          await this.update(running.id, {
+            status: 'failed',
+            error: reason,
+            finishedAt: new Date().toISOString(),
+          });
+          message.ack();
+        }
+      }
+    }
+  }
+
+  /**
+   * Start the job's server and conversation, wait for the task and store
+   * its result
+   */
+  private async run(
+    job: OpenhandsJob & { conversationId: string },
+    options: OpenhandsJobConsumerOptions
+  ): Promise<void> {
+    const sandbox = options.getSandbox(job.sandboxName);
+    const serverOptions =
+      typeof options.server === 'function'
+        ? await options.server(job)
+        : (options.server ?? {});
+    const server = await createOpenhandsServer(sandbox, {
+      ...serverOptions,
+      sandboxName: job.sandboxName,
+    });
+
+    const client = new OpenhandsClient(sandbox, server, serverOptions);
+    const existing = await client
+      .getConversation(job.conversationId)
+      .catch((error: unknown) => {
+        if (error instanceof OpenhandsApiError && error.status === 404) {
+          return null;
+        }
+        throw error;
+      });
+    if (!existing) {
+      if (options.usage) {
+        try {
+          await assertWithinBudget(
+            sandbox,
+            server,
+            job.sandboxName,
+            options.usage
+          );
+        } catch (error) {
+          if (!(error instanceof OpenhandsBudgetExceededError)) {
+            throw error;
+          }
+          // Retrying won't help until the budget is raised
+          await this.update(job.id, {
+            status: 'failed',
+            error: error.message,
+            finishedAt: new Date().toISOString(),
+          });
+          return;
+        }
+      }
+      await startTask(
+        sandbox,
+        server,
+        {
+          ...job.task,
+          agent: await options.agent(job),
+          conversationId: job.conversationId,
+        },
+        serverOptions
+      );
+    } else if (existing.execution_status === 'idle') {
+      // A previous attempt created the conversation but didn't start it
+      await client.runConversation(job.conversationId);
+    }
+
+    const result = await waitForTask(sandbox, server, job.conversationId, {
+      timeout: options.timeout,
+      interval: options.interval,
+      changes: options.changes,
+      usageIds: options.usageIds,
+      logger: serverOptions.logger,
+      tracer: serverOptions.tracer,
+      cancelled: async () => (await this.get(job.id))?.status === 'cancelled',
+    });
+    const persistence = serverOptions.persistence;
+    if (persistence && persistence.snapshotOnSettle !== false) {
+      await snapshotSettledConversations(sandbox, server, persistence, {
+        directory: serverOptions.directory,
+        conversationIds: [job.conversationId],
+      }).catch(() => []);
+    }
+
+    const finishedAt = new Date().toISOString();
+    if (result.status === 'cancelled') {
+      await this.update(job.id, { result });
+    } else if (result.status === 'finished') {
+      await this.update(job.id, {
+        status: 'finished',
+        result,
+        error: undefined,
+        finishedAt,
+      });
+    } else {
+      await this.update(job.id, {
+        status: 'failed',
+        result,
+        error: `Task ended with status ${result.status}`,
+        finishedAt,
+      });
+    }
+  }
+
+  /**
+   * Merge changes into the stored job. The job is read again right before
+   * writing, and a job cancelled in the meantime stays cancelled: only a
+   * result is stored for it.
+   */
+  private async update(
+    jobId: string,
+    changes: Partial<OpenhandsJob>
+  ): Promise<void> {
+    const job = await this.get(jobId);
+    if (!job) {
+      return;
+    }
+    if (job.status === 'cancelled') {
+      if (changes.result) {
+        await this.save({ ...job, result: changes.result });
+      }
+      return;
+    }
+    await this.save({ ...job, ...changes });
+  }
+
+  /**
+   * Write a job record
+   */
+  private async save(job: OpenhandsJob): Promise<void> {
+    await this.store.put(this.prefix + job.id, JSON.stringify(job));
+  }
+}
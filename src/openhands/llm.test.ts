@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'bun:test';
+import { getOpenhandsErrorStatus } from '../routes/errors';
+import { OpenhandsConfigurationError } from './errors';
+import { buildLLMConfig, OpenhandsAgentConfigBuilder } from './llm';
+
+describe('buildLLMConfig', () => {
+  test('prefixes the model and resolves the API key', async () => {
+    const config = await buildLLMConfig(
+      { provider: 'anthropic', model: 'claude-sonnet-4-5-20250929' },
+      (name) => (name === 'ANTHROPIC_API_KEY' ? 'sk-test' : undefined)
+    );
+
+    expect(config).toMatchObject({
+      model: 'anthropic/claude-sonnet-4-5-20250929',
+      api_key: 'sk-test',
+    });
+  });
+
+  test('returns null when the API key is missing', async () => {
+    expect(
+      await buildLLMConfig({ provider: 'openai', model: 'gpt-5' })
+    ).toBeNull();
+  });
+
+  test('rejects an openai-compatible profile without baseUrl as a server error', async () => {
+    const error = await buildLLMConfig({
+      provider: 'openai-compatible',
+      model: 'llama',
+    }).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(OpenhandsConfigurationError);
+    expect(getOpenhandsErrorStatus(error)).toBe(500);
+  });
+});
+
+describe('OpenhandsAgentConfigBuilder', () => {
+  test('falls back to the next profile with a key', async () => {
+    const agents = new OpenhandsAgentConfigBuilder({
+      llm: { provider: 'anthropic', model: 'claude-sonnet-4-5-20250929' },
+      fallbacks: [{ provider: 'openai', model: 'gpt-5' }],
+      resolveSecret: (name) =>
+        name === 'OPENAI_API_KEY' ? 'sk-openai' : undefined,
+    });
+
+    const agent = await agents.build();
+
+    expect(agent.llm).toMatchObject({
+      model: 'openai/gpt-5',
+      api_key: 'sk-openai',
+    });
+  });
+
+  test('reports missing API keys as a server error', async () => {
+    const agents = new OpenhandsAgentConfigBuilder({
+      llm: { provider: 'openai', model: 'gpt-5' },
+    });
+
+    const error = await agents.build().catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(OpenhandsConfigurationError);
+    expect(getOpenhandsErrorStatus(error)).toBe(500);
+  });
+});
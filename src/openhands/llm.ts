@@ -0,0 +1,157 @@
+import type {
+  AgentConfig,
+  LLMConfig,
+  OpenhandsAgentConfigOptions,
+  OpenhandsLLMProfile,
+  OpenhandsSecretResolver,
+} from './types';
+import { OpenhandsConfigurationError } from './errors';
+
+/**
+ * Default secret names holding the API key of each provider
+ */
+const DEFAULT_API_KEY_SECRETS: Record<
+  OpenhandsLLMProfile['provider'],
+  string | undefined
+> = {
+  anthropic: 'ANTHROPIC_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  'openai-compatible': undefined,
+};
+
+/**
+ * LiteLLM model prefix of each provider. OpenAI-compatible servers are
+ * reached through the OpenAI client with a custom base URL.
+ */
+const MODEL_PREFIXES: Record<OpenhandsLLMProfile['provider'], string> = {
+  anthropic: 'anthropic/',
+  openai: 'openai/',
+  'openai-compatible': 'openai/',
+};
+
+/**
+ * Human-readable profile name for error messages (never includes secrets)
+ */
+function describeProfile(profile: OpenhandsLLMProfile): string {
+  const secret =
+    profile.apiKeySecret ?? DEFAULT_API_KEY_SECRETS[profile.provider];
+  return `${profile.provider}/${profile.model}${secret ? ` (${secret})` : ''}`;
+}
+
+/**
+ * Build the agent-server `LLMConfig` for a profile.
+ * Returns null if the profile needs an API key the resolver can't provide.
+ *
+ * @param profile - LLM profile
+ * @param resolveSecret - Secret resolver (default: none, so keyed profiles fail)
+ */
+export async function buildLLMConfig(
+  profile: OpenhandsLLMProfile,
+  resolveSecret?: OpenhandsSecretResolver
+): Promise<LLMConfig | null> {
+  if (profile.provider === 'openai-compatible' && !profile.baseUrl) {
+    throw new OpenhandsConfigurationError(
+      `baseUrl is required for openai-compatible profile ${profile.model}`,
+      { field: 'baseUrl' }
+    );
+  }
+
+  const secretName =
+    profile.apiKeySecret ?? DEFAULT_API_KEY_SECRETS[profile.provider];
+  let apiKey: string | undefined;
+  if (secretName) {
+    apiKey = await resolveSecret?.(secretName);
+    if (!apiKey) {
+      return null;
+    }
+  }
+
+  const prefix = MODEL_PREFIXES[profile.provider];
+  const config: LLMConfig = {
+    ...profile.extra,
+    model: profile.model.includes('/')
+      ? profile.model
+      : `${prefix}${profile.model}`,
+  };
+  if (apiKey) {
+    config.api_key = apiKey;
+  }
+  if (profile.baseUrl) {
+    config.base_url = profile.baseUrl;
+  }
+  if (profile.temperature !== undefined) {
+    config.temperature = profile.temperature;
+  }
+  if (profile.maxOutputTokens !== undefined) {
+    config.max_output_tokens = profile.maxOutputTokens;
+  }
+  if (profile.usageId) {
+    config.usage_id = profile.usageId;
+  }
+  return config;
+}
+
+/**
+ * Builds agent configurations for conversations from provider-neutral LLM
+ * profiles.
+ *
+ * API keys are looked up with `resolveSecret` on every `build()`, so they
+ * can come from Worker bindings at request time instead of being baked into
+ * the agent-server environment. When the primary profile's key can't be
+ * resolved, fallbacks are tried in order.
+ *
+ * @example
+ * ```typescript
+ * const agents = new OpenhandsAgentConfigBuilder({
+ *   llm: { provider: 'anthropic', model: 'claude-sonnet-4-5-20250929', temperature: 0.2 },
+ *   fallbacks: [{ provider: 'openai', model: 'gpt-5' }],
+ *   resolveSecret: (name) => env[name],
+ * })
+ *
+ * const conversation = await client.createConversation({
+ *   agent: await agents.build({ temperature: 0 }),
+ *   workspace: { working_dir: '/workspace/project' },
+ * })
+ * ```
+ */
+export class OpenhandsAgentConfigBuilder {
+  private readonly options: OpenhandsAgentConfigOptions;
+
+  constructor(options: OpenhandsAgentConfigOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Build an agent configuration.
+   *
+   * @param overrides - Per-conversation settings merged into the primary profile
+   * @throws OpenhandsConfigurationError if no profile's API key can be resolved
+   */
+  async build(
+    overrides: Partial<OpenhandsLLMProfile> = {}
+  ): Promise<AgentConfig> {
+    const profiles = [
+      { ...this.options.llm, ...overrides },
+      ...(this.options.fallbacks ?? []),
+    ];
+
+    for (const profile of profiles) {
+      const llm = await buildLLMConfig(profile, this.options.resolveSecret);
+      if (llm) {
+        const agent: AgentConfig = { llm };
+        if (this.options.tools) {
+          agent.tools = this.options.tools;
+        }
+        if (this.options.systemPromptKwargs) {
+          agent.system_prompt_kwargs = this.options.systemPromptKwargs;
+        }
+        return agent;
+      }
+    }
+
+    throw new OpenhandsConfigurationError(
+      `No API key available for LLM profiles: ${profiles.map(describeProfile).join(', ')}`,
+      { field: 'apiKeySecret' }
+    );
+  }
+}
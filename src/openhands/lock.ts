@@ -0,0 +1,43 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import { quoteShellArg } from '../utils/agent-server';
+
+/**
+ * Create a lock file holding `owner`, failing if it already exists
+ * (`set -C` makes the redirect an exclusive create)
+ *
+ * @returns Whether the lock was created
+ */
+export async function createSandboxLock(
+  sandbox: Sandbox<unknown>,
+  path: string,
+  owner: string
+): Promise<boolean> {
+  const result = await sandbox.exec(
+    `set -C; printf %s ${quoteShellArg(owner)} > ${quoteShellArg(path)}`
+  );
+  return result.exitCode === 0;
+}
+
+/**
+ * Owner written into a lock file, or null if it doesn't exist
+ */
+export async function readSandboxLock(
+  sandbox: Sandbox<unknown>,
+  path: string
+): Promise<string | null> {
+  try {
+    return (await sandbox.readFile(path)).content;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove a lock file (no-op if it doesn't exist)
+ */
+export async function removeSandboxLock(
+  sandbox: Sandbox<unknown>,
+  path: string
+): Promise<void> {
+  await sandbox.exec(`rm -f -- ${quoteShellArg(path)}`);
+}
@@ -0,0 +1,186 @@
+import type {
+  OpenhandsLogger,
+  OpenhandsLogLevel,
+  OpenhandsObservabilityOptions,
+  OpenhandsOptions,
+  OpenhandsSpan,
+  OpenhandsSpanAttributeValue,
+  OpenhandsTracer,
+} from './types';
+import { isOpenhandsError } from './errors';
+import { getOptionSecrets } from './logs';
+import { redactSecrets } from './redact';
+
+/**
+ * Header carrying the request ID to agent-server (and read from clients)
+ */
+export const REQUEST_ID_HEADER = 'X-Request-ID';
+
+const LOG_LEVELS: OpenhandsLogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * OpenTelemetry status codes
+ */
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Logger that discards every entry (the default)
+ */
+export const noopLogger: OpenhandsLogger = {
+  debug() {},
+  info() {},
+  warn() {},
+  error() {},
+};
+
+/**
+ * Tracer whose spans record nothing (the default)
+ */
+export const noopTracer: OpenhandsTracer = {
+  startSpan() {
+    return {
+      setAttribute() {},
+      recordException() {},
+      setStatus() {},
+      end() {},
+    };
+  },
+};
+
+/**
+ * Create a logger writing one JSON object per entry to the console, which
+ * Workers Logs and Logpush ingest as structured fields.
+ *
+ * @param options.level - Minimum level written (default: 'info')
+ * @param options.fields - Fields added to every entry (e.g. `{ service: 'agents' }`)
+ * @returns Logger
+ *
+ * @example
+ * ```typescript
+ * const server = await createOpenhandsServer(sandbox, {
+ *   logger: createJsonLogger({ level: 'debug' }),
+ * })
+ * ```
+ */
+export function createJsonLogger(
+  options: { level?: OpenhandsLogLevel; fields?: Record<string, unknown> } = {}
+): OpenhandsLogger {
+  const minimum = LOG_LEVELS.indexOf(options.level ?? 'info');
+  const write =
+    (level: OpenhandsLogLevel) =>
+    (message: string, fields?: Record<string, unknown>) => {
+      if (LOG_LEVELS.indexOf(level) < minimum) {
+        return;
+      }
+      console[level](
+        JSON.stringify({
+          ...options.fields,
+          ...fields,
+          level,
+          message,
+          timestamp: new Date().toISOString(),
+        })
+      );
+    };
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
+
+/**
+ * Read the request ID sent by the client (`X-Request-ID`, then `CF-Ray`),
+ * or generate one.
+ */
+export function getRequestId(request: Request): string {
+  return (
+    request.headers.get(REQUEST_ID_HEADER) ??
+    request.headers.get('CF-Ray') ??
+    crypto.randomUUID()
+  );
+}
+
+/**
+ * Get the logger of the options, with the request ID added to every entry
+ */
+export function getLogger(
+  options: OpenhandsObservabilityOptions
+): OpenhandsLogger {
+  const logger = options.logger ?? noopLogger;
+  if (!options.requestId) {
+    return logger;
+  }
+  const requestId = options.requestId;
+  const withRequestId =
+    (level: OpenhandsLogLevel) =>
+    (message: string, fields?: Record<string, unknown>) =>
+      logger[level](message, { requestId, ...fields });
+  return {
+    debug: withRequestId('debug'),
+    info: withRequestId('info'),
+    warn: withRequestId('warn'),
+    error: withRequestId('error'),
+  };
+}
+
+/**
+ * Run an operation inside a span. The span gets the request ID and
+ * `attributes`, records a thrown error (which is rethrown), and a debug
+ * log entry reports the duration. Values of `env` and the session API key
+ * are redacted from recorded error messages.
+ *
+ * @param options - Logger, tracer, request ID and the server's secrets
+ * @param name - Span name (e.g. 'openhands.start_server')
+ * @param attributes - Span attributes
+ * @param fn - Operation, which may add attributes to the span
+ * @returns Result of the operation
+ */
+export async function withSpan<T>(
+  options: OpenhandsObservabilityOptions &
+    Pick<OpenhandsOptions, 'env' | 'sessionApiKey'>,
+  name: string,
+  attributes: Record<string, OpenhandsSpanAttributeValue | undefined>,
+  fn: (span: OpenhandsSpan) => Promise<T>
+): Promise<T> {
+  const defined: Record<string, OpenhandsSpanAttributeValue> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      defined[key] = value;
+    }
+  }
+  if (options.requestId) {
+    defined['request.id'] = options.requestId;
+  }
+
+  const logger = getLogger(options);
+  const span = (options.tracer ?? noopTracer).startSpan(name, {
+    attributes: defined,
+  });
+  const startedAt = Date.now();
+  try {
+    const result = await fn(span);
+    span.setStatus({ code: SPAN_STATUS_OK });
+    logger.debug(name, { ...attributes, durationMs: Date.now() - startedAt });
+    return result;
+  } catch (error) {
+    const raw = error instanceof Error ? error.message : String(error);
+    // Startup errors quote process output, which can echo secrets
+    const message = redactSecrets(raw, getOptionSecrets(options));
+    span.recordException(
+      error instanceof Error && message === raw ? error : message
+    );
+    span.setStatus({ code: SPAN_STATUS_ERROR, message });
+    logger.error(`${name} failed`, {
+      ...attributes,
+      durationMs: Date.now() - startedAt,
+      error: message,
+      code: isOpenhandsError(error) ? error.code : undefined,
+    });
+    throw error;
+  } finally {
+    span.end();
+  }
+}
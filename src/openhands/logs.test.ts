@@ -0,0 +1,92 @@
+import { describe, expect, test } from 'bun:test';
+import { FakeSandbox } from '../testing';
+import { getServerLogs, streamServerLogs } from './logs';
+import { createOpenhandsServer } from './openhands';
+import { REDACTED } from './redact';
+
+const SECRET = 'sk-secret-123';
+
+/**
+ * Wait longer than the fake sandbox's log polling interval
+ */
+const tick = () => new Promise((resolve) => setTimeout(resolve, 30));
+
+/**
+ * Read a log tail response into its events
+ */
+async function readEvents(
+  response: Response
+): Promise<Array<{ type: string; data: string }>> {
+  const events: Array<{ type: string; data: string }> = [];
+  for (const block of (await response.text()).split('\n\n')) {
+    const type = /^event: (.+)$/m.exec(block)?.[1];
+    const data = /^data: (.+)$/m.exec(block)?.[1];
+    if (type && data) {
+      events.push({ type, data: (JSON.parse(data) as { data: string }).data });
+    }
+  }
+  return events;
+}
+
+describe('server logs', () => {
+  test('redacts secrets from log pages', async () => {
+    const fake = new FakeSandbox();
+    const server = await createOpenhandsServer(fake.asSandbox());
+    fake.getFakeProcess(server.processId)!.stdout = `key=${SECRET}\nready\n`;
+
+    const logs = await getServerLogs(fake.asSandbox(), server, {
+      stream: 'stdout',
+      secrets: [SECRET],
+    });
+
+    expect(logs.stdout?.lines).toEqual([`key=${REDACTED}`, 'ready']);
+  });
+
+  test('redacts a secret split across streamed chunks', async () => {
+    const fake = new FakeSandbox();
+    const server = await createOpenhandsServer(fake.asSandbox());
+    const process = fake.getFakeProcess(server.processId)!;
+    process.stdout = '';
+
+    const response = await streamServerLogs(fake.asSandbox(), server, {
+      stream: 'stdout',
+      secrets: [SECRET],
+      heartbeatInterval: 0,
+    });
+    process.stdout += 'booting\nkey=sk-sec';
+    await tick();
+    process.stdout += 'ret-123 loaded\n';
+    await tick();
+    process.setStatus('completed');
+
+    const events = await readEvents(response);
+    const output = events
+      .filter((event) => event.type === 'stdout')
+      .map((event) => event.data);
+    expect(output.join('')).toBe(`booting\nkey=${REDACTED} loaded\n`);
+    expect(output.some((chunk) => chunk.includes('sk-sec'))).toBe(false);
+    expect(events.at(-1)?.type).toBe('exit');
+  });
+
+  test('flushes held output when the stream ends', async () => {
+    const fake = new FakeSandbox();
+    const server = await createOpenhandsServer(fake.asSandbox());
+    const process = fake.getFakeProcess(server.processId)!;
+    process.stdout = '';
+
+    const response = await streamServerLogs(fake.asSandbox(), server, {
+      stream: 'stdout',
+      secrets: [SECRET],
+      heartbeatInterval: 0,
+    });
+    process.stdout += 'last words: sk-';
+    await tick();
+    process.setStatus('completed');
+
+    const output = (await readEvents(response))
+      .filter((event) => event.type === 'stdout')
+      .map((event) => event.data)
+      .join('');
+    expect(output).toBe('last words: sk-');
+  });
+});
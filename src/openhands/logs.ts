@@ -0,0 +1,282 @@
+import type { LogEvent, Sandbox } from '@cloudflare/sandbox';
+import type {
+  OpenhandsLogPage,
+  OpenhandsLogsOptions,
+  OpenhandsLogTailOptions,
+  OpenhandsOptions,
+  OpenhandsServer,
+  OpenhandsServerLogs,
+} from './types';
+import { redactSecrets } from './redact';
+
+const DEFAULT_LOG_LIMIT = 200;
+const DEFAULT_HEARTBEAT_INTERVAL = 15_000;
+
+/**
+ * Shorter values (flags, ports, log levels) aren't treated as secrets, since
+ * redacting them would mangle unrelated output
+ */
+const MIN_SECRET_LENGTH = 8;
+
+/**
+ * Collect the secret values passed to agent-server: the values of `env` and
+ * the session API key.
+ *
+ * @param options - Server options
+ * @returns Values to pass as `secrets` when reading logs
+ */
+export function getOptionSecrets(
+  options: Pick<OpenhandsOptions, 'env' | 'sessionApiKey'>
+): string[] {
+  return [
+    ...Object.values(options.env ?? {}),
+    options.sessionApiKey ?? '',
+  ].filter((value) => value.length >= MIN_SECRET_LENGTH);
+}
+
+/**
+ * Select a page of lines from process output
+ */
+function pageLines(
+  text: string,
+  limit: number,
+  since: number | undefined
+): OpenhandsLogPage {
+  const lines = text.split('\n');
+  if (lines.at(-1) === '') {
+    lines.pop();
+  }
+  const offset =
+    since !== undefined
+      ? Math.min(Math.max(since, 0), lines.length)
+      : Math.max(lines.length - limit, 0);
+  const selected = lines.slice(offset, offset + limit);
+  return {
+    lines: selected,
+    offset,
+    next: offset + selected.length,
+    total: lines.length,
+  };
+}
+
+/**
+ * Parse the `data:` payloads of a Server-Sent Events stream as JSON
+ */
+async function* readSSEData<T>(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<T> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      buffer += decoder.decode(value, { stream: true });
+      let end: number;
+      while ((end = buffer.indexOf('\n\n')) !== -1) {
+        const data = buffer
+          .slice(0, end)
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trimStart())
+          .join('\n');
+        buffer = buffer.slice(end + 2);
+        if (data) {
+          yield JSON.parse(data) as T;
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Read the stdout and stderr of an agent-server, one page at a time.
+ *
+ * @param sandbox - The Sandbox instance running agent-server
+ * @param server - The agent-server handle
+ * @param options - Streams, paging and secrets to redact
+ * @returns The selected pages
+ *
+ * @example
+ * ```typescript
+ * const logs = await getServerLogs(sandbox, server, {
+ *   stream: 'stderr',
+ *   limit: 50,
+ *   secrets: getOptionSecrets(options),
+ * })
+ * // Later, read what was written since
+ * const more = await getServerLogs(sandbox, server, { stream: 'stderr', since: logs.stderr!.next })
+ * ```
+ */
+export async function getServerLogs(
+  sandbox: Sandbox<unknown>,
+  server: OpenhandsServer,
+  options: OpenhandsLogsOptions = {}
+): Promise<OpenhandsServerLogs> {
+  const output = await sandbox.getProcessLogs(server.processId);
+  const stream = options.stream ?? 'both';
+  const limit = options.limit ?? DEFAULT_LOG_LIMIT;
+
+  const logs: OpenhandsServerLogs = { processId: server.processId };
+  if (stream !== 'stderr') {
+    logs.stdout = pageLines(output.stdout, limit, options.since);
+  }
+  if (stream !== 'stdout') {
+    logs.stderr = pageLines(output.stderr, limit, options.since);
+  }
+  return redactSecrets(logs, options.secrets);
+}
+
+/**
+ * Split buffered output into the part that can be redacted and sent now and
+ * the part to hold back: output after the last newline is held, up to the
+ * length of the longest secret minus one, and a secret is never cut in two
+ */
+function splitRedactable(text: string, secrets: string[]): [string, string] {
+  const longest = Math.max(...secrets.map((secret) => secret.length));
+  let cut = Math.max(text.lastIndexOf('\n') + 1, text.length - longest + 1);
+  let moved = true;
+  while (moved) {
+    moved = false;
+    for (const secret of secrets) {
+      let index = text.indexOf(secret);
+      while (index !== -1 && index < cut) {
+        if (index + secret.length > cut) {
+          cut = index;
+          moved = true;
+        }
+        index = text.indexOf(secret, index + 1);
+      }
+    }
+  }
+  return [text.slice(0, cut), text.slice(cut)];
+}
+
+/**
+ * Tail the output of an agent-server as Server-Sent Events. Output is sent
+ * as `stdout` and `stderr` events, and an `exit` event reports the exit code
+ * when the process ends. When there are secrets to redact, the end of a
+ * chunk that could start a secret is held back until the next chunk (or the
+ * end of the stream), so secrets split across chunks are still redacted.
+ *
+ * @param sandbox - The Sandbox instance running agent-server
+ * @param server - The agent-server handle
+ * @param options - Streams and secrets to redact
+ * @returns A `text/event-stream` response
+ */
+export async function streamServerLogs(
+  sandbox: Sandbox<unknown>,
+  server: OpenhandsServer,
+  options: OpenhandsLogTailOptions = {}
+): Promise<Response> {
+  const stream = options.stream ?? 'both';
+  const heartbeatInterval =
+    options.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL;
+  const abort = new AbortController();
+  const upstream = await sandbox.streamProcessLogs(server.processId, {
+    signal: abort.signal,
+  });
+  const encoder = new TextEncoder();
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (heartbeatInterval > 0) {
+        heartbeat = setInterval(() => {
+          controller.enqueue(encoder.encode(': ping\n\n'));
+        }, heartbeatInterval);
+      }
+      void forward(controller);
+    },
+    cancel() {
+      clearInterval(heartbeat);
+      abort.abort();
+    },
+  });
+
+  const secrets = (options.secrets ?? []).filter(Boolean);
+  /** Output held back per stream, with the timestamp of its last chunk */
+  const pending = new Map<
+    LogEvent['type'],
+    { text: string; timestamp: string }
+  >();
+
+  /**
+   * Forward upstream log events until the process exits or the client leaves
+   */
+  async function forward(
+    controller: ReadableStreamDefaultController<Uint8Array>
+  ): Promise<void> {
+    const send = (
+      event: Pick<LogEvent, 'type' | 'data' | 'timestamp' | 'exitCode'>
+    ) => {
+      const data = redactSecrets(
+        {
+          data: event.data,
+          timestamp: event.timestamp,
+          exitCode: event.exitCode,
+        },
+        secrets
+      );
+      controller.enqueue(
+        encoder.encode(
+          `event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`
+        )
+      );
+    };
+    const flush = () => {
+      for (const [type, { text, timestamp }] of pending) {
+        if (text) {
+          send({ type, data: text, timestamp });
+        }
+      }
+      pending.clear();
+    };
+
+    try {
+      for await (const event of readSSEData<LogEvent>(upstream)) {
+        if (event.type !== 'stdout' && event.type !== 'stderr') {
+          flush();
+          send(event);
+          continue;
+        }
+        if (stream !== 'both' && event.type !== stream) {
+          continue;
+        }
+        if (secrets.length === 0) {
+          send(event);
+          continue;
+        }
+        const [ready, held] = splitRedactable(
+          (pending.get(event.type)?.text ?? '') + event.data,
+          secrets
+        );
+        pending.set(event.type, { text: held, timestamp: event.timestamp });
+        if (ready) {
+          send({ ...event, data: ready });
+        }
+      }
+      flush();
+    } catch {
+      // Upstream closed or the client disconnected
+    } finally {
+      clearInterval(heartbeat);
+      if (!abort.signal.aborted) {
+        controller.close();
+      }
+    }
+  }
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    },
+  });
+}
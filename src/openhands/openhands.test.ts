@@ -0,0 +1,60 @@
+import { describe, expect, test } from 'bun:test';
+import { FakeSandbox } from '../testing';
+import { OpenhandsStartupError } from './errors';
+import { createOpenhandsServer } from './openhands';
+
+describe('createOpenhandsServer', () => {
+  test('concurrent starts share one agent-server', async () => {
+    const sandbox = new FakeSandbox().asSandbox();
+
+    const servers = await Promise.all([
+      createOpenhandsServer(sandbox),
+      createOpenhandsServer(sandbox),
+      createOpenhandsServer(sandbox),
+    ]);
+
+    const processIds = new Set(servers.map((server) => server.processId));
+    expect(processIds.size).toBe(1);
+    const running = (await sandbox.listProcesses()).filter(
+      (process) => process.status === 'running'
+    );
+    expect(running).toHaveLength(1);
+  });
+
+  test('reuses a running agent-server', async () => {
+    const sandbox = new FakeSandbox().asSandbox();
+
+    const first = await createOpenhandsServer(sandbox);
+    const second = await createOpenhandsServer(sandbox);
+
+    expect(first.timings?.reused).toBe(false);
+    expect(second.timings?.reused).toBe(true);
+    expect(second.processId).toBe(first.processId);
+  });
+
+  test('reports a process that exits during startup', async () => {
+    const sandbox = new FakeSandbox({
+      onStartProcess: () => ({ status: 'failed', exitCode: 2, stderr: 'boom' }),
+    }).asSandbox();
+
+    const error = await createOpenhandsServer(sandbox).catch(
+      (error: unknown) => error
+    );
+
+    expect(error).toBeInstanceOf(OpenhandsStartupError);
+    expect((error as OpenhandsStartupError).context).toMatchObject({
+      port: 8001,
+      stderr: 'boom',
+    });
+  });
+
+  test('close stops the process', async () => {
+    const sandbox = new FakeSandbox().asSandbox();
+    const server = await createOpenhandsServer(sandbox);
+
+    await server.close();
+
+    const process = await sandbox.getProcess(server.processId);
+    expect(process?.status).not.toBe('running');
+  });
+});
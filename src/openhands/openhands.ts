@@ -1,45 +1,219 @@
 import type { Sandbox, Process } from '@cloudflare/sandbox';
 import type {
+  OpenhandsObservabilityOptions,
   OpenhandsOptions,
   OpenhandsServer,
-  OpenhandsStartupContext,
+  OpenhandsStartupTimings,
 } from './types';
-import { OpenhandsStartupError } from './types';
 import {
-  buildAgentServerCommand,
+  OpenhandsExecutableNotFoundError,
+  OpenhandsExposureError,
+  OpenhandsPortConflictError,
+  OpenhandsProcessKilledError,
+  OpenhandsProxyError,
+  OpenhandsReadinessTimeoutError,
+  OpenhandsStartupError,
+  type OpenhandsError,
+} from './errors';
+import {
   DEFAULT_AGENT_SERVER_DIR,
-  DEFAULT_AGENT_SERVER_PATH,
+  isAgentServerCommand,
+  resolveAgentServerCommand,
 } from '../utils/agent-server';
+import { closeAgentServer } from './shutdown';
+import { restoreConversations } from './persistence';
+import { emitOpenhandsWebhook } from './webhooks';
+import { exposePreview } from './previews';
+import { getLogger, REQUEST_ID_HEADER, withSpan } from './logging';
 
 const DEFAULT_PORT = 8001;
+const DEFAULT_READINESS = {
+  path: '/health',
+  timeout: 60_000,
+  interval: 500,
+};
+
+/**
+ * Header agent-server reads the session API key from
+ */
+export const SESSION_API_KEY_HEADER = 'X-Session-API-Key';
 
 /**
- * Find an existing agent-server process running on the specified port.
- * Returns the process if found and still active, null otherwise.
+ * Find an existing agent-server process listening on the given port.
+ * Prefers a process started with the exact command, then any agent-server
+ * on the port (e.g. one started by an older SDK version with other
+ * arguments). Returns null if none is active.
+ * Throws `OpenhandsPortConflictError` if another active process was
+ * started with the same port.
  */
 async function findExistingAgentServer(
   sandbox: Sandbox<unknown>,
-  port: number
+  command: string,
+  port: number,
+  options: OpenhandsObservabilityOptions &
+    Pick<OpenhandsOptions, 'executablePath'>
 ): Promise<Process | null> {
-  const processes = await sandbox.listProcesses();
-  const commandPattern = DEFAULT_AGENT_SERVER_PATH;
+  return withSpan(
+    options,
+    'openhands.find_existing_server',
+    { port },
+    async (span) => {
+      const processes = await sandbox.listProcesses();
+      let sameServer: Process | undefined;
+      let conflict: Process | undefined;
 
-  for (const proc of processes) {
-    // Match commands that contain the agent-server path
-    if (proc.command.includes(commandPattern)) {
-      // Check if the command includes the port
-      if (
-        proc.command.includes(`--port ${port}`) ||
-        proc.command.includes(`--port=${port}`)
-      ) {
-        if (proc.status === 'starting' || proc.status === 'running') {
+      for (const proc of processes) {
+        if (proc.status !== 'starting' && proc.status !== 'running') {
+          continue;
+        }
+        if (proc.command === command) {
+          span.setAttribute('process.id', proc.id);
           return proc;
         }
+        if (isAgentServerCommand(proc.command, port, options.executablePath)) {
+          sameServer ??= proc;
+        } else if (
+          proc.command.includes(`--port ${port}`) ||
+          proc.command.includes(`--port=${port}`)
+        ) {
+          conflict = proc;
+        }
+      }
+
+      if (sameServer) {
+        getLogger(options).info(
+          'reusing agent-server started with a different command',
+          { port, processId: sameServer.id, command: sameServer.command }
+        );
+        span.setAttribute('process.id', sameServer.id);
+        return sameServer;
+      }
+      if (conflict) {
+        throw new OpenhandsPortConflictError(
+          `port ${port} is already used by another process: ${conflict.command}`,
+          { port, processId: conflict.id, command: conflict.command }
+        );
       }
+
+      return null;
     }
+  );
+}
+
+/**
+ * Thrown when a custom readiness predicate doesn't succeed in time
+ */
+class ReadinessCheckTimeout extends Error {
+  constructor(timeout: number) {
+    super(`readiness check did not succeed within ${timeout}ms`);
+    this.name = 'ReadinessCheckTimeout';
+  }
+}
+
+/**
+ * Classify a failed readiness wait into the matching SDK error,
+ * attaching the process stderr
+ */
+async function toStartupError(
+  process: Process,
+  port: number,
+  timeout: number,
+  cause: unknown
+): Promise<OpenhandsError> {
+  const logs = await process
+    .getLogs()
+    .catch(() => ({ stderr: '', stdout: '' }));
+  const status = await process.getStatus().catch(() => process.status);
+  const context = {
+    port,
+    stderr: logs.stderr,
+    command: process.command,
+    processId: process.id,
+  };
+  const stderrSummary = logs.stderr || '(empty)';
+
+  if (/address already in use/i.test(logs.stderr)) {
+    return new OpenhandsPortConflictError(
+      `agent-server could not bind port ${port}. Stderr: ${stderrSummary}`,
+      context,
+      { cause }
+    );
   }
+  if (status === 'killed') {
+    return new OpenhandsProcessKilledError(
+      `agent-server process was killed before becoming ready on port ${port}`,
+      { ...context, exitCode: process.exitCode },
+      { cause }
+    );
+  }
+  if (
+    cause instanceof ReadinessCheckTimeout ||
+    (cause instanceof Error && cause.name === 'ProcessReadyTimeoutError')
+  ) {
+    return new OpenhandsReadinessTimeoutError(
+      `agent-server did not become ready on port ${port} within ${timeout}ms. Stderr: ${stderrSummary}`,
+      { ...context, timeout },
+      { cause }
+    );
+  }
+  return new OpenhandsStartupError(
+    `agent-server failed to start on port ${port}. Stderr: ${stderrSummary}`,
+    context,
+    { cause }
+  );
+}
 
-  return null;
+/**
+ * Wait until the agent-server accepts connections and passes the readiness
+ * check, recording how long each phase took.
+ */
+async function waitForReady(
+  sandbox: Sandbox<unknown>,
+  process: Process,
+  port: number,
+  options: OpenhandsOptions,
+  timings: OpenhandsStartupTimings
+): Promise<void> {
+  const readiness = options.readiness ?? {};
+  const timeout = readiness.timeout ?? DEFAULT_READINESS.timeout;
+  const interval = readiness.interval ?? DEFAULT_READINESS.interval;
+  const deadline = Date.now() + timeout;
+
+  await withSpan(
+    options,
+    'openhands.readiness',
+    { port, 'process.id': process.id, timeout },
+    async (span) => {
+      try {
+        const portStart = Date.now();
+        await process.waitForPort(port, { mode: 'tcp', timeout, interval });
+        timings.portOpenMs = Date.now() - portStart;
+        span.setAttribute('port_open_ms', timings.portOpenMs);
+
+        const healthStart = Date.now();
+        if (readiness.check) {
+          while (!(await readiness.check({ sandbox, process, port }))) {
+            if (Date.now() + interval > deadline) {
+              throw new ReadinessCheckTimeout(timeout);
+            }
+            await new Promise((resolve) => setTimeout(resolve, interval));
+          }
+        } else {
+          await process.waitForPort(port, {
+            mode: 'http',
+            path: readiness.path ?? DEFAULT_READINESS.path,
+            status: readiness.status,
+            timeout: Math.max(deadline - Date.now(), 0),
+            interval,
+          });
+        }
+        timings.healthyMs = Date.now() - healthStart;
+        span.setAttribute('healthy_ms', timings.healthyMs);
+      } catch (e) {
+        throw await toStartupError(process, port, timeout, e);
+      }
+    }
+  );
 }
 
 /**
@@ -48,38 +222,45 @@ async function findExistingAgentServer(
 async function startAgentServer(
   sandbox: Sandbox<unknown>,
   port: number,
-  options: OpenhandsOptions
+  command: string,
+  options: OpenhandsOptions,
+  timings: OpenhandsStartupTimings
 ): Promise<Process> {
   const directory = options.directory || DEFAULT_AGENT_SERVER_DIR;
-  const command = buildAgentServerCommand(port, directory);
+  const env: Record<string, string> = { ...options.env };
+  if (options.logLevel) {
+    env.LOG_LEVEL = options.logLevel.toUpperCase();
+  }
+  if (options.sessionApiKey) {
+    env.SESSION_API_KEY = options.sessionApiKey;
+  }
 
-  const process = await sandbox.startProcess(command, {
-    cwd: directory,
-    env: options.env,
-  });
+  return withSpan(
+    options,
+    'openhands.start_server',
+    { port, command },
+    async (span) => {
+      // agent-server loads conversations at startup, so restore them first
+      if (options.persistence) {
+        const restoreStart = Date.now();
+        await restoreConversations(sandbox, options.persistence, directory);
+        timings.restoreMs = Date.now() - restoreStart;
+      }
 
-  // Wait for the server to be ready
-  try {
-    await process.waitForPort(port, {
-      mode: 'http',
-      path: '/',
-      timeout: 60_000, // 60 seconds
-    });
-  } catch (e) {
-    const logs = await process.getLogs();
-    throw new OpenhandsStartupError(
-      `agent-server failed to start on port ${port}. Stderr: ${logs.stderr || '(empty)'}`,
-      {
-        port,
-        stderr: logs.stderr,
-        command: process.command,
-        processId: process.id,
-      },
-      { cause: e }
-    );
-  }
+      const spawnStart = Date.now();
+      const process = await sandbox.startProcess(command, {
+        cwd: directory,
+        env,
+      });
+      timings.spawnMs = Date.now() - spawnStart;
+      span.setAttribute('process.id', process.id);
+
+      // Wait for the server to be ready
+      await waitForReady(sandbox, process, port, options, timings);
 
-  return process;
+      return process;
+    }
+  );
 }
 
 /**
@@ -90,65 +271,60 @@ async function startAgentServer(
 async function ensureAgentServer(
   sandbox: Sandbox<unknown>,
   port: number,
-  options: OpenhandsOptions
+  options: OpenhandsOptions,
+  timings: OpenhandsStartupTimings
 ): Promise<Process> {
-  // Check if agent-server is already running on this port
-  const existingProcess = await findExistingAgentServer(sandbox, port);
+  const directory = options.directory || DEFAULT_AGENT_SERVER_DIR;
+  const command = await resolveAgentServerCommand(
+    sandbox,
+    port,
+    directory,
+    options
+  );
+  if (!command) {
+    throw new OpenhandsExecutableNotFoundError(
+      'agent-server executable not found in sandbox',
+      { port, executablePath: options.executablePath }
+    );
+  }
+
+  // Check if agent-server is already running with this command
+  const existingProcess = await findExistingAgentServer(
+    sandbox,
+    command,
+    port,
+    options
+  );
   if (existingProcess) {
+    timings.reused = true;
     // Reuse existing process - wait for it to be ready if still starting
     if (existingProcess.status === 'starting') {
-      try {
-        await existingProcess.waitForPort(port, {
-          mode: 'http',
-          path: '/',
-          timeout: 60_000,
-        });
-      } catch (e) {
-        const logs = await existingProcess.getLogs();
-        throw new OpenhandsStartupError(
-          `agent-server failed to start. Stderr: ${logs.stderr || '(empty)'}`,
-          {
-            port,
-            stderr: logs.stderr,
-            command: existingProcess.command,
-            processId: existingProcess.id,
-          },
-          { cause: e }
-        );
-      }
+      await waitForReady(sandbox, existingProcess, port, options, timings);
     }
     return existingProcess;
   }
 
   // Try to start a new agent-server
   try {
-    return await startAgentServer(sandbox, port, options);
+    return await startAgentServer(sandbox, port, command, options, timings);
   } catch (startupError) {
     // Startup failed - check if another concurrent request started the server
     // This handles the race condition where multiple requests try to start simultaneously
-    const retryProcess = await findExistingAgentServer(sandbox, port);
+    const retryProcess = await findExistingAgentServer(
+      sandbox,
+      command,
+      port,
+      options
+    );
     if (retryProcess) {
+      getLogger(options).warn(
+        'agent-server startup failed, reusing a concurrently started server',
+        { port, processId: retryProcess.id }
+      );
+      timings.reused = true;
       // Wait for the concurrent server to be ready
       if (retryProcess.status === 'starting') {
-        try {
-          await retryProcess.waitForPort(port, {
-            mode: 'http',
-            path: '/',
-            timeout: 60_000,
-          });
-        } catch (e) {
-          const logs = await retryProcess.getLogs();
-          throw new OpenhandsStartupError(
-            `agent-server failed to start. Stderr: ${logs.stderr || '(empty)'}`,
-            {
-              port,
-              stderr: logs.stderr,
-              command: retryProcess.command,
-              processId: retryProcess.id,
-            },
-            { cause: e }
-          );
-        }
+        await waitForReady(sandbox, retryProcess, port, options, timings);
       }
       return retryProcess;
     }
@@ -184,8 +360,8 @@ async function ensureAgentServer(
  * // Proxy requests to the server
  * return sandbox.containerFetch(request, server.port)
  *
- * // When done
- * await server.close()
+ * // When done - pause running conversations for up to 30s first
+ * await server.close({ drainTimeout: 30_000 })
  * ```
  */
 export async function createOpenhandsServer(
@@ -193,38 +369,77 @@ export async function createOpenhandsServer(
   options: OpenhandsOptions = {}
 ): Promise<OpenhandsServer> {
   const port = options.port ?? DEFAULT_PORT;
-  const process = await ensureAgentServer(sandbox, port, options);
+  const startedAt = Date.now();
+  const timings: OpenhandsStartupTimings = { reused: false, totalMs: 0 };
+  const process = await ensureAgentServer(sandbox, port, options, timings);
+  timings.totalMs = Date.now() - startedAt;
 
   let previewUrl: string | undefined;
 
   // Optionally expose port for preview URL
   if (options.exposePort) {
     if (!options.hostname) {
-      throw new Error(
-        'hostname is required when exposePort is true. Provide hostname in options or extract from request URL.'
+      throw new OpenhandsExposureError(
+        'hostname is required when exposePort is true. Provide hostname in options or extract from request URL.',
+        { port, processId: process.id }
       );
     }
 
+    const hostname = options.hostname;
     try {
-      const exposed = await sandbox.exposePort(port, {
-        hostname: options.hostname,
-      });
-      previewUrl = typeof exposed === 'string' ? exposed : exposed.url;
+      // Reuses the preview URL when the port is already exposed
+      const preview = await withSpan(
+        options,
+        'openhands.expose_port',
+        { port, hostname },
+        () => exposePreview(sandbox, port, { hostname })
+      );
+      previewUrl = preview.url;
     } catch (error) {
-      // Log but don't fail - server is still running
-      console.warn('Failed to expose port:', error);
+      if (!(error instanceof OpenhandsExposureError)) {
+        throw error;
+      }
+      // The server keeps running; calling again reuses it
+      throw new OpenhandsExposureError(
+        error.message,
+        { ...error.context, processId: process.id },
+        { cause: error.cause }
+      );
     }
   }
 
-  return {
+  const server: OpenhandsServer = {
     port,
     url: `http://localhost:${port}`,
     previewUrl,
     processId: process.id,
-    async close() {
-      await process.kill('SIGTERM');
+    sessionApiKey: options.sessionApiKey,
+    timings,
+    close(closeOptions) {
+      return closeAgentServer(
+        sandbox,
+        server,
+        process,
+        closeOptions,
+        previewUrl !== undefined,
+        options
+      );
     },
   };
+
+  getLogger(options).info(
+    timings.reused ? 'agent-server reused' : 'agent-server started',
+    { port, processId: process.id, previewUrl, timings }
+  );
+  if (!timings.reused) {
+    await emitOpenhandsWebhook(options, 'server.started', {
+      port,
+      processId: process.id,
+      previewUrl,
+      timings,
+    });
+  }
+  return server;
 }
 
 /**
@@ -259,8 +474,36 @@ export async function createOpenhandsServer(
 export function proxyToOpenhands(
   request: Request,
   sandbox: Sandbox<unknown>,
-  server: OpenhandsServer
-): Response | Promise<Response> {
-  return sandbox.containerFetch(request, server.port);
+  server: OpenhandsServer,
+  options: OpenhandsObservabilityOptions = {}
+): Promise<Response> {
+  let target = request;
+  if (server.sessionApiKey || options.requestId) {
+    target = new Request(request);
+    if (server.sessionApiKey) {
+      target.headers.set(SESSION_API_KEY_HEADER, server.sessionApiKey);
+    }
+    if (options.requestId) {
+      target.headers.set(REQUEST_ID_HEADER, options.requestId);
+    }
+  }
+  const url = new URL(request.url);
+  return withSpan(
+    options,
+    'openhands.proxy',
+    { port: server.port, method: request.method, path: url.pathname },
+    async (span) => {
+      const response = await sandbox
+        .containerFetch(target, server.port)
+        .catch((error) => {
+          throw new OpenhandsProxyError(
+            `Failed to proxy ${request.method} ${url.pathname} to agent-server on port ${server.port}`,
+            { port: server.port, method: request.method, path: url.pathname },
+            { cause: error }
+          );
+        });
+      span.setAttribute('status', response.status);
+      return response;
+    }
+  );
 }
-
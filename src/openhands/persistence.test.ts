@@ -0,0 +1,106 @@
+import { describe, expect, test } from 'bun:test';
+import { FakeSandbox } from '../testing';
+import { createOpenhandsServer } from './openhands';
+import {
+  MemoryPersistenceAdapter,
+  restoreConversations,
+  snapshotSettledConversations,
+} from './persistence';
+import { startTask } from './tasks';
+import type { AgentConfig, OpenhandsPersistenceOptions } from './types';
+
+const CONVERSATIONS_PATH =
+  '/container-server/software-agent-sdk/workspace/conversations';
+
+const AGENT: AgentConfig = {
+  kind: 'Agent',
+  llm: { model: 'test-model', usage_id: 'agent' },
+};
+
+/**
+ * Start a task and write the state agent-server would keep for it
+ */
+async function startStoredTask(fake: FakeSandbox) {
+  const sandbox = fake.asSandbox();
+  const server = await createOpenhandsServer(sandbox);
+  const conversationId = await startTask(sandbox, server, {
+    prompt: 'Say hi',
+    agent: AGENT,
+    workspace: '/workspace',
+  });
+  const directory = `${CONVERSATIONS_PATH}/${conversationId.replace(/-/g, '')}`;
+  await sandbox.mkdir(`${directory}/events`, { recursive: true });
+  await sandbox.writeFile(`${directory}/base_state.json`, '{"id":1}');
+  await sandbox.writeFile(`${directory}/events/0.json`, '{"kind":"x"}');
+  return { sandbox, server, conversationId };
+}
+
+describe('snapshotSettledConversations', () => {
+  test('snapshots a finished conversation once per update', async () => {
+    const persistence = { adapter: new MemoryPersistenceAdapter() };
+    const { sandbox, server, conversationId } = await startStoredTask(
+      new FakeSandbox({ agentServer: { reply: () => 'Done' } })
+    );
+
+    expect(
+      await snapshotSettledConversations(sandbox, server, persistence)
+    ).toEqual([conversationId]);
+    expect(
+      await snapshotSettledConversations(sandbox, server, persistence)
+    ).toEqual([]);
+
+    const snapshot = await persistence.adapter.load(conversationId);
+    expect(snapshot?.conversation.execution_status).toBe('finished');
+    expect(snapshot?.files.map((file) => file.path).sort()).toEqual([
+      'base_state.json',
+      'events/0.json',
+    ]);
+  });
+
+  test('skips conversations that are still running', async () => {
+    const persistence = { adapter: new MemoryPersistenceAdapter() };
+    const { sandbox, server, conversationId } = await startStoredTask(
+      new FakeSandbox({
+        agentServer: { reply: () => 'Done', runResult: 'running' },
+      })
+    );
+
+    expect(
+      await snapshotSettledConversations(sandbox, server, persistence, {
+        conversationIds: [conversationId],
+      })
+    ).toEqual([]);
+    expect(await persistence.adapter.list()).toEqual([]);
+  });
+});
+
+describe('restoreConversations', () => {
+  test('writes snapshots into a recycled container', async () => {
+    const persistence: OpenhandsPersistenceOptions = {
+      adapter: new MemoryPersistenceAdapter(),
+    };
+    const first = await startStoredTask(
+      new FakeSandbox({ agentServer: { reply: () => 'Done' } })
+    );
+    await snapshotSettledConversations(
+      first.sandbox,
+      first.server,
+      persistence
+    );
+
+    const recycled = new FakeSandbox();
+    const restored = await restoreConversations(
+      recycled.asSandbox(),
+      persistence
+    );
+
+    expect(restored).toEqual([first.conversationId]);
+    const directory = `${CONVERSATIONS_PATH}/${first.conversationId.replace(/-/g, '')}`;
+    expect(recycled.files.get(`${directory}/events/0.json`)?.content).toBe(
+      '{"kind":"x"}'
+    );
+    expect(
+      await restoreConversations(recycled.asSandbox(), persistence)
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,410 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type {
+  ConversationExecutionStatus,
+  ConversationInfo,
+  OpenhandsConversationSnapshot,
+  OpenhandsKeyValueStore,
+  OpenhandsPersistenceAdapter,
+  OpenhandsPersistenceOptions,
+  OpenhandsServer,
+  OpenhandsSnapshotFile,
+} from './types';
+import { OpenhandsInvalidRequestError } from './errors';
+import { OpenhandsClient } from './client';
+import { DEFAULT_AGENT_SERVER_DIR } from '../utils/agent-server';
+
+/**
+ * Persistence adapter keeping snapshots in memory.
+ * Snapshots survive container sleeps but not Worker isolate restarts;
+ * useful in tests and inside long-lived Durable Objects.
+ */
+export class MemoryPersistenceAdapter implements OpenhandsPersistenceAdapter {
+  private readonly snapshots = new Map<string, OpenhandsConversationSnapshot>();
+
+  async save(snapshot: OpenhandsConversationSnapshot): Promise<void> {
+    this.snapshots.set(snapshot.conversationId, structuredClone(snapshot));
+  }
+
+  async load(
+    conversationId: string
+  ): Promise<OpenhandsConversationSnapshot | null> {
+    const snapshot = this.snapshots.get(conversationId);
+    return snapshot ? structuredClone(snapshot) : null;
+  }
+
+  async list(): Promise<string[]> {
+    return [...this.snapshots.keys()];
+  }
+
+  async delete(conversationId: string): Promise<void> {
+    this.snapshots.delete(conversationId);
+  }
+}
+
+/**
+ * Snapshot metadata stored under the conversation key
+ */
+type StoredSnapshot = Omit<OpenhandsConversationSnapshot, 'files'> & {
+  files: string[];
+};
+
+/**
+ * Persistence adapter backed by a key-value store such as Durable Object
+ * storage or a Workers KV namespace.
+ *
+ * Each file is stored under its own key so snapshots of long conversations
+ * stay within per-value size limits.
+ *
+ * @example
+ * ```typescript
+ * // Inside a Durable Object
+ * const adapter = new KeyValuePersistenceAdapter(this.ctx.storage)
+ *
+ * // Or with Workers KV
+ * const adapter = new KeyValuePersistenceAdapter(env.CONVERSATIONS, { prefix: `${userId}:` })
+ * ```
+ */
+export class KeyValuePersistenceAdapter implements OpenhandsPersistenceAdapter {
+  private readonly store: OpenhandsKeyValueStore;
+  private readonly prefix: string;
+
+  constructor(
+    store: OpenhandsKeyValueStore,
+    options: { prefix?: string } = {}
+  ) {
+    this.store = store;
+    this.prefix = options.prefix ?? 'openhands:';
+  }
+
+  async save(snapshot: OpenhandsConversationSnapshot): Promise<void> {
+    const id = snapshot.conversationId;
+    const previous = await this.readStored(id);
+
+    for (const file of snapshot.files) {
+      await this.store.put(
+        this.fileKey(id, file.path),
+        JSON.stringify({ content: file.content, encoding: file.encoding })
+      );
+    }
+    const paths = snapshot.files.map((file) => file.path);
+    for (const path of previous?.files ?? []) {
+      if (!paths.includes(path)) {
+        await this.store.delete(this.fileKey(id, path));
+      }
+    }
+
+    const stored: StoredSnapshot = { ...snapshot, files: paths };
+    await this.store.put(this.conversationKey(id), JSON.stringify(stored));
+
+    const ids = await this.list();
+    if (!ids.includes(id)) {
+      await this.store.put(this.indexKey(), JSON.stringify([...ids, id]));
+    }
+  }
+
+  async load(
+    conversationId: string
+  ): Promise<OpenhandsConversationSnapshot | null> {
+    const stored = await this.readStored(conversationId);
+    if (!stored) {
+      return null;
+    }
+
+    const files: OpenhandsSnapshotFile[] = [];
+    for (const path of stored.files) {
+      const value = await this.store.get(this.fileKey(conversationId, path));
+      if (value) {
+        files.push({
+          path,
+          ...(JSON.parse(value) as Omit<OpenhandsSnapshotFile, 'path'>),
+        });
+      }
+    }
+    return { ...stored, files };
+  }
+
+  async list(): Promise<string[]> {
+    const value = await this.store.get(this.indexKey());
+    return value ? (JSON.parse(value) as string[]) : [];
+  }
+
+  async delete(conversationId: string): Promise<void> {
+    const stored = await this.readStored(conversationId);
+    for (const path of stored?.files ?? []) {
+      await this.store.delete(this.fileKey(conversationId, path));
+    }
+    await this.store.delete(this.conversationKey(conversationId));
+
+    const ids = await this.list();
+    if (ids.includes(conversationId)) {
+      await this.store.put(
+        this.indexKey(),
+        JSON.stringify(ids.filter((id) => id !== conversationId))
+      );
+    }
+  }
+
+  private async readStored(
+    conversationId: string
+  ): Promise<StoredSnapshot | null> {
+    const value = await this.store.get(this.conversationKey(conversationId));
+    return value ? (JSON.parse(value) as StoredSnapshot) : null;
+  }
+
+  private indexKey(): string {
+    return `${this.prefix}index`;
+  }
+
+  private conversationKey(conversationId: string): string {
+    return `${this.prefix}conversation:${conversationId}`;
+  }
+
+  private fileKey(conversationId: string, path: string): string {
+    return `${this.prefix}file:${conversationId}:${path}`;
+  }
+}
+
+/**
+ * Directory where agent-server stores its conversations
+ */
+function getConversationsPath(
+  persistence: OpenhandsPersistenceOptions,
+  directory?: string
+): string {
+  return (
+    persistence.conversationsPath ??
+    `${directory || DEFAULT_AGENT_SERVER_DIR}/workspace/conversations`
+  );
+}
+
+/**
+ * Snapshot one conversation into the persistence adapter.
+ *
+ * @param sandbox - The Sandbox instance running agent-server
+ * @param server - The agent-server handle
+ * @param conversationId - Conversation to snapshot
+ * @param persistence - Persistence options
+ * @param directory - agent-server working directory (default: /container-server/software-agent-sdk)
+ * @returns The saved snapshot
+ */
+export async function snapshotConversation(
+  sandbox: Sandbox<unknown>,
+  server: OpenhandsServer,
+  conversationId: string,
+  persistence: OpenhandsPersistenceOptions,
+  directory?: string
+): Promise<OpenhandsConversationSnapshot> {
+  const conversationsPath = getConversationsPath(persistence, directory);
+  const conversation = await new OpenhandsClient(
+    sandbox,
+    server
+  ).getConversation(conversationId);
+
+  // agent-server names conversation directories by the UUID hex (no dashes)
+  const names = [conversationId, conversationId.replace(/-/g, '')];
+  const { files: entries } = await sandbox.listFiles(conversationsPath);
+  const entry = entries.find(
+    (file) => file.type === 'directory' && names.includes(file.name)
+  );
+  if (!entry) {
+    throw new OpenhandsInvalidRequestError(
+      `No stored state for conversation ${conversationId} in ${conversationsPath}`,
+      { field: 'conversationsPath', value: conversationsPath }
+    );
+  }
+
+  const conversationDir = `${conversationsPath}/${entry.name}`;
+  const { files: listed } = await sandbox.listFiles(conversationDir, {
+    recursive: true,
+    includeHidden: true,
+  });
+  const files: OpenhandsSnapshotFile[] = [];
+  for (const file of listed) {
+    if (file.type !== 'file') {
+      continue;
+    }
+    const result = await sandbox.readFile(file.absolutePath);
+    files.push({
+      path: file.absolutePath.slice(conversationDir.length + 1),
+      content: result.content,
+      encoding: result.encoding ?? 'utf-8',
+    });
+  }
+
+  const snapshot: OpenhandsConversationSnapshot = {
+    conversationId,
+    conversation,
+    directory: entry.name,
+    files,
+    savedAt: new Date().toISOString(),
+  };
+  await persistence.adapter.save(snapshot);
+  return snapshot;
+}
+
+/**
+ * Snapshot every conversation known to the agent-server.
+ * Conversations that fail to snapshot are skipped.
+ *
+ * @returns IDs of the snapshotted conversations
+ */
+export async function snapshotConversations(
+  sandbox: Sandbox<unknown>,
+  server: OpenhandsServer,
+  persistence: OpenhandsPersistenceOptions,
+  directory?: string
+): Promise<string[]> {
+  const client = new OpenhandsClient(sandbox, server);
+  const saved: string[] = [];
+
+  let pageId: string | undefined;
+  do {
+    const page = await client.listConversations({ pageId });
+    for (const conversation of page.items) {
+      try {
+        await snapshotConversation(
+          sandbox,
+          server,
+          conversation.id,
+          persistence,
+          directory
+        );
+        saved.push(conversation.id);
+      } catch {
+        // Keep snapshotting the remaining conversations
+      }
+    }
+    pageId = page.next_page_id ?? undefined;
+  } while (pageId);
+
+  return saved;
+}
+
+/**
+ * Conversation statuses in which the agent stopped and waits for the client
+ */
+const SETTLED_STATUSES: ConversationExecutionStatus[] = [
+  'finished',
+  'error',
+  'stuck',
+  'waiting_for_confirmation',
+  'paused',
+];
+
+/**
+ * Snapshot conversations whose turn ended (finished, error, stuck, waiting
+ * for confirmation or paused) and that changed since their last snapshot.
+ * Containers can sleep or be recycled without `close()`, so the status and
+ * task routes run this on every poll when `persistence` is configured.
+ *
+ * What was snapshotted is recorded in the sandbox by conversation status and
+ * update time; after a recycle every settled conversation is snapshotted
+ * once more. Conversations that fail to snapshot are retried on the next
+ * call.
+ *
+ * @param sandbox - The Sandbox instance running agent-server
+ * @param server - The agent-server handle
+ * @param persistence - Persistence options
+ * @param options - agent-server working directory, and the conversations to
+ * check (default: all)
+ * @returns IDs of the snapshotted conversations
+ */
+export async function snapshotSettledConversations(
+  sandbox: Sandbox<unknown>,
+  server: OpenhandsServer,
+  persistence: OpenhandsPersistenceOptions,
+  options: { directory?: string; conversationIds?: string[] } = {}
+): Promise<string[]> {
+  const statePath = `/container-server/openhands-snapshots-${server.port}.json`;
+  let recorded: Record<string, string> = {};
+  try {
+    recorded = JSON.parse((await sandbox.readFile(statePath)).content);
+  } catch {
+    // Nothing snapshotted since the container started
+  }
+
+  const client = new OpenhandsClient(sandbox, server);
+  const conversations: ConversationInfo[] = [];
+  if (options.conversationIds) {
+    for (const conversationId of options.conversationIds) {
+      conversations.push(await client.getConversation(conversationId));
+    }
+  } else {
+    let pageId: string | undefined;
+    do {
+      const page = await client.listConversations({ pageId });
+      conversations.push(...page.items);
+      pageId = page.next_page_id ?? undefined;
+    } while (pageId);
+  }
+
+  const saved: string[] = [];
+  for (const conversation of conversations) {
+    const version = `${conversation.execution_status}:${conversation.updated_at ?? ''}`;
+    if (
+      !SETTLED_STATUSES.includes(conversation.execution_status) ||
+      recorded[conversation.id] === version
+    ) {
+      continue;
+    }
+    try {
+      await snapshotConversation(
+        sandbox,
+        server,
+        conversation.id,
+        persistence,
+        options.directory
+      );
+      recorded[conversation.id] = version;
+      saved.push(conversation.id);
+    } catch {
+      // Keep snapshotting the remaining conversations
+    }
+  }
+
+  if (saved.length > 0) {
+    // A record lost to a concurrent check only costs a repeated snapshot
+    await sandbox.writeFile(statePath, JSON.stringify(recorded));
+  }
+  return saved;
+}
+
+/**
+ * Write persisted conversations back into the agent-server conversation
+ * directory. Must run before agent-server starts, since it loads
+ * conversations at startup. Conversations already on disk are left as is.
+ *
+ * @returns IDs of the restored conversations
+ */
+export async function restoreConversations(
+  sandbox: Sandbox<unknown>,
+  persistence: OpenhandsPersistenceOptions,
+  directory?: string
+): Promise<string[]> {
+  const conversationsPath = getConversationsPath(persistence, directory);
+  const restored: string[] = [];
+
+  for (const conversationId of await persistence.adapter.list()) {
+    const snapshot = await persistence.adapter.load(conversationId);
+    if (!snapshot) {
+      continue;
+    }
+    const conversationDir = `${conversationsPath}/${snapshot.directory}`;
+    if ((await sandbox.exists(conversationDir)).exists) {
+      continue;
+    }
+
+    for (const file of snapshot.files) {
+      const path = `${conversationDir}/${file.path}`;
+      await sandbox.mkdir(path.slice(0, path.lastIndexOf('/')), {
+        recursive: true,
+      });
+      await sandbox.writeFile(path, file.content, {
+        encoding: file.encoding === 'base64' ? 'base64' : undefined,
+      });
+    }
+    restored.push(conversationId);
+  }
+
+  return restored;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'bun:test';
+import { FakeSandbox } from '../testing';
+import {
+  exposePreview,
+  listPreviews,
+  revokeExpiredPreviews,
+  revokePreview,
+} from './previews';
+
+const HOSTNAME = 'example.com';
+
+describe('previews', () => {
+  test('exposes a port with its name and expiry', async () => {
+    const fake = new FakeSandbox();
+
+    const preview = await exposePreview(fake.asSandbox(), 5173, {
+      hostname: HOSTNAME,
+      name: 'vite',
+      expiresIn: 60,
+    });
+
+    expect(preview).toMatchObject({
+      port: 5173,
+      url: fake.exposedPorts.get(5173),
+      name: 'vite',
+      status: 'active',
+    });
+    expect(Date.parse(preview.expiresAt!)).toBeGreaterThan(Date.now());
+  });
+
+  test('revokes a preview once', async () => {
+    const fake = new FakeSandbox();
+    const sandbox = fake.asSandbox();
+    await exposePreview(sandbox, 5173, { hostname: HOSTNAME });
+
+    expect(await revokePreview(sandbox, 5173)).toBe(true);
+    expect(fake.exposedPorts.has(5173)).toBe(false);
+    expect(await revokePreview(sandbox, 5173)).toBe(false);
+    expect(await listPreviews(sandbox, HOSTNAME)).toEqual([]);
+  });
+
+  test('revokes only expired previews', async () => {
+    const fake = new FakeSandbox();
+    const sandbox = fake.asSandbox();
+    await exposePreview(sandbox, 3000, { hostname: HOSTNAME, expiresIn: -1 });
+    await exposePreview(sandbox, 4000, { hostname: HOSTNAME, expiresIn: 60 });
+    await exposePreview(sandbox, 5000, { hostname: HOSTNAME });
+
+    expect(await revokeExpiredPreviews(sandbox)).toEqual([3000]);
+    expect([...fake.exposedPorts.keys()]).toEqual([4000, 5000]);
+  });
+
+  test('drops expired previews from the list', async () => {
+    const sandbox = new FakeSandbox().asSandbox();
+    await exposePreview(sandbox, 3000, { hostname: HOSTNAME, expiresIn: -1 });
+    await exposePreview(sandbox, 4000, { hostname: HOSTNAME, name: 'api' });
+
+    const previews = await listPreviews(sandbox, HOSTNAME);
+
+    expect(previews.map((preview) => preview.port)).toEqual([4000]);
+    expect(previews[0]?.name).toBe('api');
+  });
+});
@@ -0,0 +1,183 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { OpenhandsPreview, OpenhandsPreviewOptions } from './types';
+import { OpenhandsExposureError } from './errors';
+
+/**
+ * Sandbox file recording names and expiry of exposed previews
+ */
+const PREVIEWS_PATH = '/container-server/openhands-previews.json';
+
+/**
+ * Recorded preview metadata, keyed by port
+ */
+type PreviewRecords = Record<
+  string,
+  { name?: string; createdAt: string; expiresAt?: string }
+>;
+
+/**
+ * Read the preview records (empty if none were written yet)
+ */
+async function readRecords(sandbox: Sandbox<unknown>): Promise<PreviewRecords> {
+  try {
+    return JSON.parse((await sandbox.readFile(PREVIEWS_PATH)).content);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Write the preview records
+ */
+async function writeRecords(
+  sandbox: Sandbox<unknown>,
+  records: PreviewRecords
+): Promise<void> {
+  await sandbox.writeFile(PREVIEWS_PATH, JSON.stringify(records));
+}
+
+/**
+ * Derive the hostname preview URLs are built on from a request.
+ * Keeps the port (e.g. `localhost:8787` under `wrangler dev`), which the
+ * preview URL needs to reach the Worker.
+ *
+ * @param request - Incoming request (or its URL)
+ * @param hostname - Configured hostname, which takes precedence
+ */
+export function getPreviewHostname(
+  request: Request | URL,
+  hostname?: string
+): string {
+  if (hostname) {
+    return hostname;
+  }
+  return (request instanceof URL ? request : new URL(request.url)).host;
+}
+
+/**
+ * Expose a sandbox port (e.g. a dev server the agent started) as a preview
+ * URL. A port that is already exposed keeps its URL unless `rotate` is set;
+ * its name and expiry are updated.
+ *
+ * The sandbox generates the URL's access token; `rotate` replaces it,
+ * invalidating links shared earlier.
+ *
+ * @param sandbox - The Sandbox instance
+ * @param port - Port to expose (1024-65535)
+ * @param options - Hostname, name, expiry and rotation
+ * @returns The preview
+ *
+ * @example
+ * ```typescript
+ * const preview = await exposePreview(sandbox, 5173, {
+ *   hostname: getPreviewHostname(request),
+ *   name: 'vite',
+ *   expiresIn: 3600,
+ * })
+ * ```
+ */
+export async function exposePreview(
+  sandbox: Sandbox<unknown>,
+  port: number,
+  options: OpenhandsPreviewOptions
+): Promise<OpenhandsPreview> {
+  let url: string | undefined;
+  try {
+    if (await sandbox.isPortExposed(port)) {
+      if (options.rotate) {
+        await sandbox.unexposePort(port);
+      } else {
+        const exposed = await sandbox.getExposedPorts(options.hostname);
+        url = exposed.find((p) => p.port === port)?.url;
+      }
+    }
+    url ??= (
+      await sandbox.exposePort(port, {
+        hostname: options.hostname,
+        name: options.name,
+      })
+    ).url;
+  } catch (error) {
+    throw new OpenhandsExposureError(
+      `Failed to expose port ${port}: ${error instanceof Error ? error.message : String(error)}`,
+      { port, hostname: options.hostname },
+      { cause: error }
+    );
+  }
+
+  const records = await readRecords(sandbox);
+  const createdAt = new Date().toISOString();
+  records[port] = {
+    name: options.name,
+    createdAt,
+    expiresAt:
+      options.expiresIn !== undefined
+        ? new Date(Date.now() + options.expiresIn * 1000).toISOString()
+        : undefined,
+  };
+  await writeRecords(sandbox, records);
+
+  return { port, url, status: 'active', ...records[port] };
+}
+
+/**
+ * Revoke a preview URL. Returns false if the port isn't exposed.
+ *
+ * @param sandbox - The Sandbox instance
+ * @param port - Exposed port
+ */
+export async function revokePreview(
+  sandbox: Sandbox<unknown>,
+  port: number
+): Promise<boolean> {
+  const records = await readRecords(sandbox);
+  if (records[port]) {
+    delete records[port];
+    await writeRecords(sandbox, records);
+  }
+  if (!(await sandbox.isPortExposed(port))) {
+    return false;
+  }
+  await sandbox.unexposePort(port);
+  return true;
+}
+
+/**
+ * Revoke the previews whose expiry has passed. Expiry isn't checked when a
+ * preview URL is visited, so run this from a Cron Trigger to enforce it.
+ *
+ * @param sandbox - The Sandbox instance
+ * @returns Revoked ports
+ */
+export async function revokeExpiredPreviews(
+  sandbox: Sandbox<unknown>
+): Promise<number[]> {
+  const records = await readRecords(sandbox);
+  const now = Date.now();
+  const expired = Object.entries(records)
+    .filter(
+      ([, record]) =>
+        record.expiresAt !== undefined && Date.parse(record.expiresAt) <= now
+    )
+    .map(([port]) => Number(port));
+  for (const port of expired) {
+    await revokePreview(sandbox, port);
+  }
+  return expired;
+}
+
+/**
+ * List exposed ports with their preview URLs, revoking expired ones first.
+ *
+ * @param sandbox - The Sandbox instance
+ * @param hostname - Hostname the preview URLs are built on
+ */
+export async function listPreviews(
+  sandbox: Sandbox<unknown>,
+  hostname: string
+): Promise<OpenhandsPreview[]> {
+  await revokeExpiredPreviews(sandbox);
+  const records = await readRecords(sandbox);
+  const exposed = await sandbox.getExposedPorts(hostname);
+  return exposed.map((preview) => ({ ...preview, ...records[preview.port] }));
+}
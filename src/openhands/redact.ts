@@ -0,0 +1,55 @@
+/**
+ * Placeholder replacing redacted values
+ */
+export const REDACTED = '[REDACTED]';
+
+// Field names whose values are treated as secrets
+const SECRET_FIELD_PATTERN =
+  /(^|[_-])(api[_-]?key|token|secret|password|authorization|credentials?)$/i;
+
+/**
+ * Replace secrets in a value with `[REDACTED]`.
+ *
+ * Fields named like secrets (`api_key`, `token`, `password`, ...) are
+ * redacted anywhere in nested objects, and every occurrence of the given
+ * secret values is redacted inside strings. The input is not modified.
+ *
+ * @param value - Value to redact (error context, response body, message)
+ * @param secrets - Known secret values to remove from strings
+ * @returns A redacted copy of the value
+ *
+ * @example
+ * ```typescript
+ * redactSecrets({ llm: { model: 'gpt-5', api_key: 'sk-123' } })
+ * // { llm: { model: 'gpt-5', api_key: '[REDACTED]' } }
+ * ```
+ */
+export function redactSecrets<T>(value: T, secrets: string[] = []): T {
+  return redact(value, secrets.filter(Boolean)) as T;
+}
+
+/**
+ * Recursively redact secret fields and secret values
+ */
+function redact(value: unknown, secrets: string[]): unknown {
+  if (typeof value === 'string') {
+    return secrets.reduce(
+      (text, secret) => text.split(secret).join(REDACTED),
+      value
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, secrets));
+  }
+  if (value && typeof value === 'object' && !(value instanceof Error)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [
+        key,
+        SECRET_FIELD_PATTERN.test(key) && typeof field === 'string' && field
+          ? REDACTED
+          : redact(field, secrets),
+      ])
+    );
+  }
+  return value;
+}
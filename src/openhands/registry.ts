@@ -0,0 +1,278 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type {
+  OpenhandsCloseOptions,
+  OpenhandsInstance,
+  OpenhandsInstanceRecord,
+  OpenhandsOptions,
+  OpenhandsRegistryOptions,
+  OpenhandsServer,
+} from './types';
+import { createOpenhandsServer } from './openhands';
+import { closeAgentServer } from './shutdown';
+import {
+  OpenhandsInvalidRequestError,
+  OpenhandsPortConflictError,
+} from './errors';
+import { createSandboxLock, readSandboxLock, removeSandboxLock } from './lock';
+
+const DEFAULT_PORT_RANGE = { start: 8100, end: 8199 };
+const DEFAULT_REGISTRY_PATH = '/container-server/openhands-instances.json';
+const INSTANCE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,62}$/i;
+const LOCK_RETRY_INTERVAL = 50;
+/** A registry lock held longer than this is assumed abandoned and taken over */
+const LOCK_TIMEOUT = 5000;
+
+type InstanceRecords = Record<string, OpenhandsInstanceRecord>;
+
+/**
+ * Manages several named agent-servers in one sandbox.
+ *
+ * Each instance gets its own port from a configured range, so instances can
+ * use different working directories, environment variables and LLM keys. The
+ * name → port/process mapping is persisted as JSON inside the sandbox, so any
+ * Worker request can address an instance by name. Ports are claimed with
+ * lock files created atomically in the sandbox, so concurrent starts of
+ * different instances never share a port.
+ *
+ * @example
+ * ```typescript
+ * const registry = new OpenhandsRegistry(sandbox)
+ * const server = await registry.start('frontend', {
+ *   directory: '/workspace/frontend',
+ *   env: { LLM_API_KEY: env.FRONTEND_KEY },
+ *   labels: { team: 'web' },
+ * })
+ * return proxyToOpenhands(request, sandbox, server)
+ * ```
+ */
+export class OpenhandsRegistry {
+  private readonly sandbox: Sandbox<unknown>;
+  private readonly portRange: { start: number; end: number };
+  private readonly registryPath: string;
+
+  constructor(
+    sandbox: Sandbox<unknown>,
+    options: OpenhandsRegistryOptions = {}
+  ) {
+    this.sandbox = sandbox;
+    this.portRange = options.portRange ?? DEFAULT_PORT_RANGE;
+    this.registryPath = options.registryPath ?? DEFAULT_REGISTRY_PATH;
+  }
+
+  /**
+   * List all registered instances with their current process status
+   */
+  async list(): Promise<OpenhandsInstance[]> {
+    const [records, processes] = await Promise.all([
+      this.readRecords(),
+      this.sandbox.listProcesses(),
+    ]);
+
+    return Object.values(records).map((record) => {
+      const process = processes.find((p) => p.id === record.processId);
+      return {
+        ...record,
+        status: process?.status ?? 'stopped',
+        running: process?.status === 'running',
+      };
+    });
+  }
+
+  /**
+   * Get a registered instance by name
+   */
+  async get(name: string): Promise<OpenhandsInstance | null> {
+    const instances = await this.list();
+    return instances.find((instance) => instance.name === name) ?? null;
+  }
+
+  /**
+   * Start (or reuse) the named instance. The instance keeps its port across
+   * restarts; new instances get the lowest free port in the range.
+   */
+  async start(
+    name: string,
+    options: OpenhandsOptions & { labels?: Record<string, string> } = {}
+  ): Promise<OpenhandsServer> {
+    if (!INSTANCE_NAME_PATTERN.test(name)) {
+      throw new OpenhandsInvalidRequestError(
+        `Invalid instance name "${name}". Use letters, digits, '-' and '_' (max 63 characters).`,
+        { field: 'name', value: name }
+      );
+    }
+
+    const existing = (await this.readRecords())[name];
+    const port = existing?.port ?? (await this.claimPort(name));
+    const { labels, ...serverOptions } = options;
+
+    let server: OpenhandsServer;
+    try {
+      server = await createOpenhandsServer(this.sandbox, {
+        ...serverOptions,
+        port,
+      });
+    } catch (error) {
+      if (!existing) {
+        await removeSandboxLock(this.sandbox, this.portLockPath(port));
+      }
+      throw error;
+    }
+
+    await this.updateRecords((records) => {
+      const current = records[name] ?? existing;
+      records[name] = {
+        name,
+        port,
+        processId: server.processId,
+        labels: labels ?? current?.labels ?? {},
+        directory: options.directory ?? current?.directory,
+        createdAt: current?.createdAt ?? new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+    });
+
+    return server;
+  }
+
+  /**
+   * Stop the named instance and remove it from the registry.
+   * Returns false if no such instance is registered.
+   */
+  async stop(name: string, options?: OpenhandsCloseOptions): Promise<boolean> {
+    const records = await this.readRecords();
+    const record = records[name];
+    if (!record) {
+      return false;
+    }
+
+    const server = await this.getServer(name);
+    if (server) {
+      await server.close(options);
+    }
+
+    await this.updateRecords((records) => {
+      delete records[name];
+    });
+    await removeSandboxLock(this.sandbox, this.portLockPath(record.port));
+    return true;
+  }
+
+  /**
+   * Get a server handle for a running instance without starting it.
+   * Returns null if the instance is unknown or its process is not active.
+   */
+  async getServer(
+    name: string,
+    sessionApiKey?: string
+  ): Promise<OpenhandsServer | null> {
+    const records = await this.readRecords();
+    const record = records[name];
+    if (!record) {
+      return null;
+    }
+
+    const processes = await this.sandbox.listProcesses();
+    const process = processes.find((p) => p.id === record.processId);
+    if (
+      !process ||
+      (process.status !== 'running' && process.status !== 'starting')
+    ) {
+      return null;
+    }
+
+    const sandbox = this.sandbox;
+    const server: OpenhandsServer = {
+      port: record.port,
+      url: `http://localhost:${record.port}`,
+      processId: process.id,
+      sessionApiKey,
+      close(closeOptions) {
+        return closeAgentServer(sandbox, server, process, closeOptions);
+      },
+    };
+    return server;
+  }
+
+  /**
+   * Claim the lowest port in the range not used by another instance, by
+   * atomically creating its lock file. A lock already owned by `name` (left
+   * by a start that failed before it was recorded) is reused.
+   */
+  private async claimPort(name: string): Promise<number> {
+    const records = await this.readRecords();
+    const used = new Set(Object.values(records).map((record) => record.port));
+    for (let port = this.portRange.start; port <= this.portRange.end; port++) {
+      if (used.has(port)) {
+        continue;
+      }
+      const lockPath = this.portLockPath(port);
+      if (
+        (await createSandboxLock(this.sandbox, lockPath, name)) ||
+        (await readSandboxLock(this.sandbox, lockPath)) === name
+      ) {
+        return port;
+      }
+    }
+    throw new OpenhandsPortConflictError(
+      `No free port in range ${this.portRange.start}-${this.portRange.end}`,
+      { port: this.portRange.end }
+    );
+  }
+
+  /**
+   * Read, change and write the registry while holding its lock, so
+   * concurrent updates of different instances aren't lost
+   */
+  private async updateRecords(
+    change: (records: InstanceRecords) => void
+  ): Promise<void> {
+    const lockPath = `${this.registryPath}.lock`;
+    const owner = crypto.randomUUID();
+    const deadline = Date.now() + LOCK_TIMEOUT;
+    while (!(await createSandboxLock(this.sandbox, lockPath, owner))) {
+      if (Date.now() >= deadline) {
+        // Left behind by a request that died while holding it
+        await removeSandboxLock(this.sandbox, lockPath);
+        continue;
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_INTERVAL));
+    }
+
+    try {
+      const records = await this.readRecords();
+      change(records);
+      await this.writeRecords(records);
+    } finally {
+      await removeSandboxLock(this.sandbox, lockPath);
+    }
+  }
+
+  /**
+   * Lock file marking a port as claimed by an instance
+   */
+  private portLockPath(port: number): string {
+    return `${this.registryPath}.port-${port}.lock`;
+  }
+
+  /**
+   * Read the persisted registry (empty if the file doesn't exist yet)
+   */
+  private async readRecords(): Promise<InstanceRecords> {
+    try {
+      const file = await this.sandbox.readFile(this.registryPath);
+      return JSON.parse(file.content) as InstanceRecords;
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Persist the registry to the sandbox filesystem
+   */
+  private async writeRecords(records: InstanceRecords): Promise<void> {
+    await this.sandbox.writeFile(
+      this.registryPath,
+      JSON.stringify(records, null, 2)
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import type { Process, Sandbox } from '@cloudflare/sandbox';
+import type {
+  OpenhandsCloseOptions,
+  OpenhandsCloseResult,
+  OpenhandsOptions,
+  OpenhandsServer,
+} from './types';
+import { OpenhandsClient } from './client';
+import { snapshotConversations } from './persistence';
+import { emitOpenhandsWebhook } from './webhooks';
+
+const DEFAULT_GRACE_PERIOD = 10_000;
+const DRAIN_POLL_INTERVAL = 500;
+const KILL_WAIT = 5_000;
+
+/**
+ * Pause all running conversations and wait until they have stopped
+ */
+async function drainConversations(
+  client: OpenhandsClient,
+  timeout: number
+): Promise<{ paused: string[]; drained: boolean }> {
+  const deadline = Date.now() + timeout;
+  const paused: string[] = [];
+
+  try {
+    let pageId: string | undefined;
+    do {
+      const page = await client.listConversations({
+        status: 'running',
+        pageId,
+      });
+      for (const conversation of page.items) {
+        await client.pauseConversation(conversation.id);
+        paused.push(conversation.id);
+      }
+      pageId = page.next_page_id ?? undefined;
+    } while (pageId && Date.now() < deadline);
+
+    for (;;) {
+      const conversations = await Promise.all(
+        paused.map((id) => client.getConversation(id))
+      );
+      if (conversations.every((c) => c.execution_status !== 'running')) {
+        return { paused, drained: true };
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        return { paused, drained: false };
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.min(DRAIN_POLL_INTERVAL, remaining))
+      );
+    }
+  } catch {
+    // agent-server unreachable or already shutting down - stop draining
+    return { paused, drained: false };
+  }
+}
+
+/**
+ * Wait for a process to exit. Returns the exit code, or null on timeout.
+ */
+async function waitForExit(
+  process: Process,
+  timeout: number
+): Promise<{ exitCode?: number } | null> {
+  try {
+    return await process.waitForExit(timeout);
+  } catch {
+    const status = await process.getStatus().catch(() => undefined);
+    return status && status !== 'running' && status !== 'starting' ? {} : null;
+  }
+}
+
+/**
+ * Shut down an agent-server: optionally pause running conversations,
+ * snapshot conversations when persistence is configured, send SIGTERM,
+ * escalate to SIGKILL after the grace period, and remove the preview URL.
+ *
+ * @param sandbox - The Sandbox instance running agent-server
+ * @param server - The agent-server handle
+ * @param process - The agent-server process
+ * @param options - Close options
+ * @param exposed - Whether the port was exposed as a preview URL
+ * @param serverOptions - Options the server was started with (for persistence and webhooks)
+ */
+export async function closeAgentServer(
+  sandbox: Sandbox<unknown>,
+  server: OpenhandsServer,
+  process: Process,
+  options: OpenhandsCloseOptions = {},
+  exposed = false,
+  serverOptions: Pick<
+    OpenhandsOptions,
+    'directory' | 'persistence' | 'webhooks' | 'sandboxName'
+  > = {}
+): Promise<OpenhandsCloseResult> {
+  const result: OpenhandsCloseResult = {
+    pausedConversations: [],
+    drained: true,
+    signal: 'SIGTERM',
+    exited: false,
+    unexposed: false,
+  };
+
+  if (options.drainTimeout && options.drainTimeout > 0) {
+    const client = new OpenhandsClient(sandbox, server);
+    const drain = await drainConversations(client, options.drainTimeout);
+    result.pausedConversations = drain.paused;
+    result.drained = drain.drained;
+  }
+
+  const persistence = serverOptions.persistence;
+  if (persistence && persistence.snapshotOnClose !== false) {
+    result.snapshottedConversations = await snapshotConversations(
+      sandbox,
+      server,
+      persistence,
+      serverOptions.directory
+    ).catch(() => []);
+  }
+
+  await process.kill('SIGTERM');
+  let exit = await waitForExit(
+    process,
+    options.gracePeriod ?? DEFAULT_GRACE_PERIOD
+  );
+  if (!exit) {
+    result.signal = 'SIGKILL';
+    await process.kill('SIGKILL');
+    exit = await waitForExit(process, KILL_WAIT);
+  }
+  result.exited = exit !== null;
+  result.exitCode = exit?.exitCode;
+
+  if (options.unexpose ?? exposed) {
+    try {
+      await sandbox.unexposePort(server.port);
+      result.unexposed = true;
+    } catch {
+      // Port wasn't exposed (or already removed)
+    }
+  }
+
+  await emitOpenhandsWebhook(serverOptions, 'server.stopped', {
+    port: server.port,
+    processId: process.id,
+    ...result,
+  });
+  return result;
+}
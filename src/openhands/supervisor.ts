@@ -0,0 +1,378 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type {
+  OpenhandsCrashRecord,
+  OpenhandsOptions,
+  OpenhandsServer,
+  OpenhandsStartupContext,
+  OpenhandsSupervisorOptions,
+  OpenhandsSupervisorStatus,
+} from './types';
+import { isOpenhandsError } from './errors';
+import { createOpenhandsServer } from './openhands';
+import { closeAgentServer } from './shutdown';
+import {
+  checkConversationTransitions,
+  emitOpenhandsWebhook,
+} from './webhooks';
+
+const DEFAULT_PORT = 8001;
+const DEFAULT_HEALTH_PATH = '/health';
+const DEFAULT_INTERVAL = 30_000;
+const DEFAULT_PROBE_TIMEOUT = 5_000;
+const DEFAULT_MAX_RESTARTS = 5;
+const DEFAULT_INITIAL_BACKOFF = 1_000;
+const DEFAULT_MAX_BACKOFF = 60_000;
+const DEFAULT_HISTORY_SIZE = 10;
+const DEFAULT_STDERR_TAIL_LINES = 50;
+
+/**
+ * Keep the last `lines` lines of a log
+ */
+function tail(text: string | undefined, lines: number): string | undefined {
+  if (!text) {
+    return text;
+  }
+  return text.split('\n').slice(-lines).join('\n');
+}
+
+/**
+ * Watches an agent-server and restarts it when it crashes or hangs.
+ *
+ * Each `check()` probes the health endpoint. A dead process or a failed/slow
+ * probe triggers a restart, delayed by exponential backoff and capped at
+ * `maxRestarts` consecutive attempts. State (restart count, uptime, recent
+ * crashes with stderr tails) is persisted in the sandbox so any request can
+ * read it with `getStatus()`.
+ *
+ * Call `start()` in a long-lived context (e.g. a Durable Object) to probe on a
+ * timer, or call `check()` from a Cron Trigger.
+ *
+ * @example
+ * ```typescript
+ * const supervisor = new OpenhandsSupervisor(sandbox, { port: 8001 }, { interval: 15_000 })
+ * const server = await supervisor.start()
+ *
+ * // Later, from any request
+ * const status = await supervisor.getStatus()
+ * ```
+ */
+export class OpenhandsSupervisor {
+  private readonly sandbox: Sandbox<unknown>;
+  private readonly serverOptions: OpenhandsOptions;
+  private readonly options: Required<OpenhandsSupervisorOptions>;
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private checking: Promise<OpenhandsSupervisorStatus> | undefined;
+
+  constructor(
+    sandbox: Sandbox<unknown>,
+    serverOptions: OpenhandsOptions = {},
+    options: OpenhandsSupervisorOptions = {}
+  ) {
+    const port = serverOptions.port ?? DEFAULT_PORT;
+    this.sandbox = sandbox;
+    this.serverOptions = { ...serverOptions, port };
+    this.options = {
+      healthPath: options.healthPath ?? DEFAULT_HEALTH_PATH,
+      interval: options.interval ?? DEFAULT_INTERVAL,
+      probeTimeout: options.probeTimeout ?? DEFAULT_PROBE_TIMEOUT,
+      maxRestarts: options.maxRestarts ?? DEFAULT_MAX_RESTARTS,
+      initialBackoff: options.initialBackoff ?? DEFAULT_INITIAL_BACKOFF,
+      maxBackoff: options.maxBackoff ?? DEFAULT_MAX_BACKOFF,
+      historySize: options.historySize ?? DEFAULT_HISTORY_SIZE,
+      stderrTailLines: options.stderrTailLines ?? DEFAULT_STDERR_TAIL_LINES,
+      statePath:
+        options.statePath ??
+        `/container-server/openhands-supervisor-${port}.json`,
+    };
+  }
+
+  /**
+   * Start (or reuse) the agent-server, record it as supervised and begin
+   * probing on the configured interval.
+   */
+  async start(): Promise<OpenhandsServer> {
+    const server = await createOpenhandsServer(
+      this.sandbox,
+      this.serverOptions
+    );
+    const state = await this.readState();
+    if (state.processId !== server.processId) {
+      state.processId = server.processId;
+      state.startedAt = new Date().toISOString();
+    }
+    state.gaveUp = false;
+    await this.writeState(state);
+
+    if (this.options.interval > 0 && !this.timer) {
+      this.timer = setInterval(() => {
+        void this.check().catch(() => {
+          // Errors are recorded in state; keep the timer running
+        });
+      }, this.options.interval);
+    }
+
+    return server;
+  }
+
+  /**
+   * Stop the probe timer. The agent-server itself keeps running.
+   */
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Run one probe cycle, restarting the agent-server if needed.
+   * Concurrent calls share the same cycle.
+   */
+  check(): Promise<OpenhandsSupervisorStatus> {
+    if (!this.checking) {
+      this.checking = this.runCheck().finally(() => {
+        this.checking = undefined;
+      });
+    }
+    return this.checking;
+  }
+
+  /**
+   * Read the persisted supervisor state
+   */
+  async getStatus(): Promise<OpenhandsSupervisorStatus> {
+    const state = await this.readState();
+    return {
+      ...state,
+      uptimeMs: state.startedAt
+        ? Date.now() - Date.parse(state.startedAt)
+        : undefined,
+    };
+  }
+
+  /**
+   * Probe the supervised process and restart it if it crashed or hung
+   */
+  private async runCheck(): Promise<OpenhandsSupervisorStatus> {
+    const state = await this.readState();
+    if (state.gaveUp || !state.processId) {
+      return this.getStatus();
+    }
+
+    const port = this.serverOptions.port!;
+    const process = await this.sandbox.getProcess(state.processId);
+    let failure: OpenhandsCrashRecord | undefined;
+
+    if (
+      !process ||
+      (process.status !== 'running' && process.status !== 'starting')
+    ) {
+      const logs = process
+        ? await process.getLogs().catch(() => undefined)
+        : undefined;
+      failure = {
+        timestamp: new Date().toISOString(),
+        reason: 'exited',
+        message: process
+          ? `agent-server exited with status ${process.status}${
+              process.exitCode !== undefined
+                ? ` (exit code ${process.exitCode})`
+                : ''
+            }`
+          : 'agent-server process no longer exists',
+        exitCode: process?.exitCode,
+        context: {
+          port,
+          stderr: tail(logs?.stderr, this.options.stderrTailLines),
+          command: process?.command,
+          processId: state.processId,
+        },
+      };
+    } else if (process.status === 'running') {
+      const probeError = await this.probe(port);
+      if (!probeError) {
+        state.lastHealthyAt = new Date().toISOString();
+        state.consecutiveRestarts = 0;
+        state.nextRestartAt = undefined;
+        await this.writeState(state);
+        if (this.serverOptions.webhooks) {
+          const server: OpenhandsServer = {
+            port,
+            url: `http://localhost:${port}`,
+            processId: process.id,
+            sessionApiKey: this.serverOptions.sessionApiKey,
+            close: (closeOptions) =>
+              closeAgentServer(
+                this.sandbox,
+                server,
+                process,
+                closeOptions,
+                false,
+                this.serverOptions
+              ),
+          };
+          await checkConversationTransitions(
+            this.sandbox,
+            server,
+            this.serverOptions
+          ).catch(() => {});
+        }
+        return this.getStatus();
+      }
+
+      const logs = await process.getLogs().catch(() => undefined);
+      failure = {
+        timestamp: new Date().toISOString(),
+        reason: 'unhealthy',
+        message: probeError,
+        context: {
+          port,
+          stderr: tail(logs?.stderr, this.options.stderrTailLines),
+          command: process.command,
+          processId: process.id,
+        },
+      };
+    } else {
+      // Still starting - nothing to decide yet
+      return this.getStatus();
+    }
+
+    // Still backing off from the previous restart
+    if (state.nextRestartAt && Date.parse(state.nextRestartAt) > Date.now()) {
+      return this.getStatus();
+    }
+
+    if (failure.reason === 'unhealthy' && process) {
+      // Kill the hung process so a fresh one can take the port
+      await process.kill('SIGKILL').catch(() => {});
+    }
+
+    this.recordFailure(state, failure);
+    await emitOpenhandsWebhook(this.serverOptions, 'server.crashed', {
+      ...failure,
+    });
+    await this.restart(state);
+    await this.writeState(state);
+    return this.getStatus();
+  }
+
+  /**
+   * Probe the health endpoint. Returns an error message, or null if healthy.
+   */
+  private async probe(port: number): Promise<string | null> {
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const response = await Promise.race([
+        this.sandbox.containerFetch(
+          new Request(`http://localhost:${port}${this.options.healthPath}`),
+          port
+        ),
+        new Promise<never>((_, reject) => {
+          timeout = setTimeout(
+            () =>
+              reject(
+                new Error(
+                  `health probe timed out after ${this.options.probeTimeout}ms`
+                )
+              ),
+            this.options.probeTimeout
+          );
+        }),
+      ]);
+      return response.ok
+        ? null
+        : `health probe returned status ${response.status}`;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Restart the agent-server unless the restart cap is reached, and schedule
+   * the earliest time for the next attempt
+   */
+  private async restart(state: OpenhandsSupervisorStatus): Promise<void> {
+    if (state.consecutiveRestarts >= this.options.maxRestarts) {
+      state.gaveUp = true;
+      return;
+    }
+
+    const backoff = Math.min(
+      this.options.initialBackoff * 2 ** state.consecutiveRestarts,
+      this.options.maxBackoff
+    );
+    state.consecutiveRestarts += 1;
+    state.restartCount += 1;
+    state.nextRestartAt = new Date(Date.now() + backoff).toISOString();
+
+    try {
+      const server = await createOpenhandsServer(
+        this.sandbox,
+        this.serverOptions
+      );
+      state.processId = server.processId;
+      state.startedAt = new Date().toISOString();
+    } catch (error) {
+      const errorContext = isOpenhandsError(error)
+        ? (error.context as Partial<OpenhandsStartupContext>)
+        : {};
+      const context: OpenhandsStartupContext = {
+        port: this.serverOptions.port!,
+        command: errorContext.command,
+        processId: errorContext.processId,
+        stderr: tail(errorContext.stderr, this.options.stderrTailLines),
+      };
+      this.recordFailure(state, {
+        timestamp: new Date().toISOString(),
+        reason: 'restart-failed',
+        message: error instanceof Error ? error.message : String(error),
+        context,
+      });
+      if (state.consecutiveRestarts >= this.options.maxRestarts) {
+        state.gaveUp = true;
+      }
+    }
+  }
+
+  /**
+   * Add a crash record, keeping the newest `historySize` entries
+   */
+  private recordFailure(
+    state: OpenhandsSupervisorStatus,
+    failure: OpenhandsCrashRecord
+  ): void {
+    state.lastFailure = failure;
+    state.failures = [failure, ...state.failures].slice(
+      0,
+      this.options.historySize
+    );
+  }
+
+  /**
+   * Read persisted state (initial state if none was written yet)
+   */
+  private async readState(): Promise<OpenhandsSupervisorStatus> {
+    try {
+      const file = await this.sandbox.readFile(this.options.statePath);
+      return JSON.parse(file.content) as OpenhandsSupervisorStatus;
+    } catch {
+      return {
+        restartCount: 0,
+        consecutiveRestarts: 0,
+        gaveUp: false,
+        failures: [],
+      };
+    }
+  }
+
+  /**
+   * Persist state to the sandbox filesystem
+   */
+  private async writeState(state: OpenhandsSupervisorStatus): Promise<void> {
+    const { uptimeMs: _uptimeMs, ...persisted } = state;
+    await this.sandbox.writeFile(
+      this.options.statePath,
+      JSON.stringify(persisted, null, 2)
+    );
+  }
+}
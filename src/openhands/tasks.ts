@@ -0,0 +1,252 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type {
+  OpenhandsClientOptions,
+  OpenhandsEvent,
+  OpenhandsObservabilityOptions,
+  OpenhandsServer,
+  OpenhandsTaskEventSummary,
+  OpenhandsTaskOptions,
+  OpenhandsTaskResult,
+  OpenhandsTaskResultOptions,
+  OpenhandsTaskStatus,
+  OpenhandsWorkspaceChanges,
+} from './types';
+import { OpenhandsClient } from './client';
+import { collectWorkspaceChanges } from './git';
+import { getConversationUsage } from './usage';
+
+const DEFAULT_TIMEOUT = 600_000;
+const DEFAULT_INTERVAL = 2_000;
+
+/**
+ * Conversation statuses in which a task no longer makes progress on its own
+ */
+const FINAL_STATUSES: OpenhandsTaskStatus[] = [
+  'finished',
+  'error',
+  'stuck',
+  'waiting_for_confirmation',
+  'timeout',
+  'cancelled',
+];
+
+/**
+ * Whether a task status is final
+ */
+export function isTaskDone(status: OpenhandsTaskStatus): boolean {
+  return FINAL_STATUSES.includes(status);
+}
+
+/**
+ * Text of a message event, or the message of a finish action
+ */
+function getAgentText(event: OpenhandsEvent): string | undefined {
+  if (event.source !== 'agent') {
+    return undefined;
+  }
+  if (event.kind === 'MessageEvent') {
+    const content = (
+      event.llm_message as { content?: Array<{ text?: string }> } | undefined
+    )?.content;
+    return content?.map((block) => block.text ?? '').join('') || undefined;
+  }
+  if (event.kind === 'ActionEvent') {
+    const message = (event.action as { message?: unknown } | undefined)
+      ?.message;
+    return typeof message === 'string' ? message : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Create a conversation for a task, send the prompt and start the agent.
+ * Returns without waiting; use `getTaskResult()` to check on it.
+ *
+ * @param sandbox - The Sandbox instance running agent-server
+ * @param server - The agent-server handle
+ * @param task - Prompt, agent, workspace and limits
+ * @param clientOptions - Observability options for agent-server requests
+ * @returns Conversation ID of the task
+ */
+export async function startTask(
+  sandbox: Sandbox<unknown>,
+  server: OpenhandsServer,
+  task: OpenhandsTaskOptions,
+  clientOptions: OpenhandsClientOptions = {}
+): Promise<string> {
+  const client = new OpenhandsClient(sandbox, server, clientOptions);
+  const conversation = await client.createConversation({
+    conversation_id: task.conversationId,
+    agent: task.agent,
+    workspace:
+      typeof task.workspace === 'string'
+        ? { working_dir: task.workspace }
+        : task.workspace,
+    max_iterations: task.maxIterations,
+    confirmation_policy: task.confirmationPolicy,
+  });
+  await client.sendMessage(conversation.id, task.prompt);
+  await client.runConversation(conversation.id);
+  return conversation.id;
+}
+
+/**
+ * Summarize a task in its current state: status, final agent message,
+ * event summary, workspace changes and usage.
+ *
+ * @param sandbox - The Sandbox instance running agent-server
+ * @param server - The agent-server handle
+ * @param conversationId - Conversation ID returned by `startTask()`
+ * @param options - Workspace changes and usage options
+ * @param clientOptions - Observability options for agent-server requests
+ */
+export async function getTaskResult(
+  sandbox: Sandbox<unknown>,
+  server: OpenhandsServer,
+  conversationId: string,
+  options: OpenhandsTaskResultOptions = {},
+  clientOptions: OpenhandsClientOptions = {}
+): Promise<OpenhandsTaskResult> {
+  const client = new OpenhandsClient(sandbox, server, clientOptions);
+  const conversation = await client.getConversation(conversationId);
+
+  const events: OpenhandsTaskEventSummary = {
+    total: 0,
+    byKind: {},
+    tools: {},
+    errors: [],
+  };
+  let finalMessage: string | undefined;
+  let pageId: string | undefined;
+  do {
+    const page = await client.searchEvents(conversationId, {
+      pageId,
+      limit: 100,
+    });
+    for (const event of page.items) {
+      events.total += 1;
+      events.byKind[event.kind] = (events.byKind[event.kind] ?? 0) + 1;
+      if (event.kind === 'ActionEvent' && typeof event.tool_name === 'string') {
+        events.tools[event.tool_name] =
+          (events.tools[event.tool_name] ?? 0) + 1;
+      }
+      if (event.kind === 'AgentErrorEvent') {
+        events.errors.push(String(event.error ?? ''));
+      }
+      finalMessage = getAgentText(event) ?? finalMessage;
+    }
+    pageId = page.next_page_id ?? undefined;
+  } while (pageId);
+
+  let changes: OpenhandsWorkspaceChanges | undefined;
+  if (options.changes !== false) {
+    try {
+      changes = await collectWorkspaceChanges(
+        sandbox,
+        options.changes?.directory ?? conversation.workspace.working_dir,
+        { base: options.changes?.base }
+      );
+    } catch {
+      // Not a git repository, or no base commit recorded
+    }
+  }
+
+  return {
+    conversationId,
+    status: conversation.execution_status,
+    done: isTaskDone(conversation.execution_status),
+    finalMessage,
+    events,
+    changes,
+    usage: getConversationUsage(conversation, options.usageIds),
+  };
+}
+
+/**
+ * Wait for a started task to finish, fail, get stuck or wait for
+ * confirmation. On timeout or cancellation the conversation is paused and
+ * the result has status 'timeout' or 'cancelled'.
+ *
+ * @param sandbox - The Sandbox instance running agent-server
+ * @param server - The agent-server handle
+ * @param conversationId - Conversation ID returned by `startTask()`
+ * @param options - Waiting, workspace changes and usage options
+ * @returns The task result
+ */
+export async function waitForTask(
+  sandbox: Sandbox<unknown>,
+  server: OpenhandsServer,
+  conversationId: string,
+  options: OpenhandsTaskResultOptions & OpenhandsObservabilityOptions = {}
+): Promise<OpenhandsTaskResult> {
+  const client = new OpenhandsClient(sandbox, server, options);
+  const deadline = Date.now() + (options.timeout ?? DEFAULT_TIMEOUT);
+  const interval = options.interval ?? DEFAULT_INTERVAL;
+
+  for (;;) {
+    const { execution_status } = await client.getConversation(conversationId);
+    if (isTaskDone(execution_status)) {
+      break;
+    }
+    let stopped: OpenhandsTaskStatus | undefined;
+    if (await options.cancelled?.()) {
+      stopped = 'cancelled';
+    } else if (Date.now() + interval > deadline) {
+      stopped = 'timeout';
+    }
+    if (stopped) {
+      await client.pauseConversation(conversationId);
+      const result = await getTaskResult(
+        sandbox,
+        server,
+        conversationId,
+        options,
+        options
+      );
+      return { ...result, status: stopped, done: true };
+    }
+    await new Promise((resolve) => setTimeout(resolve, interval));
+  }
+
+  return getTaskResult(sandbox, server, conversationId, options, options);
+}
+
+/**
+ * Run a task to completion: create a conversation, send the prompt, start
+ * the agent and wait until it finishes, fails, gets stuck or waits for
+ * confirmation. On timeout the conversation is paused and the result has
+ * status 'timeout'.
+ *
+ * Tasks can take minutes, so call this where the Worker stays alive (a
+ * Durable Object, a Queue consumer or `ctx.waitUntil`); over HTTP, use the
+ * `/tasks` routes instead.
+ *
+ * @param sandbox - The Sandbox instance running agent-server
+ * @param server - The agent-server handle
+ * @param task - Prompt, agent, workspace and limits, plus waiting options
+ * @returns The task result
+ *
+ * @example
+ * ```typescript
+ * const result = await runTask(sandbox, server, {
+ *   prompt: 'Fix the failing test in src/parser.ts',
+ *   agent: await agentConfig.build(),
+ *   workspace: '/workspace/repo',
+ *   maxIterations: 50,
+ *   timeout: 15 * 60_000,
+ * })
+ * if (result.status === 'finished') {
+ *   console.log(result.finalMessage, result.changes?.files)
+ * }
+ * ```
+ */
+export async function runTask(
+  sandbox: Sandbox<unknown>,
+  server: OpenhandsServer,
+  task: OpenhandsTaskOptions &
+    OpenhandsTaskResultOptions &
+    OpenhandsObservabilityOptions
+): Promise<OpenhandsTaskResult> {
+  const conversationId = await startTask(sandbox, server, task, task);
+  return waitForTask(sandbox, server, conversationId, task);
+}
@@ -1,9 +1,9 @@
-import type { Process } from '@cloudflare/sandbox';
+import type { Process, Sandbox } from '@cloudflare/sandbox';
 
 /**
  * Configuration options for starting OpenHands agent-server
  */
-export interface OpenhandsOptions {
+export interface OpenhandsOptions extends OpenhandsObservabilityOptions {
   /** Port for agent-server (default: 8001) */
   port?: number;
   /** Working directory for agent-server (default: /container-server/software-agent-sdk) */
@@ -14,8 +14,76 @@ export interface OpenhandsOptions {
   exposePort?: boolean;
   /** Environment variables for agent-server */
   env?: Record<string, string>;
-  /** Sandbox name/session ID (default: 'my-sandbox') */
+  /**
+   * Sandbox name/session ID. There is no default: the route handler requires
+   * a name on every request, and uses this one only when it is set
+   * explicitly and a request names no sandbox.
+   */
   sandboxName?: string;
+  /**
+   * Path to agent-server executable, or 'auto' to search common locations
+   * (default: /container-server/software-agent-sdk/.venv/bin/agent-server)
+   */
+  executablePath?: string;
+  /** Host agent-server binds to (default: 0.0.0.0) */
+  host?: string;
+  /** Extra CLI arguments appended to the agent-server command */
+  args?: string[];
+  /** Log level for agent-server, passed as LOG_LEVEL (e.g. 'debug', 'info') */
+  logLevel?: string;
+  /** Command prefix used to launch agent-server (e.g. 'uv run') */
+  launcher?: string;
+  /**
+   * Session API key required by agent-server for API and socket access.
+   * Passed to the server as SESSION_API_KEY and added to proxied requests.
+   */
+  sessionApiKey?: string;
+  /** How to decide the agent-server is ready after it starts */
+  readiness?: OpenhandsReadinessOptions;
+  /** Snapshot conversations on close and restore them into fresh agent-servers */
+  persistence?: OpenhandsPersistenceOptions;
+  /** Send signed lifecycle notifications (start, stop, crash, conversation status) */
+  webhooks?: OpenhandsWebhookOptions;
+}
+
+/**
+ * Readiness probing strategy for a starting agent-server.
+ * The server is ready once its port accepts TCP connections and either the
+ * HTTP probe or the custom `check` succeeds.
+ */
+export interface OpenhandsReadinessOptions {
+  /** HTTP path probed once the port is open (default: '/health') */
+  path?: string;
+  /** Expected HTTP status or range (default: 200-399) */
+  status?: number | { min: number; max: number };
+  /** Total time in ms allowed for the server to become ready (default: 60000) */
+  timeout?: number;
+  /** Interval in ms between probes (default: 500) */
+  interval?: number;
+  /** Custom readiness predicate, used instead of the HTTP probe */
+  check?: (context: {
+    sandbox: Sandbox<unknown>;
+    process: Process;
+    port: number;
+  }) => boolean | Promise<boolean>;
+}
+
+/**
+ * Phase timings of `createOpenhandsServer`, in milliseconds
+ */
+export interface OpenhandsStartupTimings {
+  /** True if an already-running process was reused */
+  reused: boolean;
+  /** Time for `startProcess` to return (new processes only) */
+  spawnMs?: number;
+  /** Time until the port accepted TCP connections */
+  portOpenMs?: number;
+  /** Time from port open until the readiness check passed */
+  healthyMs?: number;
+  /** Time spent restoring persisted conversations (new processes only) */
+  restoreMs?: number;
+  /** Total time spent in `createOpenhandsServer` */
+  totalMs: number;
 }
 
 /**
@@ -30,8 +98,46 @@ export interface OpenhandsServer {
   previewUrl?: string;
   /** Process ID */
   processId: string;
+  /** Session API key sent to agent-server with proxied requests (optional) */
+  sessionApiKey?: string;
+  /** Startup phase timings (only set by createOpenhandsServer) */
+  timings?: OpenhandsStartupTimings;
   /** Close the server gracefully */
-  close(): Promise<void>;
+  close(options?: OpenhandsCloseOptions): Promise<OpenhandsCloseResult>;
+}
+
+/**
+ * Options for closing an agent-server
+ */
+export interface OpenhandsCloseOptions {
+  /**
+   * Time in ms to pause running conversations and wait for them to stop
+   * before signalling the process (default: 0, no drain)
+   */
+  drainTimeout?: number;
+  /** Time in ms to wait for exit after SIGTERM before sending SIGKILL (default: 10000) */
+  gracePeriod?: number;
+  /** Remove the preview URL (default: true if the port was exposed) */
+  unexpose?: boolean;
+}
+
+/**
+ * What happened while closing an agent-server
+ */
+export interface OpenhandsCloseResult {
+  /** Conversations paused during the drain */
+  pausedConversations: string[];
+  /** False if conversations were still running when the drain timed out */
+  drained: boolean;
+  /** Last signal sent to the process */
+  signal: 'SIGTERM' | 'SIGKILL';
+  /** Whether the process was observed to exit */
+  exited: boolean;
+  exitCode?: number;
+  /** Whether the preview URL was removed */
+  unexposed: boolean;
+  /** Conversations snapshotted to the persistence adapter before shutdown */
+  snapshottedConversations?: string[];
 }
 
 /**
@@ -45,20 +151,1253 @@ export interface OpenhandsStartupContext {
 }
 
 /**
- * Error thrown when agent-server fails to start
+ * Text content block of a conversation message
+ */
+export interface TextContent {
+  type: 'text';
+  text: string;
+}
+
+/**
+ * Image content block of a conversation message
+ */
+export interface ImageContent {
+  type: 'image';
+  image_urls: string[];
+}
+
+/**
+ * Content block accepted by the agent-server message API
+ */
+export type MessageContent = TextContent | ImageContent;
+
+/**
+ * LLM settings of an agent (mirrors the agent-server `LLM` schema)
+ */
+export interface LLMConfig {
+  model: string;
+  api_key?: string;
+  base_url?: string;
+  temperature?: number;
+  /** Identifier used by the agent-server to aggregate usage metrics */
+  usage_id?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Agent settings of a conversation (mirrors the agent-server `Agent` schema)
+ */
+export interface AgentConfig {
+  llm: LLMConfig;
+  tools?: Array<{ name: string; params?: Record<string, unknown> }>;
+  system_prompt_kwargs?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * Workspace the agent operates in
+ */
+export interface WorkspaceConfig {
+  working_dir: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Request body for `POST /api/conversations/{id}/events`
+ */
+export interface SendMessageRequest {
+  role?: 'user' | 'system' | 'assistant';
+  content: MessageContent[];
+  /** Start the agent loop after the message is appended (default: false) */
+  run?: boolean;
+}
+
+/**
+ * Request body for `POST /api/conversations`
+ */
+export interface StartConversationRequest {
+  /** Conversation ID to use (generated by the agent-server if omitted) */
+  conversation_id?: string;
+  agent: AgentConfig;
+  workspace: WorkspaceConfig;
+  initial_message?: SendMessageRequest;
+  max_iterations?: number;
+  stuck_detection?: boolean;
+  /** When the agent must wait for approval before executing an action */
+  confirmation_policy?: ConfirmationPolicy;
+  /** Analyzer rating each action's risk, e.g. `{ kind: 'LLMSecurityAnalyzer' }` */
+  security_analyzer?: { kind: string; [key: string]: unknown } | null;
+  [key: string]: unknown;
+}
+
+/**
+ * Risk the security analyzer assigned to an action
+ */
+export type SecurityRisk = 'UNKNOWN' | 'LOW' | 'MEDIUM' | 'HIGH';
+
+/**
+ * Agent-server confirmation policy
+ */
+export type ConfirmationPolicy =
+  | { kind: 'AlwaysConfirm' }
+  | { kind: 'NeverConfirm' }
+  | {
+      kind: 'ConfirmRisky';
+      /** Lowest risk requiring confirmation (default: 'HIGH') */
+      threshold?: SecurityRisk;
+      /** Require confirmation for actions of unknown risk (default: true) */
+      confirm_unknown?: boolean;
+    };
+
+/**
+ * Execution status of a conversation as reported by the agent-server
+ */
+export type ConversationExecutionStatus =
+  | 'idle'
+  | 'running'
+  | 'paused'
+  | 'waiting_for_confirmation'
+  | 'finished'
+  | 'error'
+  | 'stuck';
+
+/**
+ * Conversation returned by the agent-server
+ */
+export interface ConversationInfo {
+  id: string;
+  agent: AgentConfig;
+  workspace: WorkspaceConfig;
+  execution_status: ConversationExecutionStatus;
+  title?: string | null;
+  max_iterations?: number;
+  created_at?: string;
+  updated_at?: string;
+  /** LLM usage metrics, keyed by the `usage_id` of each LLM */
+  stats?: ConversationStats;
+  [key: string]: unknown;
+}
+
+/**
+ * Token counts accumulated by an LLM
+ */
+export interface TokenUsage {
+  model?: string;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  cache_read_tokens?: number;
+  cache_write_tokens?: number;
+  reasoning_tokens?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Usage metrics of one LLM in a conversation
+ */
+export interface LLMMetrics {
+  model_name?: string;
+  accumulated_cost?: number;
+  accumulated_token_usage?: TokenUsage | null;
+  [key: string]: unknown;
+}
+
+/**
+ * Conversation usage statistics reported by the agent-server
+ */
+export interface ConversationStats {
+  usage_to_metrics?: Record<string, LLMMetrics>;
+  [key: string]: unknown;
+}
+
+/**
+ * Page of conversations returned by `GET /api/conversations/search`
+ */
+export interface ConversationPage {
+  items: ConversationInfo[];
+  next_page_id: string | null;
+}
+
+/**
+ * Parameters for listing conversations
+ */
+export interface ListConversationsParams {
+  /** Page cursor returned as `next_page_id` by a previous call */
+  pageId?: string;
+  /** Maximum number of conversations per page */
+  limit?: number;
+  /** Only return conversations in this execution status */
+  status?: ConversationExecutionStatus;
+}
+
+/**
+ * Options for the conversation client
+ */
+export interface OpenhandsClientOptions extends OpenhandsObservabilityOptions {
+  /** Extra headers sent with every agent-server request */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Context information for agent-server API errors
+ */
+export interface OpenhandsApiErrorContext {
+  method: string;
+  path: string;
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Context information for readiness timeouts
+ */
+export interface OpenhandsReadinessTimeoutContext
+  extends OpenhandsStartupContext {
+  /** Readiness timeout in milliseconds */
+  timeout: number;
+}
+
+/**
+ * Context information for missing agent-server executables
+ */
+export interface OpenhandsExecutableNotFoundContext {
+  port: number;
+  /** Path that was configured or searched for */
+  executablePath?: string;
+}
+
+/**
+ * Context information for port conflicts
+ */
+export interface OpenhandsPortConflictContext {
+  port: number;
+  /** Process already holding the port, if known */
+  processId?: string;
+  command?: string;
+}
+
+/**
+ * Context information for preview URL exposure failures
+ */
+export interface OpenhandsExposureErrorContext {
+  port: number;
+  hostname?: string;
+  /** Process of the agent-server, which keeps running */
+  processId?: string;
+}
+
+/**
+ * Context information for failures proxying to agent-server
+ */
+export interface OpenhandsProxyErrorContext {
+  port: number;
+  method: string;
+  path: string;
+}
+
+/**
+ * Context information for agent-server processes that were killed
+ */
+export interface OpenhandsProcessKilledContext {
+  port: number;
+  processId: string;
+  command?: string;
+  exitCode?: number;
+  stderr?: string;
+}
+
+/**
+ * Context information for failed git commands
+ */
+export interface OpenhandsGitErrorContext {
+  /** Git command that failed (credentials are never part of it) */
+  command: string;
+  directory: string;
+  exitCode: number;
+  stderr?: string;
+}
+
+/**
+ * Context information for work refused because a sandbox is over budget
+ */
+export interface OpenhandsBudgetExceededContext {
+  sandboxName: string;
+  maxCost?: number;
+  maxTokens?: number;
+  /** Accumulated cost in USD */
+  cost: number;
+  totalTokens: number;
+}
+
+/**
+ * Context information for workspace paths that don't exist
+ */
+export interface OpenhandsNotFoundContext {
+  /** Path as given, relative to the workspace root */
+  path: string;
+}
+
+/**
+ * Context information for failed workspace commands
+ */
+export interface OpenhandsWorkspaceErrorContext {
+  /** Path as given, relative to the workspace root */
+  path: string;
+  command: string;
+  exitCode: number;
+  stderr?: string;
+}
+
+/**
+ * Context information for invalid requests (names, paths, parameters)
+ */
+export interface OpenhandsInvalidRequestContext {
+  /** Offending field or parameter */
+  field: string;
+  value?: unknown;
+}
+
+/**
+ * Context information for authentication that couldn't be checked
+ */
+export interface OpenhandsAuthUnavailableContext {
+  /** URL of the key set that could not be fetched */
+  jwksUrl: string;
+  /** HTTP status of the failed fetch, if it got a response */
+  status?: number;
+}
+
+/**
+ * Context information for configuration errors
+ */
+export interface OpenhandsConfigurationContext {
+  /** Option that is missing or invalid */
+  field: string;
+}
+
+/**
+ * Context information for rate-limited requests
+ */
+export interface OpenhandsRateLimitContext {
+  /** Limit that rejected the request */
+  scope: 'sandbox' | 'client' | 'concurrency';
+  /** Sandbox name or client identity the limit applies to */
+  key: string;
+  /** Seconds until the request may be retried */
+  retryAfter: number;
+}
+
+/**
+ * Event emitted by the agent-server for a conversation
+ * (message, action, observation, state update, ...)
+ */
+export interface OpenhandsEvent {
+  id: string;
+  timestamp: string;
+  source: 'agent' | 'user' | 'environment';
+  kind: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Page of events returned by `GET /api/conversations/:id/events/search`
+ */
+export interface EventPage {
+  items: OpenhandsEvent[];
+  next_page_id: string | null;
+}
+
+/**
+ * Parameters for searching conversation events
+ */
+export interface SearchEventsParams {
+  pageId?: string;
+  /** Page size (agent-server maximum: 100) */
+  limit?: number;
+  /** Only return events of this kind, e.g. 'ActionEvent' */
+  kind?: string;
+}
+
+/**
+ * Workers-side WebSocket connected to the agent-server event socket
+ */
+export interface OpenhandsEventSocket {
+  accept(): void;
+  addEventListener(
+    type: 'message',
+    listener: (event: { data: unknown }) => void
+  ): void;
+  addEventListener(type: 'close' | 'error', listener: () => void): void;
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * Options for bridging conversation events to a client
+ */
+export interface OpenhandsEventStreamOptions {
+  /** Replay all past events before streaming new ones (default: false) */
+  resendAll?: boolean;
+  /** Interval in ms between SSE keep-alive comments (default: 15000, 0 disables) */
+  heartbeatInterval?: number;
+}
+
+/**
+ * Options for the named instance registry
+ */
+export interface OpenhandsRegistryOptions {
+  /** Ports assigned to instances (default: 8100-8199) */
+  portRange?: { start: number; end: number };
+  /** File in the sandbox holding the registry (default: /container-server/openhands-instances.json) */
+  registryPath?: string;
+}
+
+/**
+ * Persisted registry entry for a named agent-server instance
+ */
+export interface OpenhandsInstanceRecord {
+  name: string;
+  port: number;
+  processId: string;
+  labels: Record<string, string>;
+  directory?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Registry entry together with the current process status
+ */
+export interface OpenhandsInstance extends OpenhandsInstanceRecord {
+  /** Process status, or 'stopped' if the process no longer exists */
+  status: Process['status'] | 'stopped';
+  running: boolean;
+}
+
+/**
+ * Options for the agent-server supervisor
+ */
+export interface OpenhandsSupervisorOptions {
+  /** Health endpoint probed on the agent-server (default: '/health') */
+  healthPath?: string;
+  /** Interval in ms between automatic probes; 0 disables the timer (default: 30000) */
+  interval?: number;
+  /** A probe taking longer than this many ms counts as a hang (default: 5000) */
+  probeTimeout?: number;
+  /** Consecutive restarts before the supervisor gives up (default: 5) */
+  maxRestarts?: number;
+  /** Delay in ms before the first restart, doubled on each retry (default: 1000) */
+  initialBackoff?: number;
+  /** Upper bound for the restart delay in ms (default: 60000) */
+  maxBackoff?: number;
+  /** Number of crash records kept (default: 10) */
+  historySize?: number;
+  /** Lines of stderr kept per crash record (default: 50) */
+  stderrTailLines?: number;
+  /** File in the sandbox holding supervisor state (default: /container-server/openhands-supervisor-{port}.json) */
+  statePath?: string;
+}
+
+/**
+ * Record of an agent-server crash or hang detected by the supervisor
+ */
+export interface OpenhandsCrashRecord {
+  /** ISO timestamp of detection */
+  timestamp: string;
+  /** 'exited' if the process died, 'unhealthy' if the probe failed or hung, 'restart-failed' if a restart attempt failed */
+  reason: 'exited' | 'unhealthy' | 'restart-failed';
+  /** Human-readable detail (exit code, probe error, startup error) */
+  message: string;
+  exitCode?: number;
+  /** Startup context, with stderr truncated to the last lines */
+  context: OpenhandsStartupContext;
+}
+
+/**
+ * Supervisor state reported by the status route
+ */
+export interface OpenhandsSupervisorStatus {
+  /** Process currently supervised */
+  processId?: string;
+  /** ISO timestamp at which the current process was (re)started */
+  startedAt?: string;
+  /** Milliseconds since `startedAt` */
+  uptimeMs?: number;
+  /** ISO timestamp of the last successful probe */
+  lastHealthyAt?: string;
+  /** Total restarts performed */
+  restartCount: number;
+  /** Restarts since the last successful probe */
+  consecutiveRestarts: number;
+  /** Earliest ISO timestamp for the next restart attempt (backoff) */
+  nextRestartAt?: string;
+  /** True once `maxRestarts` consecutive restarts failed */
+  gaveUp: boolean;
+  lastFailure?: OpenhandsCrashRecord;
+  /** Most recent crashes, newest first */
+  failures: OpenhandsCrashRecord[];
+}
+
+/**
+ * Options for workspace file access
  */
-export class OpenhandsStartupError extends Error {
-  readonly code = 'OPENHANDS_STARTUP_FAILED' as const;
-  readonly context: OpenhandsStartupContext;
+export interface OpenhandsWorkspaceOptions {
+  /** Directory all workspace paths are resolved against (default: '/workspace') */
+  root?: string;
+}
 
-  constructor(
-    message: string,
-    context: OpenhandsStartupContext,
-    options?: ErrorOptions
-  ) {
-    super(message, options);
-    this.name = 'OpenhandsStartupError';
-    this.context = context;
-  }
+/**
+ * Options for listing workspace files
+ */
+export interface OpenhandsListWorkspaceOptions extends OpenhandsWorkspaceOptions {
+  /** Include files in subdirectories (default: false) */
+  recursive?: boolean;
+  /** Include dotfiles (default: false) */
+  includeHidden?: boolean;
 }
 
+/**
+ * File or directory in the workspace
+ */
+export interface OpenhandsWorkspaceEntry {
+  name: string;
+  /** Path relative to the workspace root */
+  path: string;
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  size: number;
+  modifiedAt: string;
+}
+
+/**
+ * Content of a workspace file
+ */
+export interface OpenhandsWorkspaceFile {
+  /** Path relative to the workspace root */
+  path: string;
+  /** File content, base64-encoded for binary files */
+  content: string;
+  encoding: 'utf-8' | 'base64';
+  mimeType?: string;
+  size?: number;
+}
+
+/**
+ * Archive format for workspace downloads
+ */
+export type OpenhandsArchiveFormat = 'tar' | 'zip';
+
+/**
+ * Options for downloading the workspace as an archive
+ */
+export interface OpenhandsArchiveOptions extends OpenhandsWorkspaceOptions {
+  /** 'tar' (gzip-compressed) or 'zip' (default: 'tar') */
+  format?: OpenhandsArchiveFormat;
+  /** Directory to archive, relative to the workspace root (default: the whole workspace) */
+  path?: string;
+}
+
+/**
+ * Credentials for cloning private repositories. They are passed to git
+ * through environment variables, never on the command line.
+ */
+export interface OpenhandsGitCredentials {
+  /** Username (default: 'x-access-token', as used by GitHub tokens) */
+  username?: string;
+  /** Password or access token */
+  token: string;
+}
+
+/**
+ * Options for cloning a repository into the sandbox
+ */
+export interface OpenhandsCloneOptions {
+  /** Repository URL */
+  repository: string;
+  /** Branch, tag or commit to check out (default: the remote HEAD) */
+  ref?: string;
+  /** Shallow clone depth (default: full history of `ref`) */
+  depth?: number;
+  credentials?: OpenhandsGitCredentials;
+  /** Target directory (default: /workspace/{repository name}) */
+  directory?: string;
+  /** Working branch created on top of `ref` */
+  branch?: string;
+  /** Commit identity configured in the repository for the agent */
+  author?: { name: string; email: string };
+}
+
+/**
+ * Repository checked out by `cloneRepository()`
+ */
+export interface OpenhandsWorkspaceInfo {
+  directory: string;
+  repository: string;
+  ref?: string;
+  branch?: string;
+  /** Commit checked out before the agent made changes */
+  baseCommit: string;
+}
+
+/**
+ * Options for `prepareWorkspace()`
+ */
+export interface OpenhandsPrepareWorkspaceOptions extends OpenhandsCloneOptions {
+  /** Conversation to start; `workspace.working_dir` is set to the clone */
+  conversation: Partial<StartConversationRequest> & { agent: AgentConfig };
+}
+
+/**
+ * Commit made in the workspace
+ */
+export interface OpenhandsGitCommit {
+  sha: string;
+  author: string;
+  email: string;
+  /** ISO 8601 author date */
+  date: string;
+  subject: string;
+}
+
+/**
+ * Changes made in a workspace since its base commit
+ */
+export interface OpenhandsWorkspaceChanges {
+  baseCommit: string;
+  headCommit: string;
+  /** Commits on top of the base commit, oldest first */
+  commits: OpenhandsGitCommit[];
+  /** Changed paths with their git status letter (A, M, D, R, ...) */
+  files: Array<{ path: string; status: string }>;
+  /** Diff of the working tree against the base commit, including uncommitted changes */
+  diff: string;
+  /** Commits since the base commit in `git format-patch` format */
+  patch: string;
+}
+
+/**
+ * File from an agent-server conversation directory
+ */
+export interface OpenhandsSnapshotFile {
+  /** Path relative to the conversation directory */
+  path: string;
+  content: string;
+  encoding: 'utf-8' | 'base64';
+}
+
+/**
+ * Persisted state of one conversation: its metadata as reported by the API
+ * and the files agent-server keeps for it (base state and event history)
+ */
+export interface OpenhandsConversationSnapshot {
+  conversationId: string;
+  conversation: ConversationInfo;
+  /** Name of the conversation directory under `conversationsPath` */
+  directory: string;
+  files: OpenhandsSnapshotFile[];
+  /** ISO timestamp of the snapshot */
+  savedAt: string;
+}
+
+/**
+ * Storage backend for conversation snapshots
+ */
+export interface OpenhandsPersistenceAdapter {
+  save(snapshot: OpenhandsConversationSnapshot): Promise<void>;
+  load(conversationId: string): Promise<OpenhandsConversationSnapshot | null>;
+  /** IDs of all stored conversations */
+  list(): Promise<string[]>;
+  delete(conversationId: string): Promise<void>;
+}
+
+/**
+ * Minimal string key-value API, satisfied by Durable Object storage and
+ * Workers KV namespaces
+ */
+export interface OpenhandsKeyValueStore {
+  get(key: string): Promise<string | null | undefined>;
+  put(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<unknown>;
+}
+
+/**
+ * Options for conversation persistence
+ */
+export interface OpenhandsPersistenceOptions {
+  adapter: OpenhandsPersistenceAdapter;
+  /**
+   * Directory where agent-server stores conversations
+   * (default: {directory}/workspace/conversations)
+   */
+  conversationsPath?: string;
+  /** Snapshot all conversations when the server is closed (default: true) */
+  snapshotOnClose?: boolean;
+  /**
+   * Snapshot conversations whose turn ended when the status or task routes
+   * are polled and when a job's task ends (default: true)
+   */
+  snapshotOnSettle?: boolean;
+}
+
+/**
+ * LLM provider of an agent profile
+ */
+export type OpenhandsLLMProvider = 'anthropic' | 'openai' | 'openai-compatible';
+
+/**
+ * Provider-neutral LLM settings, turned into an `LLMConfig` by
+ * `OpenhandsAgentConfigBuilder`
+ */
+export interface OpenhandsLLMProfile {
+  provider: OpenhandsLLMProvider;
+  /** Model name, with or without the provider prefix (e.g. 'claude-sonnet-4-5-20250929') */
+  model: string;
+  /** API base URL (required for 'openai-compatible') */
+  baseUrl?: string;
+  /** Name of the secret holding the API key, looked up with the secret resolver */
+  apiKeySecret?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** Identifier used by the agent-server to aggregate usage metrics */
+  usageId?: string;
+  /** Additional fields passed through to the agent-server `LLM` schema */
+  extra?: Record<string, unknown>;
+}
+
+/**
+ * Looks up a secret by name at request time (e.g. from Worker bindings)
+ */
+export type OpenhandsSecretResolver = (
+  name: string
+) => string | undefined | Promise<string | undefined>;
+
+/**
+ * Options for `OpenhandsAgentConfigBuilder`
+ */
+export interface OpenhandsAgentConfigOptions {
+  /** Primary LLM */
+  llm: OpenhandsLLMProfile;
+  /** Profiles tried in order when the API key of the previous one can't be resolved */
+  fallbacks?: OpenhandsLLMProfile[];
+  resolveSecret?: OpenhandsSecretResolver;
+  tools?: AgentConfig['tools'];
+  systemPromptKwargs?: Record<string, unknown>;
+}
+
+/**
+ * Token and cost totals
+ */
+export interface OpenhandsUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  reasoningTokens: number;
+  /** Prompt plus completion tokens */
+  totalTokens: number;
+  /** Accumulated cost in USD, as computed by the agent-server */
+  cost: number;
+}
+
+/**
+ * Usage of one conversation
+ */
+export interface OpenhandsConversationUsage extends OpenhandsUsage {
+  conversationId: string;
+  executionStatus: ConversationExecutionStatus;
+  /** Usage per LLM `usage_id` */
+  byUsageId: Record<string, OpenhandsUsage & { model?: string }>;
+}
+
+/**
+ * Usage limits for a sandbox; exceeding either pauses its running conversations
+ */
+export interface OpenhandsBudget {
+  /** Maximum accumulated cost in USD */
+  maxCost?: number;
+  /** Maximum total tokens */
+  maxTokens?: number;
+}
+
+/**
+ * Usage of every conversation on a sandbox's agent-server
+ */
+export interface OpenhandsUsageReport {
+  sandboxName: string;
+  /** ISO timestamp of collection */
+  collectedAt: string;
+  total: OpenhandsUsage;
+  conversations: OpenhandsConversationUsage[];
+  budget?: OpenhandsBudget & {
+    /** True if the totals reached a limit */
+    exceeded: boolean;
+  };
+  /** Conversations paused because the budget was exceeded */
+  pausedConversations: string[];
+}
+
+/**
+ * Options for usage metering
+ */
+export interface OpenhandsUsageOptions {
+  /** Only count LLMs with these usage IDs (default: all) */
+  usageIds?: string[];
+  /** Budget applied to the sandbox, or a function returning the budget per sandbox name */
+  budget?:
+    | OpenhandsBudget
+    | ((sandboxName: string) => OpenhandsBudget | undefined);
+  /** Called with every collected report, e.g. to push it to an analytics sink */
+  onUsage?: (report: OpenhandsUsageReport) => void | Promise<void>;
+  /**
+   * Store keeping the usage of every conversation seen per sandbox, such as
+   * Durable Object storage or a Workers KV namespace. With a store, totals
+   * and budgets include conversations that were deleted or lost to a
+   * restart; without one, only conversations on the live agent-server count.
+   */
+  store?: OpenhandsKeyValueStore;
+  /** Key prefix in `store` (default: 'openhands:usage:') */
+  prefix?: string;
+}
+
+/**
+ * Action the agent is waiting to have approved
+ */
+export interface OpenhandsPendingAction {
+  /** ID of the ActionEvent */
+  eventId: string;
+  toolName: string;
+  toolCallId: string;
+  /** Tool arguments */
+  action: Record<string, unknown>;
+  /** Agent's reasoning for the action */
+  thought?: string;
+  securityRisk?: SecurityRisk;
+  timestamp: string;
+}
+
+/**
+ * Approve or reject the pending actions of a conversation
+ */
+export interface OpenhandsConfirmationDecision {
+  accept: boolean;
+  /** Reason shown to the agent when rejecting */
+  reason?: string;
+}
+
+/**
+ * Notification sent when a conversation starts waiting for confirmation
+ */
+export interface OpenhandsConfirmationNotice {
+  type: 'confirmation.waiting';
+  conversationId: string;
+  sandboxName?: string;
+  pending: OpenhandsPendingAction[];
+  /** ISO timestamp */
+  timestamp: string;
+}
+
+/**
+ * Options for watching a conversation for confirmation requests
+ */
+export interface OpenhandsConfirmationWatchOptions {
+  /** Sandbox name included in notices */
+  sandboxName?: string;
+  /** URL receiving each notice as a JSON POST */
+  webhook?: string;
+  /** Extra headers sent with webhook requests */
+  webhookHeaders?: Record<string, string>;
+  /** Called with each notice */
+  onWaiting?: (notice: OpenhandsConfirmationNotice) => void | Promise<void>;
+}
+
+/**
+ * Handle of a running confirmation watcher
+ */
+export interface OpenhandsConfirmationWatcher {
+  /** Resolves when the event socket closes */
+  closed: Promise<void>;
+  /** Stop watching */
+  close(): void;
+}
+
+/**
+ * Lifecycle events delivered to webhooks
+ */
+export type OpenhandsWebhookEventType =
+  | 'server.started'
+  | 'server.stopped'
+  | 'server.crashed'
+  | 'conversation.finished'
+  | 'conversation.error'
+  | 'conversation.waiting';
+
+/**
+ * JSON body of a webhook request
+ */
+export interface OpenhandsWebhookPayload {
+  /** Delivery ID, stable across retries */
+  id: string;
+  type: OpenhandsWebhookEventType;
+  /** ISO timestamp of the event */
+  timestamp: string;
+  sandboxName?: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Options for webhook delivery
+ */
+export interface OpenhandsWebhookOptions {
+  /** Endpoint receiving the JSON POSTs */
+  url: string;
+  /** Shared HMAC-SHA256 secret used to sign each payload */
+  secret: string;
+  /** Event types to deliver (default: all) */
+  events?: OpenhandsWebhookEventType[];
+  /** Extra headers sent with each request */
+  headers?: Record<string, string>;
+  /** Delivery attempts before giving up (default: 5) */
+  maxAttempts?: number;
+  /** Delay in ms before the first retry, doubled on each retry (default: 1000) */
+  initialBackoff?: number;
+  /** Upper bound for the retry delay in ms (default: 30000) */
+  maxBackoff?: number;
+  /**
+   * Extend the Worker's lifetime for deliveries (e.g. `ctx.waitUntil`),
+   * so lifecycle calls don't wait for retries. Deliveries are awaited otherwise.
+   */
+  waitUntil?: (promise: Promise<unknown>) => void;
+}
+
+/**
+ * Outcome of a webhook delivery
+ */
+export interface OpenhandsWebhookDelivery {
+  id: string;
+  type: OpenhandsWebhookEventType;
+  delivered: boolean;
+  attempts: number;
+  /** HTTP status of the last attempt */
+  status?: number;
+  /** Error of the last failed attempt */
+  error?: string;
+}
+
+/**
+ * Options for exposing a sandbox port as a preview URL
+ */
+export interface OpenhandsPreviewOptions {
+  /** Hostname the preview URL is built on (the Worker's host, e.g. `example.com` or `localhost:8787`) */
+  hostname: string;
+  /** Label reported when listing previews */
+  name?: string;
+  /**
+   * Revoke the preview after this many seconds. Enforced only when
+   * `revokeExpiredPreviews` runs (also on `listPreviews` and the preview
+   * routes); schedule it from a Cron Trigger, since visiting the URL doesn't
+   * check expiry.
+   */
+  expiresIn?: number;
+  /** Revoke an existing preview of the port first, so the URL gets a new token */
+  rotate?: boolean;
+}
+
+/**
+ * Port exposed as a preview URL
+ */
+export interface OpenhandsPreview {
+  port: number;
+  /** Preview URL, including the access token */
+  url: string;
+  name?: string;
+  status: 'active' | 'inactive';
+  /** ISO timestamp the preview was exposed, if exposed through `exposePreview` */
+  createdAt?: string;
+  /** ISO timestamp after which the preview is revoked */
+  expiresAt?: string;
+}
+
+/**
+ * Structured log sink. `fields` are JSON-serializable attributes.
+ */
+export interface OpenhandsLogger {
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+}
+
+/**
+ * Severity of a log entry
+ */
+export type OpenhandsLogLevel = keyof OpenhandsLogger;
+
+/**
+ * Span attribute value
+ */
+export type OpenhandsSpanAttributeValue = string | number | boolean;
+
+/**
+ * Timed operation reported to a tracer. A subset of the OpenTelemetry `Span`.
+ */
+export interface OpenhandsSpan {
+  setAttribute(key: string, value: OpenhandsSpanAttributeValue): unknown;
+  recordException(exception: Error | string): unknown;
+  /** `code` 1 is OK and 2 is ERROR, as in OpenTelemetry */
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * Creates spans. A subset of the OpenTelemetry `Tracer`, so a tracer from
+ * `@opentelemetry/api` can be passed as is.
+ */
+export interface OpenhandsTracer {
+  startSpan(
+    name: string,
+    options?: { attributes?: Record<string, OpenhandsSpanAttributeValue> }
+  ): OpenhandsSpan;
+}
+
+/**
+ * Logging, tracing and request correlation options
+ */
+export interface OpenhandsObservabilityOptions {
+  /** Structured logger (default: no-op; see `createJsonLogger`) */
+  logger?: OpenhandsLogger;
+  /** Tracer receiving spans for startup phases, routes and proxied requests (default: no-op) */
+  tracer?: OpenhandsTracer;
+  /** Request ID logged with every entry and sent to agent-server as `X-Request-ID` */
+  requestId?: string;
+}
+
+/**
+ * Options for reading agent-server output
+ */
+export interface OpenhandsLogsOptions {
+  /** Output to return (default: 'both') */
+  stream?: 'stdout' | 'stderr' | 'both';
+  /** Maximum lines returned per stream (default: 200) */
+  limit?: number;
+  /**
+   * Line offset to read from, e.g. `next` of the previous page.
+   * Without it, the last `limit` lines are returned.
+   */
+  since?: number;
+  /** Secret values to redact from the output (see `getOptionSecrets`) */
+  secrets?: string[];
+}
+
+/**
+ * Page of lines from one output stream
+ */
+export interface OpenhandsLogPage {
+  lines: string[];
+  /** Line offset of the first returned line */
+  offset: number;
+  /** Offset to pass as `since` for the following lines */
+  next: number;
+  /** Number of lines the stream has so far */
+  total: number;
+}
+
+/**
+ * Output of an agent-server process
+ */
+export interface OpenhandsServerLogs {
+  processId: string;
+  stdout?: OpenhandsLogPage;
+  stderr?: OpenhandsLogPage;
+}
+
+/**
+ * Options for tailing agent-server output
+ */
+export interface OpenhandsLogTailOptions {
+  /** Output to stream (default: 'both') */
+  stream?: 'stdout' | 'stderr' | 'both';
+  /** Secret values to redact from the output (see `getOptionSecrets`) */
+  secrets?: string[];
+  /** Interval in ms between `: ping` comments keeping the stream open (default: 15000, 0 disables) */
+  heartbeatInterval?: number;
+}
+
+/**
+ * Task for the agent to run to completion
+ */
+export interface OpenhandsTaskOptions {
+  /** Instructions sent as the first user message */
+  prompt: string;
+  /** Agent configuration (e.g. from `OpenhandsAgentConfigBuilder.build()`) */
+  agent: AgentConfig;
+  /** Workspace, or its working directory */
+  workspace: WorkspaceConfig | string;
+  /** Maximum agent iterations */
+  maxIterations?: number;
+  /** Confirmation policy (default: agent-server default, which never confirms) */
+  confirmationPolicy?: ConfirmationPolicy;
+  /** Conversation ID to use (generated by the agent-server if omitted) */
+  conversationId?: string;
+}
+
+/**
+ * Options for waiting on and summarizing a task
+ */
+export interface OpenhandsTaskResultOptions {
+  /** Time in ms `runTask` waits before pausing the task (default: 600000) */
+  timeout?: number;
+  /** Interval in ms between status polls (default: 2000) */
+  interval?: number;
+  /**
+   * Checked on every status poll; when it returns true, the conversation is
+   * paused and the result has status 'cancelled'
+   */
+  cancelled?: () => boolean | Promise<boolean>;
+  /**
+   * Collect git changes of the workspace, optionally from another directory
+   * or base commit (default: the workspace working directory). Pass false to skip.
+   */
+  changes?: false | { directory?: string; base?: string };
+  /** Only count LLMs with these usage IDs (default: all) */
+  usageIds?: string[];
+}
+
+/**
+ * Status of a task: the conversation status, 'timeout' when it was paused
+ * after its timeout, or 'cancelled' when it was paused on cancellation
+ */
+export type OpenhandsTaskStatus =
+  | ConversationExecutionStatus
+  | 'timeout'
+  | 'cancelled';
+
+/**
+ * Summary of the events of a task
+ */
+export interface OpenhandsTaskEventSummary {
+  total: number;
+  /** Event counts per kind */
+  byKind: Record<string, number>;
+  /** Tool call counts per tool name */
+  tools: Record<string, number>;
+  /** Messages of agent errors */
+  errors: string[];
+}
+
+/**
+ * Result of a task
+ */
+export interface OpenhandsTaskResult {
+  conversationId: string;
+  status: OpenhandsTaskStatus;
+  /** Whether the status is final (finished, error, stuck, waiting for confirmation, timeout or cancelled) */
+  done: boolean;
+  /** Text of the agent's last message (or its finish message) */
+  finalMessage?: string;
+  events: OpenhandsTaskEventSummary;
+  /** Changes in the workspace, if it is a git repository */
+  changes?: OpenhandsWorkspaceChanges;
+  usage: OpenhandsConversationUsage;
+}
+
+/**
+ * Status of a background job
+ */
+export type OpenhandsJobStatus =
+  | 'queued'
+  | 'running'
+  | 'finished'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * Task of a background job. The agent configuration is not stored with the
+ * job (it carries LLM keys); the consumer builds it when the job runs.
+ */
+export type OpenhandsJobTask = Omit<
+  OpenhandsTaskOptions,
+  'agent' | 'conversationId'
+>;
+
+/**
+ * Background job running a task in a sandbox
+ */
+export interface OpenhandsJob {
+  id: string;
+  /** Sandbox the task runs in */
+  sandboxName: string;
+  task: OpenhandsJobTask;
+  status: OpenhandsJobStatus;
+  /** Conversation of the task, once the job has started */
+  conversationId?: string;
+  /** Task result, once the job has ended */
+  result?: OpenhandsTaskResult;
+  /** Why the job failed */
+  error?: string;
+  /** Number of times a consumer picked up the job */
+  attempts: number;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+/**
+ * Queue message body referencing a job
+ */
+export interface OpenhandsJobMessage {
+  jobId: string;
+}
+
+/**
+ * Producer side of a queue, satisfied by a Cloudflare Queues binding
+ */
+export interface OpenhandsQueueSender {
+  send(message: OpenhandsJobMessage): Promise<unknown>;
+}
+
+/**
+ * Delivered queue message, a subset of Cloudflare's `Message`
+ */
+export interface OpenhandsQueueMessage {
+  readonly body: OpenhandsJobMessage;
+  ack(): void;
+  retry(): void;
+}
+
+/**
+ * Batch of delivered queue messages, a subset of Cloudflare's `MessageBatch`
+ */
+export interface OpenhandsQueueBatch {
+  readonly messages: readonly OpenhandsQueueMessage[];
+}
+
+/**
+ * Options for `OpenhandsJobQueue`
+ */
+export interface OpenhandsJobQueueOptions {
+  /** Queue the job messages are sent to */
+  queue: OpenhandsQueueSender;
+  /** Store holding the job records (Durable Object storage or Workers KV) */
+  store: OpenhandsKeyValueStore;
+  /** Key prefix of the job records (default: 'openhands:job:') */
+  prefix?: string;
+}
+
+/**
+ * Options for consuming job messages
+ */
+export interface OpenhandsJobConsumerOptions
+  extends Omit<OpenhandsTaskResultOptions, 'cancelled'> {
+  /** Sandbox of a job (e.g. `(name) => getSandbox(env.Sandbox, name)`) */
+  getSandbox: (sandboxName: string) => Sandbox<unknown>;
+  /** Agent configuration for a job */
+  agent: (job: OpenhandsJob) => AgentConfig | Promise<AgentConfig>;
+  /** Server options for the job's sandbox */
+  server?:
+    | OpenhandsOptions
+    | ((job: OpenhandsJob) => OpenhandsOptions | Promise<OpenhandsOptions>);
+  /** Attempts before a job that keeps throwing is marked failed (default: 3) */
+  maxAttempts?: number;
+  /**
+   * Usage options with the sandbox budgets: a job whose sandbox is over
+   * budget fails instead of starting its conversation
+   */
+  usage?: OpenhandsUsageOptions;
+}
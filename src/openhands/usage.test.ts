@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'bun:test';
+import { FakeSandbox, MemoryKeyValueStore } from '../testing';
+import { OpenhandsClient } from './client';
+import { OpenhandsBudgetExceededError } from './errors';
+import { createOpenhandsServer } from './openhands';
+import { startTask } from './tasks';
+import type { AgentConfig, OpenhandsUsageOptions } from './types';
+import { assertWithinBudget, collectUsage } from './usage';
+
+const AGENT: AgentConfig = {
+  kind: 'Agent',
+  llm: { model: 'test-model', usage_id: 'agent' },
+};
+
+/**
+ * Sandbox whose agent replies 'Done' at $1 per character, with a running
+ * agent-server
+ */
+async function setup() {
+  const sandbox = new FakeSandbox({
+    agentServer: { reply: () => 'Done', costPerToken: 1 },
+  }).asSandbox();
+  const server = await createOpenhandsServer(sandbox);
+  const runTask = () =>
+    startTask(sandbox, server, {
+      prompt: 'Say hi',
+      agent: AGENT,
+      workspace: '/workspace',
+    });
+  return { sandbox, server, runTask };
+}
+
+describe('collectUsage', () => {
+  test('totals the conversations on the agent-server', async () => {
+    const { sandbox, server, runTask } = await setup();
+    await runTask();
+    await runTask();
+
+    const report = await collectUsage(sandbox, server, 'test');
+
+    expect(report.conversations).toHaveLength(2);
+    expect(report.total.cost).toBe(
+      report.conversations[0]!.cost + report.conversations[1]!.cost
+    );
+    expect(report.total.cost).toBeGreaterThan(0);
+  });
+
+  test('keeps the usage of deleted conversations in the store', async () => {
+    const { sandbox, server, runTask } = await setup();
+    const options: OpenhandsUsageOptions = { store: new MemoryKeyValueStore() };
+    const conversationId = await runTask();
+    const before = await collectUsage(sandbox, server, 'test', options);
+
+    await new OpenhandsClient(sandbox, server).deleteConversation(
+      conversationId
+    );
+    const after = await collectUsage(sandbox, server, 'test', options);
+
+    expect(after.conversations).toHaveLength(0);
+    expect(after.total).toEqual(before.total);
+  });
+});
+
+describe('assertWithinBudget', () => {
+  test('passes under budget and throws once it is reached', async () => {
+    const { sandbox, server, runTask } = await setup();
+    const options: OpenhandsUsageOptions = { budget: { maxCost: 1 } };
+
+    await assertWithinBudget(sandbox, server, 'test', options);
+    await runTask();
+    const error = await assertWithinBudget(
+      sandbox,
+      server,
+      'test',
+      options
+    ).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(OpenhandsBudgetExceededError);
+    expect((error as OpenhandsBudgetExceededError).context).toMatchObject({
+      sandboxName: 'test',
+      maxCost: 1,
+    });
+  });
+
+  test('checks recorded totals when no server is running', async () => {
+    const { sandbox, server, runTask } = await setup();
+    const options: OpenhandsUsageOptions = {
+      budget: (name) => (name === 'test' ? { maxCost: 1 } : undefined),
+      store: new MemoryKeyValueStore(),
+    };
+    await runTask();
+    await collectUsage(sandbox, server, 'test', options);
+
+    await expect(
+      assertWithinBudget(sandbox, null, 'test', options)
+    ).rejects.toBeInstanceOf(OpenhandsBudgetExceededError);
+    await assertWithinBudget(sandbox, null, 'other', options);
+  });
+});
@@ -0,0 +1,297 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type {
+  ConversationInfo,
+  LLMMetrics,
+  OpenhandsBudget,
+  OpenhandsConversationUsage,
+  OpenhandsKeyValueStore,
+  OpenhandsServer,
+  OpenhandsUsage,
+  OpenhandsUsageOptions,
+  OpenhandsUsageReport,
+} from './types';
+import { OpenhandsClient } from './client';
+import { OpenhandsBudgetExceededError } from './errors';
+
+/**
+ * Usage with every counter at zero
+ */
+function emptyUsage(): OpenhandsUsage {
+  return {
+    promptTokens: 0,
+    completionTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    reasoningTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+  };
+}
+
+/**
+ * Add `usage` into `total`
+ */
+function addUsage(total: OpenhandsUsage, usage: OpenhandsUsage): void {
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+  total.cacheReadTokens += usage.cacheReadTokens;
+  total.cacheWriteTokens += usage.cacheWriteTokens;
+  total.reasoningTokens += usage.reasoningTokens;
+  total.totalTokens += usage.totalTokens;
+  total.cost += usage.cost;
+}
+
+/**
+ * Convert agent-server LLM metrics into usage totals
+ */
+function metricsToUsage(metrics: LLMMetrics): OpenhandsUsage {
+  const tokens = metrics.accumulated_token_usage ?? {};
+  const promptTokens = tokens.prompt_tokens ?? 0;
+  const completionTokens = tokens.completion_tokens ?? 0;
+  return {
+    promptTokens,
+    completionTokens,
+    cacheReadTokens: tokens.cache_read_tokens ?? 0,
+    cacheWriteTokens: tokens.cache_write_tokens ?? 0,
+    reasoningTokens: tokens.reasoning_tokens ?? 0,
+    totalTokens: promptTokens + completionTokens,
+    cost: metrics.accumulated_cost ?? 0,
+  };
+}
+
+/**
+ * Compute the usage of a conversation from its agent-server stats.
+ *
+ * @param conversation - Conversation returned by the agent-server
+ * @param usageIds - Only count LLMs with these usage IDs (default: all)
+ */
+export function getConversationUsage(
+  conversation: ConversationInfo,
+  usageIds?: string[]
+): OpenhandsConversationUsage {
+  const usage: OpenhandsConversationUsage = {
+    conversationId: conversation.id,
+    executionStatus: conversation.execution_status,
+    ...emptyUsage(),
+    byUsageId: {},
+  };
+
+  const metrics = conversation.stats?.usage_to_metrics ?? {};
+  for (const [usageId, llmMetrics] of Object.entries(metrics)) {
+    if (usageIds && !usageIds.includes(usageId)) {
+      continue;
+    }
+    const llmUsage = metricsToUsage(llmMetrics);
+    usage.byUsageId[usageId] = {
+      ...llmUsage,
+      model:
+        llmMetrics.model_name ??
+        llmMetrics.accumulated_token_usage?.model ??
+        undefined,
+    };
+    addUsage(usage, llmUsage);
+  }
+  return usage;
+}
+
+/**
+ * Budget of a sandbox, if any
+ */
+function getBudget(
+  options: OpenhandsUsageOptions,
+  sandboxName: string
+): OpenhandsBudget | undefined {
+  return typeof options.budget === 'function'
+    ? options.budget(sandboxName)
+    : options.budget;
+}
+
+/**
+ * Store and key of a sandbox's recorded usage, if a store is configured
+ */
+function getUsageRecord(
+  options: OpenhandsUsageOptions,
+  sandboxName: string
+): { store: OpenhandsKeyValueStore; key: string } | undefined {
+  return options.store
+    ? {
+        store: options.store,
+        key: `${options.prefix ?? 'openhands:usage:'}${sandboxName}`,
+      }
+    : undefined;
+}
+
+/**
+ * Usage of every conversation recorded for a sandbox, by conversation ID
+ */
+async function readUsageRecord(record: {
+  store: OpenhandsKeyValueStore;
+  key: string;
+}): Promise<Record<string, OpenhandsUsage>> {
+  const value = await record.store.get(record.key);
+  return value ? (JSON.parse(value) as Record<string, OpenhandsUsage>) : {};
+}
+
+/**
+ * Sum of a set of usages
+ */
+function sumUsage(usages: OpenhandsUsage[]): OpenhandsUsage {
+  const total = emptyUsage();
+  for (const usage of usages) {
+    addUsage(total, usage);
+  }
+  return total;
+}
+
+/**
+ * Whether usage reached a budget limit
+ */
+function isBudgetExceeded(
+  usage: OpenhandsUsage,
+  budget: OpenhandsBudget
+): boolean {
+  return (
+    (budget.maxCost !== undefined && usage.cost >= budget.maxCost) ||
+    (budget.maxTokens !== undefined && usage.totalTokens >= budget.maxTokens)
+  );
+}
+
+/**
+ * Collect token and cost usage of every conversation on an agent-server.
+ *
+ * Usage is aggregated per conversation and for the whole sandbox. With a
+ * `store`, each conversation's usage is recorded there and the sandbox
+ * totals also count recorded conversations the agent-server no longer has.
+ * When a budget is configured and the sandbox totals reach it, running
+ * conversations are paused. The report is then passed to `onUsage`; errors
+ * thrown by the hook are ignored so a failing analytics sink doesn't block
+ * metering or budget enforcement.
+ *
+ * @param sandbox - The Sandbox instance running agent-server
+ * @param server - The agent-server handle
+ * @param sandboxName - Name of the sandbox, reported and passed to the budget function
+ * @param options - Metering options
+ * @returns The usage report
+ *
+ * @example
+ * ```typescript
+ * const report = await collectUsage(sandbox, server, 'team-a', {
+ *   budget: { maxCost: 25 },
+ *   onUsage: (report) => env.ANALYTICS.writeDataPoint({
+ *     indexes: [report.sandboxName],
+ *     doubles: [report.total.cost, report.total.totalTokens],
+ *   }),
+ * })
+ * ```
+ */
+export async function collectUsage(
+  sandbox: Sandbox<unknown>,
+  server: OpenhandsServer,
+  sandboxName: string,
+  options: OpenhandsUsageOptions = {}
+): Promise<OpenhandsUsageReport> {
+  const client = new OpenhandsClient(sandbox, server);
+  const conversations: OpenhandsConversationUsage[] = [];
+
+  let pageId: string | undefined;
+  do {
+    const page = await client.listConversations({ pageId });
+    for (const conversation of page.items) {
+      conversations.push(getConversationUsage(conversation, options.usageIds));
+    }
+    pageId = page.next_page_id ?? undefined;
+  } while (pageId);
+
+  let total = sumUsage(conversations);
+  const record = getUsageRecord(options, sandboxName);
+  if (record) {
+    const recorded = await readUsageRecord(record);
+    const previous = JSON.stringify(recorded);
+    for (const usage of conversations) {
+      // Totals only; per-LLM breakdowns stay in the live report
+      recorded[usage.conversationId] = sumUsage([usage]);
+    }
+    if (JSON.stringify(recorded) !== previous) {
+      await record.store.put(record.key, JSON.stringify(recorded));
+    }
+    total = sumUsage(Object.values(recorded));
+  }
+
+  const budget = getBudget(options, sandboxName);
+  const exceeded = budget ? isBudgetExceeded(total, budget) : false;
+
+  const pausedConversations: string[] = [];
+  if (exceeded) {
+    for (const conversation of conversations) {
+      if (conversation.executionStatus === 'running') {
+        await client.pauseConversation(conversation.conversationId);
+        conversation.executionStatus = 'paused';
+        pausedConversations.push(conversation.conversationId);
+      }
+    }
+  }
+
+  const report: OpenhandsUsageReport = {
+    sandboxName,
+    collectedAt: new Date().toISOString(),
+    total,
+    conversations,
+    budget: budget ? { ...budget, exceeded } : undefined,
+    pausedConversations,
+  };
+
+  try {
+    await options.onUsage?.(report);
+  } catch {
+    // The hook is best-effort
+  }
+  return report;
+}
+
+/**
+ * Refuse to start work on a sandbox whose usage reached its budget. With a
+ * running agent-server, usage is collected first (see `collectUsage`);
+ * without one, the totals recorded in the usage `store` are checked.
+ * Sandboxes without a budget, or without a server and a store, pass.
+ *
+ * @param sandbox - The Sandbox instance running agent-server
+ * @param server - The agent-server handle, or null if none is running
+ * @param sandboxName - Name of the sandbox, passed to the budget function
+ * @param options - Metering options
+ * @throws OpenhandsBudgetExceededError if the budget is exceeded
+ */
+export async function assertWithinBudget(
+  sandbox: Sandbox<unknown>,
+  server: OpenhandsServer | null,
+  sandboxName: string,
+  options: OpenhandsUsageOptions
+): Promise<void> {
+  const budget = getBudget(options, sandboxName);
+  if (!budget) {
+    return;
+  }
+
+  let total: OpenhandsUsage;
+  if (server) {
+    total = (await collectUsage(sandbox, server, sandboxName, options)).total;
+  } else {
+    const record = getUsageRecord(options, sandboxName);
+    if (!record) {
+      return;
+    }
+    total = sumUsage(Object.values(await readUsageRecord(record)));
+  }
+
+  if (isBudgetExceeded(total, budget)) {
+    throw new OpenhandsBudgetExceededError(
+      `Sandbox ${sandboxName} has reached its usage budget`,
+      {
+        sandboxName,
+        maxCost: budget.maxCost,
+        maxTokens: budget.maxTokens,
+        cost: total.cost,
+        totalTokens: total.totalTokens,
+      }
+    );
+  }
+}
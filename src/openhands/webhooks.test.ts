@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { FakeSandbox } from '../testing';
+import { createOpenhandsServer } from './openhands';
+import { startTask } from './tasks';
+import type { OpenhandsWebhookOptions } from './types';
+import {
+  checkConversationTransitions,
+  OpenhandsWebhookDispatcher,
+  signOpenhandsWebhook,
+  verifyOpenhandsWebhook,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+} from './webhooks';
+
+const WEBHOOK_URL = 'https://hooks.example.com/openhands';
+const SECRET = 'webhook-secret';
+
+describe('webhooks', () => {
+  const originalFetch = globalThis.fetch;
+  let received: Request[];
+  let respond: (attempt: number) => Response | Promise<Response>;
+
+  const webhooks = (
+    options: Partial<OpenhandsWebhookOptions> = {}
+  ): OpenhandsWebhookOptions => ({
+    url: WEBHOOK_URL,
+    secret: SECRET,
+    initialBackoff: 1,
+    ...options,
+  });
+
+  beforeEach(() => {
+    received = [];
+    respond = () => new Response(null, { status: 204 });
+    globalThis.fetch = (async (
+      input: string | URL | Request,
+      init?: RequestInit
+    ) => {
+      received.push(new Request(String(input), init));
+      return respond(received.length);
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  describe('signing', () => {
+    test('deliveries verify with the shared secret', async () => {
+      await new OpenhandsWebhookDispatcher(webhooks()).dispatch(
+        'server.started',
+        { port: 8001 },
+        'team-a'
+      );
+
+      expect(received).toHaveLength(1);
+      expect(await verifyOpenhandsWebhook(received[0]!, SECRET)).toMatchObject({
+        type: 'server.started',
+        sandboxName: 'team-a',
+        data: { port: 8001 },
+      });
+    });
+
+    test('rejects another secret, a changed body and an old signature', async () => {
+      const body = JSON.stringify({ type: 'server.started' });
+      const request = (signature: string, content = body) =>
+        new Request(WEBHOOK_URL, {
+          method: 'POST',
+          headers: { [WEBHOOK_SIGNATURE_HEADER]: signature },
+          body: content,
+        });
+
+      expect(
+        await verifyOpenhandsWebhook(
+          request(await signOpenhandsWebhook(body, 'other-secret')),
+          SECRET
+        )
+      ).toBeNull();
+      expect(
+        await verifyOpenhandsWebhook(
+          request(await signOpenhandsWebhook(body, SECRET), `${body} `),
+          SECRET
+        )
+      ).toBeNull();
+      const old = Math.floor(Date.now() / 1000) - 600;
+      expect(
+        await verifyOpenhandsWebhook(
+          request(await signOpenhandsWebhook(body, SECRET, old)),
+          SECRET
+        )
+      ).toBeNull();
+      expect(
+        await verifyOpenhandsWebhook(request('v1=deadbeef'), SECRET)
+      ).toBeNull();
+    });
+  });
+
+  describe('retries', () => {
+    test('retries server errors with the same delivery ID', async () => {
+      respond = (attempt) =>
+        new Response(null, { status: attempt < 3 ? 503 : 200 });
+
+      const delivery = await new OpenhandsWebhookDispatcher(
+        webhooks()
+      ).dispatch('server.crashed', {});
+
+      expect(delivery).toMatchObject({
+        delivered: true,
+        attempts: 3,
+        status: 200,
+      });
+      const ids = received.map((request) =>
+        request.headers.get(WEBHOOK_DELIVERY_HEADER)
+      );
+      expect(new Set(ids).size).toBe(1);
+      expect(ids[0]).toBe(delivery!.id);
+    });
+
+    test('does not retry client errors', async () => {
+      respond = () => new Response(null, { status: 400 });
+
+      const delivery = await new OpenhandsWebhookDispatcher(
+        webhooks()
+      ).dispatch('server.crashed', {});
+
+      expect(delivery).toMatchObject({
+        delivered: false,
+        attempts: 1,
+        status: 400,
+      });
+    });
+
+    test('gives up after maxAttempts network errors', async () => {
+      respond = () => {
+        throw new Error('connection refused');
+      };
+
+      const delivery = await new OpenhandsWebhookDispatcher(
+        webhooks({ maxAttempts: 3 })
+      ).dispatch('server.crashed', {});
+
+      expect(delivery).toMatchObject({
+        delivered: false,
+        attempts: 3,
+        error: 'connection refused',
+      });
+    });
+
+    test('skips event types outside the filter', async () => {
+      const delivery = await new OpenhandsWebhookDispatcher(
+        webhooks({ events: ['server.crashed'] })
+      ).dispatch('server.started', {});
+
+      expect(delivery).toBeNull();
+      expect(received).toHaveLength(0);
+    });
+  });
+
+  describe('checkConversationTransitions', () => {
+    test('emits each transition once', async () => {
+      const sandbox = new FakeSandbox({
+        agentServer: { reply: () => 'Done' },
+      }).asSandbox();
+      const server = await createOpenhandsServer(sandbox);
+      const conversationId = await startTask(sandbox, server, {
+        prompt: 'Say hi',
+        agent: { kind: 'Agent', llm: { model: 'test-model', usage_id: 'a' } },
+        workspace: '/workspace',
+      });
+      const options = { webhooks: webhooks(), sandboxName: 'team-a' };
+
+      expect(
+        await checkConversationTransitions(sandbox, server, options)
+      ).toEqual([conversationId]);
+      expect(
+        await checkConversationTransitions(sandbox, server, options)
+      ).toEqual([]);
+
+      expect(received).toHaveLength(1);
+      expect(await verifyOpenhandsWebhook(received[0]!, SECRET)).toMatchObject({
+        type: 'conversation.finished',
+        data: { conversationId, status: 'finished' },
+      });
+    });
+  });
+});
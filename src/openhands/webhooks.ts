@@ -0,0 +1,371 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type {
+  ConversationExecutionStatus,
+  OpenhandsOptions,
+  OpenhandsServer,
+  OpenhandsWebhookDelivery,
+  OpenhandsWebhookEventType,
+  OpenhandsWebhookOptions,
+  OpenhandsWebhookPayload,
+} from './types';
+import { OpenhandsClient } from './client';
+import { createSandboxLock, readSandboxLock, removeSandboxLock } from './lock';
+import { hmacSha256Hex, timingSafeEqual } from '../utils/crypto';
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_INITIAL_BACKOFF = 1_000;
+const DEFAULT_MAX_BACKOFF = 30_000;
+const DEFAULT_TOLERANCE = 300;
+/** A transition check running longer than this is assumed abandoned */
+const CHECK_LOCK_TIMEOUT = 60_000;
+
+/**
+ * Header carrying `t={unix seconds},v1={hex HMAC-SHA256 of "{t}.{body}"}`
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Openhands-Signature';
+
+/**
+ * Header carrying the event type
+ */
+export const WEBHOOK_EVENT_HEADER = 'X-Openhands-Event';
+
+/**
+ * Header carrying the delivery ID, for deduplicating retries
+ */
+export const WEBHOOK_DELIVERY_HEADER = 'X-Openhands-Delivery';
+
+/**
+ * Webhook event emitted when a conversation enters each status
+ */
+const CONVERSATION_EVENTS: Partial<
+  Record<ConversationExecutionStatus, OpenhandsWebhookEventType>
+> = {
+  finished: 'conversation.finished',
+  error: 'conversation.error',
+  stuck: 'conversation.error',
+  waiting_for_confirmation: 'conversation.waiting',
+};
+
+/**
+ * Sign a webhook body.
+ *
+ * @param body - Raw JSON body
+ * @param secret - Shared HMAC-SHA256 secret
+ * @param timestamp - Unix seconds (default: now)
+ * @returns Value of the `X-Openhands-Signature` header
+ */
+export async function signOpenhandsWebhook(
+  body: string,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  const signature = await hmacSha256Hex(secret, `${timestamp}.${body}`);
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Verify a webhook request received from the SDK and parse its payload.
+ *
+ * @param request - Incoming webhook request (its body is consumed)
+ * @param secret - Shared HMAC-SHA256 secret
+ * @param options.tolerance - Maximum age of the signature in seconds (default: 300)
+ * @returns The payload, or null if the signature is missing, invalid or expired
+ *
+ * @example
+ * ```typescript
+ * const payload = await verifyOpenhandsWebhook(request, env.WEBHOOK_SECRET)
+ * if (!payload) {
+ *   return new Response('Invalid signature', { status: 401 })
+ * }
+ * ```
+ */
+export async function verifyOpenhandsWebhook(
+  request: Request,
+  secret: string,
+  options: { tolerance?: number } = {}
+): Promise<OpenhandsWebhookPayload | null> {
+  const header = request.headers.get(WEBHOOK_SIGNATURE_HEADER);
+  const match = header ? /^t=(\d+),v1=([0-9a-f]+)$/.exec(header) : null;
+  if (!match) {
+    return null;
+  }
+  const timestamp = Number(match[1]);
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  if (Math.abs(Date.now() / 1000 - timestamp) > tolerance) {
+    return null;
+  }
+
+  const body = await request.text();
+  const expected = await signOpenhandsWebhook(body, secret, timestamp);
+  if (!timingSafeEqual(header!, expected)) {
+    return null;
+  }
+  try {
+    return JSON.parse(body) as OpenhandsWebhookPayload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a failed delivery is worth retrying
+ */
+function isRetryable(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Delivers signed lifecycle notifications to a webhook endpoint, retrying
+ * failed deliveries with exponential backoff.
+ *
+ * Usually configured through the `webhooks` server or handler option, which
+ * makes `createOpenhandsServer`, `close()`, the supervisor and
+ * `checkConversationTransitions` emit events.
+ *
+ * @example
+ * ```typescript
+ * const webhooks = new OpenhandsWebhookDispatcher({
+ *   url: 'https://example.com/hooks/openhands',
+ *   secret: env.WEBHOOK_SECRET,
+ *   events: ['server.crashed', 'conversation.finished'],
+ * })
+ * await webhooks.dispatch('conversation.finished', { conversationId }, 'team-a')
+ * ```
+ */
+export class OpenhandsWebhookDispatcher {
+  private readonly options: OpenhandsWebhookOptions;
+
+  constructor(options: OpenhandsWebhookOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Whether an event type passes the `events` filter
+   */
+  accepts(type: OpenhandsWebhookEventType): boolean {
+    return !this.options.events || this.options.events.includes(type);
+  }
+
+  /**
+   * Deliver an event and wait for the outcome, including retries.
+   * Returns null if the event type is filtered out.
+   *
+   * @param deliveryId - ID sent as `X-Openhands-Delivery` (default: random);
+   * pass the same ID for the same occurrence so receivers can deduplicate
+   */
+  async dispatch(
+    type: OpenhandsWebhookEventType,
+    data: Record<string, unknown>,
+    sandboxName?: string,
+    deliveryId: string = crypto.randomUUID()
+  ): Promise<OpenhandsWebhookDelivery | null> {
+    if (!this.accepts(type)) {
+      return null;
+    }
+
+    const payload: OpenhandsWebhookPayload = {
+      id: deliveryId,
+      type,
+      timestamp: new Date().toISOString(),
+      sandboxName,
+      data,
+    };
+    const body = JSON.stringify(payload);
+    const maxAttempts = this.options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    const initialBackoff =
+      this.options.initialBackoff ?? DEFAULT_INITIAL_BACKOFF;
+    const maxBackoff = this.options.maxBackoff ?? DEFAULT_MAX_BACKOFF;
+    const delivery: OpenhandsWebhookDelivery = {
+      id: payload.id,
+      type,
+      delivered: false,
+      attempts: 0,
+    };
+
+    while (delivery.attempts < maxAttempts) {
+      if (delivery.attempts > 0) {
+        const backoff = Math.min(
+          initialBackoff * 2 ** (delivery.attempts - 1),
+          maxBackoff
+        );
+        await new Promise((resolve) => setTimeout(resolve, backoff));
+      }
+      delivery.attempts += 1;
+
+      try {
+        const response = await fetch(this.options.url, {
+          method: 'POST',
+          headers: {
+            ...this.options.headers,
+            'Content-Type': 'application/json',
+            [WEBHOOK_SIGNATURE_HEADER]: await signOpenhandsWebhook(
+              body,
+              this.options.secret
+            ),
+            [WEBHOOK_EVENT_HEADER]: type,
+            [WEBHOOK_DELIVERY_HEADER]: payload.id,
+          },
+          body,
+        });
+        delivery.status = response.status;
+        if (response.ok) {
+          delivery.delivered = true;
+          delivery.error = undefined;
+          return delivery;
+        }
+        delivery.error = `webhook responded with status ${response.status}`;
+        if (!isRetryable(response.status)) {
+          return delivery;
+        }
+      } catch (error) {
+        delivery.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+    return delivery;
+  }
+
+  /**
+   * Deliver an event without failing the caller. With `waitUntil`, the
+   * delivery continues in the background; otherwise it is awaited.
+   */
+  async emit(
+    type: OpenhandsWebhookEventType,
+    data: Record<string, unknown>,
+    sandboxName?: string,
+    deliveryId?: string
+  ): Promise<void> {
+    const delivery = this.dispatch(type, data, sandboxName, deliveryId).catch(
+      () => null
+    );
+    if (this.options.waitUntil) {
+      this.options.waitUntil(delivery);
+      return;
+    }
+    await delivery;
+  }
+}
+
+/**
+ * Emit a lifecycle event if the options configure webhooks
+ */
+export async function emitOpenhandsWebhook(
+  options: Pick<OpenhandsOptions, 'webhooks' | 'sandboxName'>,
+  type: OpenhandsWebhookEventType,
+  data: Record<string, unknown>,
+  deliveryId?: string
+): Promise<void> {
+  if (options.webhooks) {
+    await new OpenhandsWebhookDispatcher(options.webhooks).emit(
+      type,
+      data,
+      options.sandboxName,
+      deliveryId
+    );
+  }
+}
+
+/**
+ * Take the lock of a transition check, unless another check holds it.
+ * A lock older than CHECK_LOCK_TIMEOUT was left by a check that died.
+ */
+async function lockTransitionCheck(
+  sandbox: Sandbox<unknown>,
+  lockPath: string
+): Promise<boolean> {
+  const owner = String(Date.now());
+  if (await createSandboxLock(sandbox, lockPath, owner)) {
+    return true;
+  }
+  const lockedAt = Number(await readSandboxLock(sandbox, lockPath));
+  if (Date.now() - lockedAt < CHECK_LOCK_TIMEOUT) {
+    return false;
+  }
+  await removeSandboxLock(sandbox, lockPath);
+  return createSandboxLock(sandbox, lockPath, owner);
+}
+
+/**
+ * Compare conversation statuses with the ones recorded at the previous check
+ * and emit `conversation.finished`, `conversation.error` (error or stuck) and
+ * `conversation.waiting` (waiting for confirmation) for each transition.
+ *
+ * Statuses are recorded in the sandbox, so any request, Cron Trigger or the
+ * supervisor can run the check; the first check reports conversations that
+ * already are in one of those states. Checks are serialized with a lock file,
+ * and a check that finds another one running returns right away, so
+ * concurrent polls don't emit a transition twice. Each transition's delivery
+ * ID is derived from the conversation, status and update time.
+ *
+ * @param sandbox - The Sandbox instance running agent-server
+ * @param server - The agent-server handle
+ * @param options - Server options with `webhooks` (and `sandboxName`)
+ * @param statePath - File recording statuses (default: /container-server/openhands-conversations-{port}.json)
+ * @returns IDs of conversations whose transition was emitted
+ */
+export async function checkConversationTransitions(
+  sandbox: Sandbox<unknown>,
+  server: OpenhandsServer,
+  options: Pick<OpenhandsOptions, 'webhooks' | 'sandboxName'>,
+  statePath = `/container-server/openhands-conversations-${server.port}.json`
+): Promise<string[]> {
+  const lockPath = `${statePath}.lock`;
+  if (!(await lockTransitionCheck(sandbox, lockPath))) {
+    return [];
+  }
+
+  const events: Array<{
+    type: OpenhandsWebhookEventType;
+    data: Record<string, unknown>;
+    deliveryId: string;
+  }> = [];
+  const transitioned: string[] = [];
+  try {
+    let previous: Record<string, ConversationExecutionStatus> = {};
+    try {
+      previous = JSON.parse((await sandbox.readFile(statePath)).content);
+    } catch {
+      // First check
+    }
+
+    const client = new OpenhandsClient(sandbox, server);
+    const current: Record<string, ConversationExecutionStatus> = {};
+
+    let pageId: string | undefined;
+    do {
+      const page = await client.listConversations({ pageId });
+      for (const conversation of page.items) {
+        const status = conversation.execution_status;
+        current[conversation.id] = status;
+        const type = CONVERSATION_EVENTS[status];
+        if (!type || previous[conversation.id] === status) {
+          continue;
+        }
+        events.push({
+          type,
+          data: {
+            conversationId: conversation.id,
+            title: conversation.title ?? undefined,
+            status,
+            previousStatus: previous[conversation.id],
+          },
+          deliveryId: `${conversation.id}:${status}:${conversation.updated_at ?? ''}`,
+        });
+        transitioned.push(conversation.id);
+      }
+      pageId = page.next_page_id ?? undefined;
+    } while (pageId);
+
+    await sandbox.writeFile(statePath, JSON.stringify(current));
+  } finally {
+    await removeSandboxLock(sandbox, lockPath);
+  }
+
+  // Emitted concurrently once recorded; with `waitUntil` these return
+  // immediately
+  await Promise.all(
+    events.map(({ type, data, deliveryId }) =>
+      emitOpenhandsWebhook(options, type, data, deliveryId)
+    )
+  );
+  return transitioned;
+}
@@ -0,0 +1,136 @@
+import { describe, expect, test } from 'bun:test';
+import { FakeSandbox } from '../testing';
+import {
+  OpenhandsInvalidRequestError,
+  OpenhandsNotFoundError,
+  OpenhandsWorkspaceError,
+} from './errors';
+import {
+  archiveWorkspace,
+  deleteWorkspaceFile,
+  listWorkspaceFiles,
+  readWorkspaceFile,
+  resolveWorkspacePath,
+  writeWorkspaceFile,
+} from './workspace';
+
+/**
+ * Fake sandbox where `/workspace/link` is a symlink to `target`
+ */
+function sandboxWithSymlink(target: string) {
+  return new FakeSandbox({
+    onExec: (command) =>
+      command.startsWith('realpath -m -- ')
+        ? {
+            stdout: command
+              .slice('realpath -m -- '.length)
+              .split(' ')
+              .map((path) => path.replace('/workspace/link', target) + '\n')
+              .join(''),
+          }
+        : undefined,
+  }).asSandbox();
+}
+
+describe('resolveWorkspacePath', () => {
+  test('resolves paths inside the root', () => {
+    expect(resolveWorkspacePath('src/../README.md')).toBe(
+      '/workspace/README.md'
+    );
+    expect(resolveWorkspacePath('/src', '/workspace/app/')).toBe(
+      '/workspace/app/src'
+    );
+    expect(resolveWorkspacePath('')).toBe('/workspace');
+  });
+
+  test('rejects paths that escape the root', () => {
+    expect(() => resolveWorkspacePath('../etc/passwd')).toThrow(
+      OpenhandsInvalidRequestError
+    );
+    expect(() => resolveWorkspacePath('src/../../etc')).toThrow(
+      OpenhandsInvalidRequestError
+    );
+    expect(() => resolveWorkspacePath('a\0b')).toThrow(
+      OpenhandsInvalidRequestError
+    );
+  });
+});
+
+describe('workspace files', () => {
+  test('writes, lists and reads files', async () => {
+    const sandbox = new FakeSandbox().asSandbox();
+
+    await writeWorkspaceFile(sandbox, 'src/index.ts', 'export {};');
+
+    const entries = await listWorkspaceFiles(sandbox, 'src');
+    expect(entries.map((entry) => entry.path)).toEqual(['src/index.ts']);
+    const file = await readWorkspaceFile(sandbox, 'src/index.ts');
+    expect(file).toMatchObject({ path: 'src/index.ts', content: 'export {};' });
+  });
+
+  test('rejects symlinks that point outside the root', async () => {
+    const sandbox = sandboxWithSymlink('/etc');
+
+    await expect(
+      readWorkspaceFile(sandbox, 'link/passwd')
+    ).rejects.toBeInstanceOf(OpenhandsInvalidRequestError);
+    await expect(
+      writeWorkspaceFile(sandbox, 'link/passwd', 'x')
+    ).rejects.toBeInstanceOf(OpenhandsInvalidRequestError);
+    await expect(
+      deleteWorkspaceFile(sandbox, 'link', { recursive: true })
+    ).rejects.toBeInstanceOf(OpenhandsInvalidRequestError);
+  });
+
+  test('follows symlinks that stay inside the root', async () => {
+    const sandbox = sandboxWithSymlink('/workspace/real');
+    await writeWorkspaceFile(sandbox, 'link/file.txt', 'hi');
+
+    expect((await readWorkspaceFile(sandbox, 'link/file.txt')).content).toBe(
+      'hi'
+    );
+  });
+
+  test('refuses to delete the root', async () => {
+    const sandbox = new FakeSandbox().asSandbox();
+
+    await expect(
+      deleteWorkspaceFile(sandbox, '', { recursive: true })
+    ).rejects.toBeInstanceOf(OpenhandsInvalidRequestError);
+  });
+
+  test('throws OpenhandsNotFoundError for missing paths', async () => {
+    const sandbox = new FakeSandbox().asSandbox();
+
+    await expect(
+      deleteWorkspaceFile(sandbox, 'missing.txt')
+    ).rejects.toBeInstanceOf(OpenhandsNotFoundError);
+    await expect(
+      archiveWorkspace(sandbox, { path: 'missing' })
+    ).rejects.toBeInstanceOf(OpenhandsNotFoundError);
+  });
+
+  test('throws OpenhandsWorkspaceError when a command fails', async () => {
+    const fake = new FakeSandbox({
+      onExec: (command) =>
+        command.startsWith('rm -rf') || command.startsWith('tar')
+          ? { exitCode: 1, stderr: 'Permission denied' }
+          : undefined,
+    });
+    const sandbox = fake.asSandbox();
+    await writeWorkspaceFile(sandbox, 'src/index.ts', 'export {};');
+
+    const deleted = await deleteWorkspaceFile(sandbox, 'src', {
+      recursive: true,
+    }).catch((error: unknown) => error);
+    expect(deleted).toBeInstanceOf(OpenhandsWorkspaceError);
+    expect((deleted as OpenhandsWorkspaceError).context).toMatchObject({
+      path: 'src',
+      exitCode: 1,
+      stderr: 'Permission denied',
+    });
+    await expect(
+      archiveWorkspace(sandbox, { path: 'src' })
+    ).rejects.toBeInstanceOf(OpenhandsWorkspaceError);
+  });
+});
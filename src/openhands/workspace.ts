@@ -0,0 +1,357 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type {
+  OpenhandsArchiveOptions,
+  OpenhandsListWorkspaceOptions,
+  OpenhandsWorkspaceEntry,
+  OpenhandsWorkspaceFile,
+  OpenhandsWorkspaceOptions,
+} from './types';
+import {
+  OpenhandsInvalidRequestError,
+  OpenhandsNotFoundError,
+  OpenhandsWorkspaceError,
+} from './errors';
+import { quoteShellArg } from '../utils/agent-server';
+
+/**
+ * Default workspace root
+ */
+export const DEFAULT_WORKSPACE_ROOT = '/workspace';
+
+/**
+ * Strip trailing slashes from the workspace root ('/' stays '')
+ */
+function normalizeRoot(root: string): string {
+  return root.replace(/\/+$/, '');
+}
+
+/**
+ * Resolve a workspace path to an absolute sandbox path.
+ * Leading slashes are ignored, so '/src' and 'src' both resolve to
+ * `${root}/src`. Throws OpenhandsInvalidRequestError if the path escapes
+ * the root.
+ *
+ * @param path - Path relative to the workspace root
+ * @param root - Workspace root (default: '/workspace')
+ * @returns Absolute path inside the workspace root
+ *
+ * @example
+ * ```typescript
+ * resolveWorkspacePath('src/../README.md') // '/workspace/README.md'
+ * resolveWorkspacePath('../etc/passwd') // throws OpenhandsInvalidRequestError
+ * ```
+ */
+export function resolveWorkspacePath(
+  path: string,
+  root: string = DEFAULT_WORKSPACE_ROOT
+): string {
+  if (path.includes('\0')) {
+    throw new OpenhandsInvalidRequestError('Path contains a NUL byte', {
+      field: 'path',
+      value: path,
+    });
+  }
+
+  const segments: string[] = [];
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') {
+      continue;
+    }
+    if (segment === '..') {
+      if (segments.length === 0) {
+        throw new OpenhandsInvalidRequestError(
+          `Path escapes the workspace root: ${path}`,
+          { field: 'path', value: path }
+        );
+      }
+      segments.pop();
+      continue;
+    }
+    segments.push(segment);
+  }
+
+  const base = normalizeRoot(root);
+  return segments.length > 0 ? `${base}/${segments.join('/')}` : base || '/';
+}
+
+/**
+ * Resolve a workspace path and check that, after following symlinks, it
+ * still points inside the workspace root
+ */
+async function resolveRealWorkspacePath(
+  sandbox: Sandbox<unknown>,
+  path: string,
+  root: string
+): Promise<string> {
+  const resolved = resolveWorkspacePath(path, root);
+  const result = await sandbox.exec(
+    `realpath -m -- ${quoteShellArg(root)} ${quoteShellArg(resolved)}`
+  );
+  const [realRoot, realPath] = result.stdout.trim().split('\n');
+  if (!result.success || !realRoot || !realPath) {
+    // Without the real path the symlink check can't be made
+    throw new OpenhandsInvalidRequestError(
+      `Could not resolve workspace path: ${path}`,
+      { field: 'path', value: path }
+    );
+  }
+
+  const base = normalizeRoot(realRoot);
+  if (realPath !== realRoot && !realPath.startsWith(`${base}/`)) {
+    throw new OpenhandsInvalidRequestError(
+      `Path escapes the workspace root: ${path}`,
+      { field: 'path', value: path }
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Throw OpenhandsNotFoundError if a resolved workspace path doesn't exist
+ */
+async function assertExists(
+  sandbox: Sandbox<unknown>,
+  file: string,
+  path: string
+): Promise<void> {
+  if (!(await sandbox.exists(file)).exists) {
+    throw new OpenhandsNotFoundError(`No such file or directory: ${path}`, {
+      path,
+    });
+  }
+}
+
+/**
+ * Make an absolute sandbox path relative to the workspace root
+ */
+function toWorkspacePath(absolutePath: string, root: string): string {
+  const base = normalizeRoot(root);
+  return absolutePath === base
+    ? ''
+    : absolutePath.slice(base.length).replace(/^\/+/, '');
+}
+
+/**
+ * Encode bytes as base64
+ */
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * List files in a workspace directory.
+ *
+ * @param sandbox - The Sandbox instance
+ * @param path - Directory relative to the workspace root (default: the root)
+ * @param options - Workspace root and listing options
+ * @returns Entries with paths relative to the workspace root
+ */
+export async function listWorkspaceFiles(
+  sandbox: Sandbox<unknown>,
+  path: string = '',
+  options: OpenhandsListWorkspaceOptions = {}
+): Promise<OpenhandsWorkspaceEntry[]> {
+  const root = options.root ?? DEFAULT_WORKSPACE_ROOT;
+  const directory = await resolveRealWorkspacePath(sandbox, path, root);
+  const result = await sandbox.listFiles(directory, {
+    recursive: options.recursive,
+    includeHidden: options.includeHidden,
+  });
+
+  return result.files.map((file) => ({
+    name: file.name,
+    path: toWorkspacePath(file.absolutePath, root),
+    type: file.type,
+    size: file.size,
+    modifiedAt: file.modifiedAt,
+  }));
+}
+
+/**
+ * Read a workspace file. Binary files are returned base64-encoded.
+ *
+ * @param sandbox - The Sandbox instance
+ * @param path - File path relative to the workspace root
+ * @param options - Workspace root
+ */
+export async function readWorkspaceFile(
+  sandbox: Sandbox<unknown>,
+  path: string,
+  options: OpenhandsWorkspaceOptions = {}
+): Promise<OpenhandsWorkspaceFile> {
+  const root = options.root ?? DEFAULT_WORKSPACE_ROOT;
+  const file = await resolveRealWorkspacePath(sandbox, path, root);
+  const result = await sandbox.readFile(file);
+
+  return {
+    path: toWorkspacePath(file, root),
+    content: result.content,
+    encoding: result.encoding ?? 'utf-8',
+    mimeType: result.mimeType,
+    size: result.size,
+  };
+}
+
+/**
+ * Write a workspace file, creating parent directories as needed.
+ * Strings are written as UTF-8; bytes are written as-is.
+ *
+ * @param sandbox - The Sandbox instance
+ * @param path - File path relative to the workspace root
+ * @param content - File content
+ * @param options - Workspace root
+ * @returns Path of the written file relative to the workspace root
+ */
+export async function writeWorkspaceFile(
+  sandbox: Sandbox<unknown>,
+  path: string,
+  content: string | Uint8Array,
+  options: OpenhandsWorkspaceOptions = {}
+): Promise<string> {
+  const root = options.root ?? DEFAULT_WORKSPACE_ROOT;
+  const file = await resolveRealWorkspacePath(sandbox, path, root);
+  if (file === (normalizeRoot(root) || '/')) {
+    throw new OpenhandsInvalidRequestError('Path must name a file', {
+      field: 'path',
+      value: path,
+    });
+  }
+
+  const parent = file.slice(0, file.lastIndexOf('/'));
+  if (parent) {
+    await sandbox.mkdir(parent, { recursive: true });
+  }
+
+  if (typeof content === 'string') {
+    await sandbox.writeFile(file, content);
+  } else {
+    await sandbox.writeFile(file, toBase64(content), { encoding: 'base64' });
+  }
+  return toWorkspacePath(file, root);
+}
+
+/**
+ * Delete a workspace file, or a directory with `recursive`.
+ * The workspace root itself can't be deleted.
+ *
+ * @param sandbox - The Sandbox instance
+ * @param path - Path relative to the workspace root
+ * @param options - Workspace root and whether to delete directories
+ */
+export async function deleteWorkspaceFile(
+  sandbox: Sandbox<unknown>,
+  path: string,
+  options: OpenhandsWorkspaceOptions & { recursive?: boolean } = {}
+): Promise<void> {
+  const root = options.root ?? DEFAULT_WORKSPACE_ROOT;
+  const file = await resolveRealWorkspacePath(sandbox, path, root);
+  if (file === (normalizeRoot(root) || '/')) {
+    throw new OpenhandsInvalidRequestError(
+      "The workspace root can't be deleted",
+      { field: 'path', value: path }
+    );
+  }
+
+  await assertExists(sandbox, file, path);
+
+  if (!options.recursive) {
+    await sandbox.deleteFile(file);
+    return;
+  }
+
+  const command = `rm -rf -- ${quoteShellArg(file)}`;
+  const result = await sandbox.exec(command);
+  if (!result.success) {
+    throw new OpenhandsWorkspaceError(
+      `Failed to delete ${path}: ${result.stderr.trim()}`,
+      { path, command, exitCode: result.exitCode, stderr: result.stderr }
+    );
+  }
+}
+
+/**
+ * Archive the workspace (or a directory in it) and stream the archive.
+ * The archive is built in /tmp and removed once the stream ends.
+ *
+ * @param sandbox - The Sandbox instance
+ * @param options - Workspace root, directory and format
+ * @returns Stream of the .tar.gz or .zip archive bytes
+ *
+ * @example
+ * ```typescript
+ * const archive = await archiveWorkspace(sandbox, { format: 'zip' });
+ * return new Response(archive, {
+ *   headers: { 'Content-Type': 'application/zip' },
+ * });
+ * ```
+ */
+export async function archiveWorkspace(
+  sandbox: Sandbox<unknown>,
+  options: OpenhandsArchiveOptions = {}
+): Promise<ReadableStream<Uint8Array>> {
+  const root = options.root ?? DEFAULT_WORKSPACE_ROOT;
+  const format = options.format ?? 'tar';
+  const directory = await resolveRealWorkspacePath(
+    sandbox,
+    options.path ?? '',
+    root
+  );
+  await assertExists(sandbox, directory, options.path ?? '');
+  const target = toWorkspacePath(directory, root) || '.';
+  const archive = `/tmp/openhands-workspace-${crypto.randomUUID()}.${
+    format === 'zip' ? 'zip' : 'tar.gz'
+  }`;
+
+  // zip -y stores symlinks as links, like tar, instead of archiving their
+  // targets (which may lie outside the workspace)
+  const command =
+    format === 'zip'
+      ? `cd ${quoteShellArg(root)} && zip -qry ${quoteShellArg(archive)} ${quoteShellArg(target)}`
+      : `tar -czf ${quoteShellArg(archive)} -C ${quoteShellArg(root)} ${quoteShellArg(target)}`;
+  const result = await sandbox.exec(command);
+  const cleanup = () => sandbox.deleteFile(archive).catch(() => {});
+  if (!result.success) {
+    await cleanup();
+    throw new OpenhandsWorkspaceError(
+      `Failed to create ${format} archive: ${result.stderr.trim()}`,
+      {
+        path: options.path ?? '',
+        command,
+        exitCode: result.exitCode,
+        stderr: result.stderr,
+      }
+    );
+  }
+
+  // Loaded lazily so this module can be imported outside the Workers runtime
+  const { streamFile } = await import('@cloudflare/sandbox');
+  const chunks = streamFile(await sandbox.readFileStream(archive));
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const chunk = await chunks.next();
+        if (chunk.done) {
+          controller.close();
+          await cleanup();
+          return;
+        }
+        controller.enqueue(
+          typeof chunk.value === 'string'
+            ? encoder.encode(chunk.value)
+            : chunk.value
+        );
+      } catch (error) {
+        controller.error(error);
+        await cleanup();
+      }
+    },
+    async cancel() {
+      await cleanup();
+    },
+  });
+}
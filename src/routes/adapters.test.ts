@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from 'bun:test';
+import { FakeSandboxNamespace } from '../testing';
+
+mock.module('cloudflare:workers', () => ({
+  DurableObject: class {},
+  WorkerEntrypoint: class {},
+  env: {},
+}));
+mock.module('@cloudflare/sandbox', () => ({
+  getSandbox: (namespace: FakeSandboxNamespace, name: string) =>
+    namespace.getSandbox(name).asSandbox(),
+  proxyToSandbox: async () => null,
+}));
+
+const { openhandsHono, openhandsIttyRouter } = await import('./adapters');
+
+const WEBHOOK_URL = 'https://hooks.example.com/openhands';
+
+describe('framework adapters', () => {
+  const originalFetch = globalThis.fetch;
+  let delivered: string[];
+  let pending: Promise<unknown>[];
+  const ctx = {
+    waitUntil: (promise: Promise<unknown>) => {
+      pending.push(promise);
+    },
+  };
+  const options = {
+    webhooks: { url: WEBHOOK_URL, secret: 'webhook-secret' },
+  };
+
+  /**
+   * Start request for sandbox 'test'
+   */
+  const start = () =>
+    new Request('http://localhost/agents/start-openhands?sandbox=test', {
+      method: 'POST',
+    });
+
+  beforeEach(() => {
+    delivered = [];
+    pending = [];
+    globalThis.fetch = (async (
+      input: string | URL | Request,
+      init?: RequestInit
+    ) => {
+      if (String(input) === WEBHOOK_URL) {
+        delivered.push(JSON.parse(String(init?.body)).type);
+        return new Response(null, { status: 204 });
+      }
+      return originalFetch(input, init);
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('openhandsHono passes executionCtx to webhook deliveries', async () => {
+    const middleware = openhandsHono({ ...options, basePath: '/agents' });
+    const next = mock(async () => {});
+
+    const response = await middleware(
+      {
+        req: { raw: start() },
+        env: { Sandbox: new FakeSandboxNamespace() },
+        executionCtx: ctx,
+      },
+      next
+    );
+
+    expect((response as Response).status).toBe(200);
+    expect(next).not.toHaveBeenCalled();
+    expect(pending).toHaveLength(1);
+    await Promise.all(pending);
+    expect(delivered).toEqual(['server.started']);
+  });
+
+  test('openhandsHono works without an execution context', async () => {
+    const middleware = openhandsHono({ basePath: '/agents' });
+    const context = {
+      req: { raw: start() },
+      env: { Sandbox: new FakeSandboxNamespace() },
+      get executionCtx(): never {
+        throw new Error('This context has no ExecutionContext');
+      },
+    };
+
+    const response = await middleware(context, async () => {});
+
+    expect((response as Response).status).toBe(200);
+  });
+
+  test('openhandsIttyRouter passes ctx to webhook deliveries', async () => {
+    const handler = openhandsIttyRouter({ ...options, basePath: '/agents' });
+
+    const response = await handler(
+      start(),
+      { Sandbox: new FakeSandboxNamespace() },
+      ctx
+    );
+
+    expect(response?.status).toBe(200);
+    expect(pending).toHaveLength(1);
+    await Promise.all(pending);
+    expect(delivered).toEqual(['server.started']);
+  });
+
+  test('unmatched requests fall through', async () => {
+    const env = { Sandbox: new FakeSandboxNamespace() };
+    const request = new Request('http://localhost/other?sandbox=test');
+    const next = mock(async () => {});
+
+    await openhandsHono({ basePath: '/agents' })(
+      { req: { raw: request }, env },
+      next
+    );
+
+    expect(next).toHaveBeenCalled();
+    expect(
+      await openhandsIttyRouter({ basePath: '/agents' })(request, env)
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  createOpenhandsHandler,
+  type OpenhandsEnv,
+  type OpenhandsExecutionContext,
+  type OpenhandsHandlerOptions,
+} from './handler';
+
+/**
+ * Minimal structural type of a Hono context (avoids a dependency on hono)
+ */
+export interface OpenhandsHonoContext<Env> {
+  req: { raw: Request };
+  env: Env;
+  /** The Worker's execution context (Hono throws when there is none) */
+  readonly executionCtx?: OpenhandsExecutionContext;
+}
+
+/**
+ * Execution context of a Hono request, or undefined outside Workers
+ */
+function getHonoExecutionContext<Env>(
+  c: OpenhandsHonoContext<Env>
+): OpenhandsExecutionContext | undefined {
+  try {
+    return c.executionCtx;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Create a Hono middleware serving the OpenHands routes. Requests that don't
+ * match a route are passed to the next handler. The request's
+ * `executionCtx` is passed on, so webhook deliveries use its `waitUntil`.
+ *
+ * @param options - Handler options; set `basePath` to the mount prefix
+ * @returns Hono middleware
+ *
+ * @example
+ * ```typescript
+ * const app = new Hono<{ Bindings: Env }>()
+ * app.use('/agents/*', openhandsHono({ basePath: '/agents' }))
+ * ```
+ */
+export function openhandsHono<Env extends OpenhandsEnv = OpenhandsEnv>(
+  options: OpenhandsHandlerOptions = {}
+) {
+  const handler = createOpenhandsHandler<Env>(options);
+  return async (
+    c: OpenhandsHonoContext<Env>,
+    next: () => Promise<void>
+  ): Promise<Response | void> => {
+    const response = await handler(
+      c.req.raw,
+      c.env,
+      getHonoExecutionContext(c)
+    );
+    if (response) {
+      return response;
+    }
+    await next();
+  };
+}
+
+/**
+ * Create an itty-router handler serving the OpenHands routes. Returns
+ * undefined for requests that don't match a route, so later handlers run.
+ * The `ctx` passed to `router.fetch` is passed on for webhook deliveries.
+ *
+ * @param options - Handler options; set `basePath` to the mount prefix
+ * @returns itty-router handler
+ *
+ * @example
+ * ```typescript
+ * const router = Router()
+ * router.all('/agents/*', openhandsIttyRouter({ basePath: '/agents' }))
+ * export default { fetch: router.fetch }
+ * ```
+ */
+export function openhandsIttyRouter<Env extends OpenhandsEnv = OpenhandsEnv>(
+  options: OpenhandsHandlerOptions = {}
+) {
+  const handler = createOpenhandsHandler<Env>(options);
+  return async (
+    request: Request,
+    env: Env,
+    ctx?: OpenhandsExecutionContext
+  ): Promise<Response | undefined> =>
+    (await handler(request, env, ctx)) ?? undefined;
+}
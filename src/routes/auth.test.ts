@@ -0,0 +1,234 @@
+import { afterEach, beforeAll, describe, expect, test } from 'bun:test';
+import {
+  authenticateOpenhandsRequest,
+  bearerTokenAuth,
+  cloudflareAccessAuth,
+  signedUrlAuth,
+  signOpenhandsUrl,
+  type JsonWebKeySet,
+} from './auth';
+
+const URL_SECRET = 'url-signing-secret';
+
+/**
+ * Encode bytes or a JSON value as base64url
+ */
+function base64Url(value: Uint8Array | object): string {
+  const bytes =
+    value instanceof Uint8Array
+      ? value
+      : new TextEncoder().encode(JSON.stringify(value));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+describe('bearerTokenAuth', () => {
+  const authenticate = bearerTokenAuth({
+    tokens: { 'token-a': 'team-a', 'token-b': 'team-b' },
+  });
+  const request = (authorization?: string) =>
+    new Request('http://localhost/openhands-status', {
+      headers: authorization ? { Authorization: authorization } : {},
+    });
+
+  test('maps each token to its principal', async () => {
+    expect(await authenticate(request('Bearer token-b'))).toEqual({
+      id: 'team-b',
+    });
+  });
+
+  test('rejects unknown, partial and missing tokens', async () => {
+    expect(await authenticate(request('Bearer token-c'))).toBeNull();
+    expect(await authenticate(request('Bearer token-'))).toBeNull();
+    expect(await authenticate(request('Bearer token-aa'))).toBeNull();
+    expect(await authenticate(request('Basic token-a'))).toBeNull();
+    expect(await authenticate(request())).toBeNull();
+  });
+
+  test('responds 401 through authenticateOpenhandsRequest', async () => {
+    const response = await authenticateOpenhandsRequest(
+      request('Bearer wrong'),
+      { authenticate }
+    );
+
+    expect((response as Response).status).toBe(401);
+  });
+});
+
+describe('signedUrlAuth', () => {
+  const authenticate = signedUrlAuth({ secret: URL_SECRET });
+
+  test('accepts a URL signed with the same secret', async () => {
+    const url = await signOpenhandsUrl(
+      'http://localhost/openhands-logs?sandbox=team-a&follow=true',
+      { secret: URL_SECRET, expiresIn: 60, principal: 'team-a' }
+    );
+
+    expect(await authenticate(new Request(url))).toEqual({ id: 'team-a' });
+  });
+
+  test('rejects tampered, foreign and expired URLs', async () => {
+    const url = await signOpenhandsUrl(
+      'http://localhost/openhands-status?sandbox=team-a',
+      { secret: URL_SECRET, expiresIn: 60, principal: 'team-a' }
+    );
+
+    const tampered = url.replace('sandbox=team-a', 'sandbox=team-b');
+    expect(await authenticate(new Request(tampered))).toBeNull();
+    const retargeted = new URL(url);
+    retargeted.searchParams.set('principal', 'admin');
+    expect(await authenticate(new Request(String(retargeted)))).toBeNull();
+
+    const foreign = await signOpenhandsUrl(
+      'http://localhost/openhands-status?sandbox=team-a',
+      { secret: 'other-secret', expiresIn: 60 }
+    );
+    expect(await authenticate(new Request(foreign))).toBeNull();
+
+    const expired = await signOpenhandsUrl(
+      'http://localhost/openhands-status?sandbox=team-a',
+      { secret: URL_SECRET, expiresIn: -1 }
+    );
+    expect(await authenticate(new Request(expired))).toBeNull();
+  });
+
+  test('rejects unsigned URLs', async () => {
+    expect(
+      await authenticate(new Request('http://localhost/openhands-status'))
+    ).toBeNull();
+  });
+});
+
+describe('cloudflareAccessAuth', () => {
+  const audience = 'app-audience';
+  const teamDomain = 'team.cloudflareaccess.com';
+  let privateKey: CryptoKey;
+  let jwks: JsonWebKeySet;
+
+  beforeAll(async () => {
+    const pair = (await crypto.subtle.generateKey(
+      {
+        name: 'RSASSA-PKCS1-v1_5',
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: 'SHA-256',
+      },
+      true,
+      ['sign', 'verify']
+    )) as CryptoKeyPair;
+    privateKey = pair.privateKey;
+    const publicJwk = await crypto.subtle.exportKey('jwk', pair.publicKey);
+    jwks = {
+      keys: [{ ...publicJwk, kid: 'key-1' } as JsonWebKeySet['keys'][0]],
+    };
+  });
+
+  /**
+   * Sign a token with the test key
+   */
+  const sign = async (
+    claims: Record<string, unknown>,
+    header: Record<string, unknown> = { alg: 'RS256', kid: 'key-1' }
+  ) => {
+    const body = `${base64Url(header)}.${base64Url(claims)}`;
+    const signature = await crypto.subtle.sign(
+      'RSASSA-PKCS1-v1_5',
+      privateKey,
+      new TextEncoder().encode(body)
+    );
+    return `${body}.${base64Url(new Uint8Array(signature))}`;
+  };
+
+  const claims = () => ({
+    aud: [audience],
+    iss: `https://${teamDomain}`,
+    email: 'dev@example.com',
+    exp: Math.floor(Date.now() / 1000) + 300,
+  });
+
+  const request = (token: string) =>
+    new Request('http://localhost/openhands-status', {
+      headers: { 'Cf-Access-Jwt-Assertion': token },
+    });
+
+  test('accepts a valid token', async () => {
+    const authenticate = cloudflareAccessAuth({ audience, teamDomain, jwks });
+
+    expect(await authenticate(request(await sign(claims())))).toMatchObject({
+      id: 'dev@example.com',
+    });
+  });
+
+  test('rejects expired tokens and tokens without exp', async () => {
+    const authenticate = cloudflareAccessAuth({ audience, teamDomain, jwks });
+    const { exp: _exp, ...withoutExp } = claims();
+
+    expect(
+      await authenticate(
+        request(
+          await sign({ ...claims(), exp: Math.floor(Date.now() / 1000) - 1 })
+        )
+      )
+    ).toBeNull();
+    expect(await authenticate(request(await sign(withoutExp)))).toBeNull();
+  });
+
+  test('rejects another audience, issuer, key or algorithm', async () => {
+    const authenticate = cloudflareAccessAuth({ audience, teamDomain, jwks });
+
+    expect(
+      await authenticate(request(await sign({ ...claims(), aud: 'other' })))
+    ).toBeNull();
+    expect(
+      await authenticate(
+        request(await sign({ ...claims(), iss: 'https://evil.example.com' }))
+      )
+    ).toBeNull();
+    expect(
+      await authenticate(
+        request(await sign(claims(), { alg: 'RS256', kid: 'key-2' }))
+      )
+    ).toBeNull();
+    expect(
+      await authenticate(
+        request(await sign(claims(), { alg: 'none', kid: 'key-1' }))
+      )
+    ).toBeNull();
+  });
+
+  test('rejects a token whose payload was altered', async () => {
+    const authenticate = cloudflareAccessAuth({ audience, teamDomain, jwks });
+    const [header, , signature] = (await sign(claims())).split('.');
+    const forged = `${header}.${base64Url({ ...claims(), email: 'admin@example.com' })}.${signature}`;
+
+    expect(await authenticate(request(forged))).toBeNull();
+  });
+
+  describe('key set fetching', () => {
+    const originalFetch = globalThis.fetch;
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    test('responds 503 when the key set cannot be fetched', async () => {
+      globalThis.fetch = (async () =>
+        new Response('unavailable', {
+          status: 500,
+        })) as unknown as typeof fetch;
+      const authenticate = cloudflareAccessAuth({
+        audience,
+        jwksUrl: 'https://keys.example.com/unavailable',
+      });
+
+      const response = await authenticateOpenhandsRequest(
+        request(await sign(claims())),
+        { authenticate }
+      );
+
+      expect((response as Response).status).toBe(503);
+    });
+  });
+});
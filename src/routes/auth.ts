@@ -0,0 +1,538 @@
+import { isOpenhandsError, OpenhandsAuthUnavailableError } from '../openhands';
+import {
+  openhandsErrorResponse,
+  type OpenhandsErrorResponseOptions,
+} from './errors';
+import type { OpenhandsRateLimiter } from './rate-limit';
+import { hmacSha256Hex, timingSafeEqual } from '../utils/crypto';
+
+/**
+ * Names of the built-in OpenHands routes, used for per-route authorization
+ */
+export type OpenhandsRouteName =
+  | 'start'
+  | 'stop'
+  | 'status'
+  | 'logs'
+  | 'events'
+  | 'instances'
+  | 'instance-start'
+  | 'instance-stop'
+  | 'instance-proxy'
+  | 'workspace-list'
+  | 'workspace-read'
+  | 'workspace-write'
+  | 'workspace-delete'
+  | 'workspace-archive'
+  | 'usage'
+  | 'confirmation-pending'
+  | 'confirmation-respond'
+  | 'openapi'
+  | 'previews'
+  | 'preview-expose'
+  | 'preview-revoke'
+  | 'task-start'
+  | 'task-status'
+  | 'job-enqueue'
+  | 'job-status'
+  | 'job-cancel';
+
+/**
+ * Authenticated caller of an OpenHands route
+ */
+export interface OpenhandsPrincipal {
+  /** Stable caller identifier (token owner, signed URL principal, Access email/sub) */
+  id: string;
+  /** Strategy-specific claims (e.g. JWT payload) */
+  claims?: Record<string, unknown>;
+}
+
+/**
+ * Resolves the caller of a request. Returning null or throwing rejects the
+ * request with 401; throwing OpenhandsAuthUnavailableError responds 503.
+ */
+export type OpenhandsAuthenticator = (
+  request: Request
+) => OpenhandsPrincipal | null | Promise<OpenhandsPrincipal | null>;
+
+/**
+ * Context passed to the authorizer for each route request
+ */
+export interface OpenhandsAuthorizationContext {
+  request: Request;
+  route: OpenhandsRouteName;
+  sandboxName: string;
+}
+
+/**
+ * Decides whether a caller may use a route on a sandbox.
+ * Returning false rejects the request with 403.
+ */
+export type OpenhandsAuthorizer = (
+  principal: OpenhandsPrincipal | null,
+  context: OpenhandsAuthorizationContext
+) => boolean | Promise<boolean>;
+
+/**
+ * Auth hooks accepted by the OpenHands route handler
+ */
+export interface OpenhandsAuthOptions {
+  /** Authenticate requests to OpenHands routes (default: no authentication) */
+  authenticate?: OpenhandsAuthenticator;
+  /** Authorize the caller for the requested route and sandbox (default: allow) */
+  authorize?: OpenhandsAuthorizer;
+}
+
+/**
+ * JSON Web Key Set as served by Cloudflare Access `/cdn-cgi/access/certs`
+ */
+export interface JsonWebKeySet {
+  keys: Array<{
+    kty: string;
+    kid?: string;
+    alg?: string;
+    use?: string;
+    n?: string;
+    e?: string;
+  }>;
+}
+
+/**
+ * Options for static bearer token authentication
+ */
+export interface BearerTokenAuthOptions {
+  /**
+   * Accepted tokens. A string or array maps every token to principal 'bearer';
+   * a record maps each token to its principal ID.
+   */
+  tokens: string | string[] | Record<string, string>;
+}
+
+/**
+ * Options for HMAC-signed URL authentication
+ */
+export interface SignedUrlAuthOptions {
+  /** Shared HMAC-SHA256 secret */
+  secret: string;
+  /** Query parameter carrying the signature (default: 'signature') */
+  signatureParam?: string;
+  /** Query parameter carrying the expiry as Unix seconds (default: 'expires') */
+  expiresParam?: string;
+  /** Query parameter carrying the principal ID (default: 'principal') */
+  principalParam?: string;
+}
+
+/**
+ * Options for signing a URL with `signOpenhandsUrl`
+ */
+export interface SignUrlOptions extends SignedUrlAuthOptions {
+  /** Lifetime of the signed URL in seconds */
+  expiresIn: number;
+  /** Principal ID embedded in the URL */
+  principal?: string;
+}
+
+/**
+ * Options for Cloudflare Access JWT authentication
+ */
+export interface CloudflareAccessAuthOptions {
+  /** Application audience (AUD) tag */
+  audience: string;
+  /** Team domain, e.g. 'myteam.cloudflareaccess.com' (checked against `iss`) */
+  teamDomain?: string;
+  /** Key set to verify against; fetched from the team domain if omitted */
+  jwks?: JsonWebKeySet;
+  /** URL of the key set (default: https://{teamDomain}/cdn-cgi/access/certs) */
+  jwksUrl?: string;
+}
+
+const JWKS_CACHE_TTL = 10 * 60 * 1000;
+
+// Fetched key sets, cached per URL for the lifetime of the isolate
+const jwksCache = new Map<string, { jwks: JsonWebKeySet; fetchedAt: number }>();
+
+const encoder = new TextEncoder();
+
+/**
+ * Decode a base64url string to bytes
+ */
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Canonical string signed for a URL: path plus sorted query, minus the signature
+ */
+function canonicalizeUrl(url: URL, signatureParam: string): string {
+  const params = [...url.searchParams.entries()]
+    .filter(([name]) => name !== signatureParam)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `${url.pathname}?${new URLSearchParams(params).toString()}`;
+}
+
+/**
+ * Build a 401/403 JSON response
+ */
+export function openhandsAuthErrorResponse(status: 401 | 403): Response {
+  return Response.json(
+    {
+      error: status === 401 ? 'Unauthorized' : 'Forbidden',
+      success: false,
+    },
+    {
+      status,
+      headers: status === 401 ? { 'WWW-Authenticate': 'Bearer' } : undefined,
+    }
+  );
+}
+
+/**
+ * Run the configured authenticator. Returns the caller, or a 401 response
+ * if it rejects the request or throws (503 if its key set can't be fetched).
+ */
+export async function authenticateOpenhandsRequest(
+  request: Request,
+  options: OpenhandsAuthOptions & OpenhandsErrorResponseOptions
+): Promise<OpenhandsPrincipal | null | Response> {
+  if (!options.authenticate) {
+    return null;
+  }
+  try {
+    return (
+      (await options.authenticate(request)) ?? openhandsAuthErrorResponse(401)
+    );
+  } catch (error) {
+    if (
+      isOpenhandsError(error) &&
+      error.code === 'OPENHANDS_AUTH_UNAVAILABLE'
+    ) {
+      return openhandsErrorResponse(error, options);
+    }
+    return openhandsAuthErrorResponse(401);
+  }
+}
+
+/**
+ * Run the configured auth hooks and rate limits for a route.
+ * Returns a 401/403/429 response if the request is rejected, null otherwise.
+ * Pass `principal` when the caller was already authenticated, to skip
+ * `authenticate`.
+ */
+export async function authorizeOpenhandsRequest(
+  request: Request,
+  route: OpenhandsRouteName,
+  sandboxName: string,
+  options: OpenhandsAuthOptions &
+    OpenhandsErrorResponseOptions & { rateLimit?: OpenhandsRateLimiter },
+  principal?: OpenhandsPrincipal | null
+): Promise<Response | null> {
+  if (principal === undefined) {
+    const authenticated = await authenticateOpenhandsRequest(request, options);
+    if (authenticated instanceof Response) {
+      return authenticated;
+    }
+    principal = authenticated;
+  }
+
+  if (options.authorize) {
+    const allowed = await options.authorize(principal, {
+      request,
+      route,
+      sandboxName,
+    });
+    if (!allowed) {
+      return openhandsAuthErrorResponse(403);
+    }
+  }
+
+  try {
+    options.rateLimit?.acquire(request, route, sandboxName, principal);
+  } catch (error) {
+    return openhandsErrorResponse(error, options);
+  }
+
+  return null;
+}
+
+/**
+ * Authenticate requests carrying `Authorization: Bearer <token>`.
+ *
+ * @example
+ * ```typescript
+ * createOpenhandsHandler({
+ *   authenticate: bearerTokenAuth({ tokens: { [env.TEAM_A_TOKEN]: 'team-a' } }),
+ * })
+ * ```
+ */
+export function bearerTokenAuth(
+  options: BearerTokenAuthOptions
+): OpenhandsAuthenticator {
+  const tokens: Array<[string, string]> =
+    typeof options.tokens === 'string'
+      ? [[options.tokens, 'bearer']]
+      : Array.isArray(options.tokens)
+        ? options.tokens.map((token) => [token, 'bearer'])
+        : Object.entries(options.tokens);
+
+  return (request) => {
+    const header = request.headers.get('Authorization') || '';
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    if (!match) {
+      return null;
+    }
+    const provided = match[1]!.trim();
+    let principal: OpenhandsPrincipal | null = null;
+    // Compare against every token so timing doesn't reveal which one matched
+    for (const [token, id] of tokens) {
+      if (timingSafeEqual(provided, token) && !principal) {
+        principal = { id };
+      }
+    }
+    return principal;
+  };
+}
+
+/**
+ * Sign a URL for use with `signedUrlAuth`.
+ *
+ * @example
+ * ```typescript
+ * const url = await signOpenhandsUrl('https://example.com/openhands-status?sandbox=team-a', {
+ *   secret: env.URL_SIGNING_SECRET,
+ *   expiresIn: 300,
+ *   principal: 'team-a',
+ * })
+ * ```
+ */
+export async function signOpenhandsUrl(
+  url: string | URL,
+  options: SignUrlOptions
+): Promise<string> {
+  const signatureParam = options.signatureParam || 'signature';
+  const expiresParam = options.expiresParam || 'expires';
+  const principalParam = options.principalParam || 'principal';
+
+  const signed = new URL(url);
+  signed.searchParams.delete(signatureParam);
+  signed.searchParams.set(
+    expiresParam,
+    String(Math.floor(Date.now() / 1000) + options.expiresIn)
+  );
+  if (options.principal) {
+    signed.searchParams.set(principalParam, options.principal);
+  }
+
+  const signature = await hmacSha256Hex(
+    options.secret,
+    canonicalizeUrl(signed, signatureParam)
+  );
+  signed.searchParams.set(signatureParam, signature);
+  return signed.toString();
+}
+
+/**
+ * Authenticate requests whose URL was signed with `signOpenhandsUrl` and has
+ * not expired. Useful for WebSocket and SSE clients that can't set headers.
+ */
+export function signedUrlAuth(
+  options: SignedUrlAuthOptions
+): OpenhandsAuthenticator {
+  const signatureParam = options.signatureParam || 'signature';
+  const expiresParam = options.expiresParam || 'expires';
+  const principalParam = options.principalParam || 'principal';
+
+  return async (request) => {
+    const url = new URL(request.url);
+    const signature = url.searchParams.get(signatureParam);
+    const expires = Number(url.searchParams.get(expiresParam));
+    if (!signature || !Number.isFinite(expires)) {
+      return null;
+    }
+    if (expires < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    const expected = await hmacSha256Hex(
+      options.secret,
+      canonicalizeUrl(url, signatureParam)
+    );
+    if (!timingSafeEqual(signature, expected)) {
+      return null;
+    }
+
+    return { id: url.searchParams.get(principalParam) || 'signed-url' };
+  };
+}
+
+/**
+ * Load the key set for Cloudflare Access verification
+ */
+async function loadJwks(
+  options: CloudflareAccessAuthOptions
+): Promise<JsonWebKeySet> {
+  if (options.jwks) {
+    return options.jwks;
+  }
+
+  const jwksUrl =
+    options.jwksUrl ||
+    (options.teamDomain
+      ? `https://${options.teamDomain}/cdn-cgi/access/certs`
+      : undefined);
+  if (!jwksUrl) {
+    throw new Error(
+      'cloudflareAccessAuth requires jwks, jwksUrl or teamDomain'
+    );
+  }
+
+  const cached = jwksCache.get(jwksUrl);
+  if (cached && Date.now() - cached.fetchedAt < JWKS_CACHE_TTL) {
+    return cached.jwks;
+  }
+
+  let jwks: JsonWebKeySet;
+  try {
+    const response = await fetch(jwksUrl);
+    if (!response.ok) {
+      throw new OpenhandsAuthUnavailableError(
+        `Failed to fetch JWKS from ${jwksUrl}: ${response.status}`,
+        { jwksUrl, status: response.status }
+      );
+    }
+    jwks = (await response.json()) as JsonWebKeySet;
+  } catch (error) {
+    if (error instanceof OpenhandsAuthUnavailableError) {
+      throw error;
+    }
+    throw new OpenhandsAuthUnavailableError(
+      `Failed to fetch JWKS from ${jwksUrl}`,
+      { jwksUrl },
+      { cause: error }
+    );
+  }
+  jwksCache.set(jwksUrl, { jwks, fetchedAt: Date.now() });
+  return jwks;
+}
+
+/**
+ * Authenticate requests carrying a Cloudflare Access JWT in the
+ * `Cf-Access-Jwt-Assertion` header (or `CF_Authorization` cookie).
+ * The principal ID is the token's `email`, falling back to `sub`.
+ */
+export function cloudflareAccessAuth(
+  options: CloudflareAccessAuthOptions
+): OpenhandsAuthenticator {
+  return async (request) => {
+    const cookie = request.headers.get('Cookie') || '';
+    const token =
+      request.headers.get('Cf-Access-Jwt-Assertion') ||
+      /(?:^|;\s*)CF_Authorization=([^;]+)/.exec(cookie)?.[1];
+    if (!token) {
+      return null;
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = token.split('.');
+    if (!encodedHeader || !encodedPayload || !encodedSignature) {
+      return null;
+    }
+
+    let header: { kid?: string; alg?: string };
+    let payload: Record<string, unknown>;
+    try {
+      const decoder = new TextDecoder();
+      header = JSON.parse(decoder.decode(base64UrlDecode(encodedHeader)));
+      payload = JSON.parse(decoder.decode(base64UrlDecode(encodedPayload)));
+    } catch {
+      return null;
+    }
+    if (header.alg !== 'RS256') {
+      return null;
+    }
+
+    const jwks = await loadJwks(options);
+    const jwk = jwks.keys.find((key) => key.kid === header.kid);
+    if (!jwk) {
+      return null;
+    }
+
+    let valid: boolean;
+    try {
+      const key = await crypto.subtle.importKey(
+        'jwk',
+        jwk,
+        { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+        false,
+        ['verify']
+      );
+      valid = await crypto.subtle.verify(
+        'RSASSA-PKCS1-v1_5',
+        key,
+        base64UrlDecode(encodedSignature),
+        encoder.encode(`${encodedHeader}.${encodedPayload}`)
+      );
+    } catch {
+      // Unusable key or malformed signature
+      return null;
+    }
+    if (!valid) {
+      return null;
+    }
+
+    // Access tokens always expire; a token without `exp` is never accepted
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof payload.exp !== 'number' || payload.exp < now) {
+      return null;
+    }
+    if (typeof payload.nbf === 'number' && payload.nbf > now) {
+      return null;
+    }
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(options.audience)) {
+      return null;
+    }
+    if (options.teamDomain && payload.iss !== `https://${options.teamDomain}`) {
+      return null;
+    }
+
+    const id = payload.email ?? payload.sub;
+    if (typeof id !== 'string') {
+      return null;
+    }
+    return { id, claims: payload };
+  };
+}
+
+/**
+ * Authorize callers only for sandboxes they own.
+ *
+ * @param getOwner - Returns the principal ID owning a sandbox (default: the
+ *   sandbox name itself, so principal 'team-a' may only use sandbox 'team-a')
+ *
+ * @example
+ * ```typescript
+ * createOpenhandsHandler({
+ *   authenticate: bearerTokenAuth({ tokens: { [env.TEAM_A_TOKEN]: 'team-a' } }),
+ *   authorize: sandboxOwnerAuthorizer((name) => name.split('-')[0] ?? null),
+ * })
+ * ```
+ */
+export function sandboxOwnerAuthorizer(
+  getOwner: (sandboxName: string) => string | null | Promise<string | null> = (
+    sandboxName
+  ) => sandboxName
+): OpenhandsAuthorizer {
+  return async (principal, context) => {
+    if (!principal) {
+      return false;
+    }
+    const owner = await getOwner(context.sandboxName);
+    return owner !== null && owner === principal.id;
+  };
+}
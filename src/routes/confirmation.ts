@@ -0,0 +1,65 @@
+import {
+  getPendingActions,
+  OpenhandsClient,
+  OpenhandsInvalidRequestError,
+  type OpenhandsConfirmationDecision,
+} from '../openhands';
+import { openhandsNotFoundResponse } from './errors';
+import { readJsonBody, type OpenhandsRouteDefinition } from './router';
+
+/**
+ * Confirmation routes of a conversation:
+ * - `GET /conversations/:id/pending` - list actions waiting for approval
+ * - `POST /conversations/:id/confirmation` - approve or reject them
+ *   (JSON body `{ accept, reason? }`)
+ */
+export const confirmationRoutes: OpenhandsRouteDefinition[] = [
+  {
+    name: 'confirmation-pending',
+    method: 'GET',
+    path: '/conversations/:id/pending',
+    summary: 'List actions waiting for approval',
+    enabled: (options) => options.confirmation === true,
+    async handle({ params, sandbox, getServer }) {
+      const server = await getServer();
+      if (!server) {
+        return openhandsNotFoundResponse('No server running');
+      }
+      const conversationId = params.id!;
+      const pending = await getPendingActions(sandbox, server, conversationId);
+      return Response.json({ conversationId, pending, success: true });
+    },
+  },
+  {
+    name: 'confirmation-respond',
+    method: 'POST',
+    path: '/conversations/:id/confirmation',
+    summary: 'Approve or reject the pending actions (`{ accept, reason? }`)',
+    enabled: (options) => options.confirmation === true,
+    async handle({ request, params, sandbox, options, getServer }) {
+      const server = await getServer();
+      if (!server) {
+        return openhandsNotFoundResponse('No server running');
+      }
+
+      const conversationId = params.id!;
+      const decision =
+        await readJsonBody<OpenhandsConfirmationDecision>(request);
+      if (typeof decision.accept !== 'boolean') {
+        throw new OpenhandsInvalidRequestError('accept must be true or false', {
+          field: 'accept',
+          value: decision.accept,
+        });
+      }
+      await new OpenhandsClient(sandbox, server, options).respondToConfirmation(
+        conversationId,
+        { accept: decision.accept, reason: decision.reason }
+      );
+      return Response.json({
+        conversationId,
+        accepted: decision.accept,
+        success: true,
+      });
+    },
+  },
+];
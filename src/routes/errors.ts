@@ -0,0 +1,117 @@
+import {
+  getOptionSecrets,
+  isOpenhandsError,
+  redactSecrets,
+  type OpenhandsErrorCode,
+  type OpenhandsOptions,
+  type OpenhandsRateLimitContext,
+} from '../openhands';
+
+/**
+ * Options for serializing route errors
+ */
+export interface OpenhandsErrorResponseOptions {
+  /** Include error context and stack traces in responses (default: false) */
+  debug?: boolean;
+}
+
+/**
+ * HTTP status returned for each SDK error code
+ */
+export const OPENHANDS_ERROR_STATUS: Record<OpenhandsErrorCode, number> = {
+  OPENHANDS_STARTUP_FAILED: 503,
+  OPENHANDS_EXECUTABLE_NOT_FOUND: 500,
+  OPENHANDS_PORT_CONFLICT: 409,
+  OPENHANDS_READINESS_TIMEOUT: 504,
+  OPENHANDS_EXPOSURE_FAILED: 502,
+  OPENHANDS_PROXY_FAILED: 502,
+  OPENHANDS_API_ERROR: 502,
+  OPENHANDS_PROCESS_KILLED: 503,
+  OPENHANDS_INVALID_REQUEST: 400,
+  OPENHANDS_GIT_FAILED: 502,
+  OPENHANDS_RATE_LIMITED: 429,
+  OPENHANDS_AUTH_UNAVAILABLE: 503,
+  OPENHANDS_CONFIGURATION_ERROR: 500,
+  OPENHANDS_NOT_FOUND: 404,
+  OPENHANDS_WORKSPACE_FAILED: 500,
+  OPENHANDS_BUDGET_EXCEEDED: 402,
+};
+
+/**
+ * Map an error to the HTTP status a route should respond with.
+ * Agent-server 4xx responses are passed through; other errors map by code.
+ */
+export function getOpenhandsErrorStatus(error: unknown): number {
+  if (!isOpenhandsError(error)) {
+    return 500;
+  }
+  if (error.code === 'OPENHANDS_API_ERROR') {
+    const status = (error.context as { status: number }).status;
+    if (status >= 400 && status < 500) {
+      return status;
+    }
+  }
+  return OPENHANDS_ERROR_STATUS[error.code];
+}
+
+/**
+ * Serialize an error thrown inside a route into a JSON response.
+ * Context and stack are only included when `debug` is enabled, since they
+ * can contain process output and internal paths. Secret fields, and the
+ * values of `env` and the session API key, are redacted from the message,
+ * context and stack.
+ */
+export function openhandsErrorResponse(
+  error: unknown,
+  options: OpenhandsErrorResponseOptions &
+    Pick<OpenhandsOptions, 'env' | 'sessionApiKey'> = {}
+): Response {
+  const openhandsError = isOpenhandsError(error) ? error : undefined;
+  const secrets = getOptionSecrets(options);
+
+  return Response.json(
+    {
+      error: redactSecrets(
+        error instanceof Error ? error.message : String(error),
+        secrets
+      ),
+      code: openhandsError?.code,
+      context: options.debug
+        ? redactSecrets(openhandsError?.context, secrets)
+        : undefined,
+      errorStack:
+        options.debug && error instanceof Error
+          ? redactSecrets(error.stack, secrets)
+          : undefined,
+      success: false,
+    },
+    {
+      status: getOpenhandsErrorStatus(error),
+      headers:
+        openhandsError?.code === 'OPENHANDS_RATE_LIMITED'
+          ? {
+              'Retry-After': String(
+                (openhandsError.context as OpenhandsRateLimitContext).retryAfter
+              ),
+            }
+          : undefined,
+    }
+  );
+}
+
+/**
+ * Respond 405 with the allowed methods in the `Allow` header
+ */
+export function methodNotAllowedResponse(allow: string[]): Response {
+  return Response.json(
+    { success: false, message: 'Method not allowed' },
+    { status: 405, headers: { Allow: allow.join(', ') } }
+  );
+}
+
+/**
+ * Respond 404 with a message
+ */
+export function openhandsNotFoundResponse(message: string): Response {
+  return Response.json({ success: false, message }, { status: 404 });
+}
@@ -0,0 +1,198 @@
+import { beforeEach, describe, expect, mock, test } from 'bun:test';
+import { MemoryPersistenceAdapter } from '../openhands/persistence';
+import { FakeSandboxNamespace } from '../testing';
+
+// The handler resolves sandboxes through @cloudflare/sandbox, which only
+// loads inside the Workers runtime
+mock.module('cloudflare:workers', () => ({
+  DurableObject: class {},
+  WorkerEntrypoint: class {},
+  env: {},
+}));
+mock.module('@cloudflare/sandbox', () => ({
+  getSandbox: (namespace: FakeSandboxNamespace, name: string) =>
+    namespace.getSandbox(name).asSandbox(),
+  proxyToSandbox: async () => null,
+}));
+
+const { createOpenhandsHandler } = await import('./handler');
+
+describe('createOpenhandsHandler', () => {
+  let namespace: FakeSandboxNamespace;
+  let handler: ReturnType<typeof createOpenhandsHandler>;
+
+  /**
+   * Send a request to the handler for sandbox 'test'
+   */
+  const call = (method: string, path: string, body?: unknown) =>
+    handler(
+      new Request(`http://localhost${path}?sandbox=test`, {
+        method,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        headers: { 'Content-Type': 'application/json' },
+      }),
+      { Sandbox: namespace }
+    );
+
+  beforeEach(() => {
+    namespace = new FakeSandboxNamespace({
+      agentServer: { reply: () => 'Done' },
+    });
+    handler = createOpenhandsHandler({
+      tasks: {
+        agent: () => ({
+          kind: 'Agent',
+          llm: { model: 'test-model', usage_id: 'agent' },
+        }),
+      },
+    });
+  });
+
+  test('ignores requests outside its routes', async () => {
+    expect(await call('GET', '/elsewhere')).toBeNull();
+  });
+
+  test('responds 405 with Allow to a known path with another method', async () => {
+    const response = await call('DELETE', '/tasks');
+
+    expect(response?.status).toBe(405);
+    expect(response?.headers.get('Allow')).toBe('POST');
+  });
+
+  test('starts, reports and stops the agent-server', async () => {
+    const started = await call('POST', '/start-openhands');
+    expect(started?.status).toBe(200);
+    const { process } = (await started!.json()) as {
+      process: { id: string; port: number };
+    };
+    expect(process.port).toBe(8001);
+
+    const status = await call('GET', '/openhands-status');
+    expect(await status!.json()).toMatchObject({
+      running: true,
+      process: { id: process.id, status: 'running' },
+    });
+
+    const stopped = await call('POST', '/stop-openhands');
+    expect(stopped?.status).toBe(200);
+    const after = await call('GET', '/openhands-status');
+    expect(await after!.json()).toMatchObject({ running: false });
+  });
+
+  test('concurrent start requests share one process', async () => {
+    const responses = await Promise.all([
+      call('POST', '/start-openhands'),
+      call('POST', '/start-openhands'),
+    ]);
+    const bodies = (await Promise.all(
+      responses.map((response) => response!.json())
+    )) as { process: { id: string } }[];
+
+    expect(bodies[0]!.process.id).toBe(bodies[1]!.process.id);
+  });
+
+  test('responds 503 with the error code when startup fails', async () => {
+    namespace = new FakeSandboxNamespace({
+      onStartProcess: () => ({ status: 'failed', exitCode: 1 }),
+    });
+
+    const response = await call('POST', '/start-openhands');
+
+    expect(response?.status).toBe(503);
+    expect(await response!.json()).toMatchObject({
+      success: false,
+      code: 'OPENHANDS_STARTUP_FAILED',
+    });
+  });
+
+  test('responds 404 when no server is running', async () => {
+    const response = await call('POST', '/stop-openhands');
+    expect(response?.status).toBe(404);
+  });
+
+  test('responds 400 to an invalid sandbox name', async () => {
+    const response = await handler(
+      new Request('http://localhost/openhands-status?sandbox=-bad'),
+      { Sandbox: namespace }
+    );
+    expect(response?.status).toBe(400);
+  });
+
+  test('runs a task and returns its result', async () => {
+    await call('POST', '/start-openhands');
+
+    const started = await call('POST', '/tasks', { prompt: 'Say hi' });
+    expect(started?.status).toBe(202);
+    const { conversationId } = (await started!.json()) as {
+      conversationId: string;
+    };
+
+    const result = await call('GET', `/tasks/${conversationId}`);
+    expect(await result!.json()).toMatchObject({
+      conversationId,
+      status: 'finished',
+      done: true,
+      finalMessage: 'Done',
+    });
+  });
+
+  test('snapshots finished tasks on status polls', async () => {
+    const persistence = { adapter: new MemoryPersistenceAdapter() };
+    handler = createOpenhandsHandler({
+      persistence,
+      tasks: {
+        agent: () => ({
+          kind: 'Agent',
+          llm: { model: 'test-model', usage_id: 'agent' },
+        }),
+      },
+    });
+    await call('POST', '/start-openhands');
+    const started = await call('POST', '/tasks', { prompt: 'Say hi' });
+    const { conversationId } = (await started!.json()) as {
+      conversationId: string;
+    };
+    await namespace
+      .getSandbox('test')
+      .asSandbox()
+      .writeFile(
+        `/container-server/software-agent-sdk/workspace/conversations/${conversationId.replace(/-/g, '')}/base_state.json`,
+        '{}'
+      );
+
+    await call('GET', '/openhands-status');
+
+    expect(await persistence.adapter.list()).toEqual([conversationId]);
+  });
+
+  test('responds 402 to a task once the sandbox is over budget', async () => {
+    handler = createOpenhandsHandler({
+      usage: { budget: { maxTokens: 0 } },
+      tasks: {
+        agent: () => ({
+          kind: 'Agent',
+          llm: { model: 'test-model', usage_id: 'agent' },
+        }),
+      },
+    });
+    await call('POST', '/start-openhands');
+
+    const response = await call('POST', '/tasks', { prompt: 'Say hi' });
+
+    expect(response?.status).toBe(402);
+    expect(await response!.json()).toMatchObject({
+      code: 'OPENHANDS_BUDGET_EXCEEDED',
+    });
+  });
+
+  test('responds 400 to a task without a prompt', async () => {
+    await call('POST', '/start-openhands');
+
+    const response = await call('POST', '/tasks', {});
+
+    expect(response?.status).toBe(400);
+    expect(await response!.json()).toMatchObject({
+      code: 'OPENHANDS_INVALID_REQUEST',
+    });
+  });
+});
@@ -1,12 +1,61 @@
 import { getSandbox, proxyToSandbox } from '@cloudflare/sandbox';
-import type { Sandbox } from '@cloudflare/sandbox';
 import {
-  createOpenhandsServer,
-  proxyToOpenhands,
+  getPreviewHostname,
+  getRequestId,
+  withSpan,
+  type OpenhandsCloseOptions,
   type OpenhandsOptions,
-  type OpenhandsServer,
+  type OpenhandsServerCache,
+  type OpenhandsSupervisorOptions,
+  type OpenhandsUsageOptions,
+  type OpenhandsWorkspaceOptions,
 } from '../openhands';
-import { DEFAULT_AGENT_SERVER_PATH } from '../utils/agent-server';
+import {
+  authenticateOpenhandsRequest,
+  authorizeOpenhandsRequest,
+  openhandsAuthErrorResponse,
+  type OpenhandsAuthOptions,
+} from './auth';
+import { confirmationRoutes } from './confirmation';
+import {
+  methodNotAllowedResponse,
+  openhandsErrorResponse,
+  type OpenhandsErrorResponseOptions,
+} from './errors';
+import {
+  instanceRoutes,
+  type OpenhandsInstanceRoutesOptions,
+} from './instances';
+import type { OpenhandsRateLimiter } from './rate-limit';
+import {
+  buildOpenhandsOpenApi,
+  matchBasePath,
+  matchOpenhandsRoute,
+  type OpenhandsRouteDefinition,
+} from './router';
+import {
+  resolveOpenhandsSandboxName,
+  type OpenhandsSandboxNameOptions,
+} from './sandbox-name';
+import {
+  findOpenhandsServer,
+  serverRoutes,
+  type OpenhandsLogsRouteOptions,
+} from './server';
+import { jobRoutes, type OpenhandsJobRoutesOptions } from './jobs';
+import { taskRoutes, type OpenhandsTaskRoutesOptions } from './tasks';
+import { workspaceRoutes } from './workspace';
+
+export * from './adapters';
+export * from './auth';
+export * from './errors';
+export * from './rate-limit';
+export * from './router';
+export * from './sandbox-name';
+export type { OpenhandsInstanceRoutesOptions } from './instances';
+export type { OpenhandsJobRoutesOptions } from './jobs';
+export type { OpenhandsLogsRouteOptions } from './server';
+export type { OpenhandsTaskRoutesOptions } from './tasks';
 
 // Cloudflare Workers environment type constraint
 // Accepts any Env type that has a Sandbox property compatible with DurableObjectNamespace
@@ -20,65 +69,156 @@ export type OpenhandsEnv = {
   };
 };
 
+/**
+ * The part of the Worker's `ExecutionContext` used by the route handler
+ */
+export type OpenhandsExecutionContext = {
+  waitUntil(promise: Promise<unknown>): void;
+};
+
 /**
  * Options for OpenHands route handler
  */
-export interface OpenhandsHandlerOptions extends OpenhandsOptions {
-  /** Base path for OpenHands routes (default: '') */
+export interface OpenhandsHandlerOptions
+  extends OpenhandsOptions,
+    OpenhandsAuthOptions,
+    OpenhandsErrorResponseOptions {
+  /**
+   * Base path for OpenHands routes (default: ''). May contain `:param`
+   * segments read by `sandboxNameFromPath()`, e.g. '/sb/:sandbox'.
+   */
   basePath?: string;
-  /** Custom sandbox name resolver */
+  /**
+   * Custom sandbox name resolver
+   * @deprecated Use `sandboxNames.resolvers`
+   */
   getSandboxName?: (request: Request) => string | null;
+  /**
+   * How the sandbox of a request is named: resolvers, validation and
+   * allow-list. Requests without a name are rejected unless `sandboxName`
+   * is set as the default.
+   */
+  sandboxNames?: OpenhandsSandboxNameOptions;
+  /** Enable named instance routes under `${basePath}/instances` */
+  instances?: OpenhandsInstanceRoutesOptions;
+  /**
+   * Supervise the agent-server started by `/start-openhands` (opt-in).
+   * Checks run on `/openhands-status` requests; `interval` is ignored.
+   */
+  supervisor?: OpenhandsSupervisorOptions;
+  /** Drain and kill behaviour of `/stop-openhands` */
+  shutdown?: OpenhandsCloseOptions;
+  /** Enable workspace file routes under `${basePath}/workspace` */
+  workspace?: OpenhandsWorkspaceOptions;
+  /** Enable the `${basePath}/conversations/:id/pending` and `/confirmation` routes */
+  confirmation?: boolean;
+  /**
+   * Enable the `${basePath}/usage` route and budget enforcement. Running
+   * conversations over budget are paused when `/usage` or
+   * `/openhands-status` is requested, and `POST /tasks` and `POST /jobs`
+   * are refused with 402. Set `store` so spend survives deleted
+   * conversations and restarts.
+   */
+  usage?: OpenhandsUsageOptions;
+  /** Rate and concurrency limits applied to every route (create at module scope) */
+  rateLimit?: OpenhandsRateLimiter;
+  /** Cache resolved servers so repeated requests skip the process scan (create at module scope) */
+  serverCache?: OpenhandsServerCache;
+  /** Enable the `${basePath}/openhands-logs` route */
+  logs?: OpenhandsLogsRouteOptions;
+  /** Enable the `${basePath}/previews` routes for exposing extra ports */
+  previews?: boolean;
+  /** Enable the `${basePath}/tasks` routes for one-shot agent tasks */
+  tasks?: OpenhandsTaskRoutesOptions;
+  /** Enable the `${basePath}/jobs` routes for queued background tasks */
+  jobs?: OpenhandsJobRoutesOptions;
+  /** Serve an OpenAPI description of the enabled routes at `${basePath}/openapi.json` */
+  openapi?: boolean;
 }
 
 /**
- * Find existing OpenHands server by port
+ * Add the resolved sandbox name to an SDK JSON response (one with `success`)
  */
-async function findOpenhandsServer(
-  sandbox: Sandbox<unknown>,
-  port: number
-): Promise<OpenhandsServer | null> {
-  const processes = await sandbox.listProcesses();
-
-  for (const process of processes) {
-    // Match agent-server processes on the specified port
-    if (
-      process.command.includes(DEFAULT_AGENT_SERVER_PATH) &&
-      (process.command.includes(`--port ${port}`) ||
-        process.command.includes(`--port=${port}`)) &&
-      (process.status === 'running' || process.status === 'starting')
-    ) {
-      // Try to get exposed ports to find preview URL
-      let previewUrl: string | undefined;
-      try {
-        // Try to get exposed ports - hostname is optional
-        const exposedPorts = await sandbox.getExposedPorts('');
-        const exposed = exposedPorts.find((p) => p.port === port);
-        if (exposed) {
-          previewUrl = exposed.url;
-        }
-      } catch {
-        // Ignore errors getting exposed ports
-      }
-
-      return {
-        port,
-        url: `http://localhost:${port}`,
-        previewUrl,
-        processId: process.id,
-        async close() {
-          await process.kill('SIGTERM');
-        },
-      };
-    }
+async function echoSandboxName(
+  response: Response,
+  sandboxName: string
+): Promise<Response> {
+  if (!response.headers.get('Content-Type')?.includes('application/json')) {
+    return response;
   }
+  const body: unknown = await response
+    .clone()
+    .json()
+    .catch(() => null);
+  if (
+    !body ||
+    typeof body !== 'object' ||
+    Array.isArray(body) ||
+    !('success' in body)
+  ) {
+    return response;
+  }
+  const headers = new Headers(response.headers);
+  headers.delete('Content-Length');
+  return Response.json(
+    { sandboxName, ...body },
+    { status: response.status, statusText: response.statusText, headers }
+  );
+}
+
+/**
+ * Serves the OpenAPI description of the enabled routes
+ */
+const openapiRoute: OpenhandsRouteDefinition = {
+  name: 'openapi',
+  method: 'GET',
+  path: '/openapi.json',
+  summary: 'Describe the enabled routes as an OpenAPI document',
+  enabled: (options) => options.openapi === true,
+  async handle({ options }) {
+    return Response.json(
+      buildOpenhandsOpenApi(getOpenhandsRoutes(options), {
+        basePath: options.basePath,
+      })
+    );
+  },
+};
 
-  return null;
+/**
+ * List the routes enabled by the handler options, in matching order.
+ *
+ * @param options - Handler options
+ * @returns Route table (e.g. for `buildOpenhandsOpenApi()`)
+ *
+ * @example
+ * ```typescript
+ * const spec = buildOpenhandsOpenApi(getOpenhandsRoutes(options), {
+ *   basePath: '/agents',
+ * })
+ * ```
+ */
+export function getOpenhandsRoutes(
+  options: OpenhandsHandlerOptions = {}
+): OpenhandsRouteDefinition[] {
+  return [
+    ...serverRoutes,
+    ...confirmationRoutes,
+    ...instanceRoutes,
+    ...workspaceRoutes,
+    ...taskRoutes,
+    ...jobRoutes,
+    openapiRoute,
+  ].filter((route) => !route.enabled || route.enabled(options));
 }
 
 /**
  * Creates a middleware function that handles OpenHands routes.
  * Returns null if the request doesn't match OpenHands routes (allows chaining).
  *
+ * Pass the Worker's `ctx` so webhook deliveries continue with
+ * `ctx.waitUntil` after the response; without it they are not awaited
+ * either, but may be cut short when the response completes.
+ *
  * @param options - Configuration options
  * @returns Middleware function
  */
@@ -86,126 +226,142 @@ export function createOpenhandsHandler<Env extends OpenhandsEnv = OpenhandsEnv>(
   options: OpenhandsHandlerOptions = {}
 ) {
   const basePath = options.basePath || '';
-  const getSandboxName = options.getSandboxName || ((req) => {
-    const url = new URL(req.url);
-    return url.searchParams.get('sandbox');
-  });
+  const routes = getOpenhandsRoutes(options);
 
-  return async (
+  const handle = async (
     request: Request,
-    env: Env
+    env: Env,
+    ctx: OpenhandsExecutionContext | undefined
   ): Promise<Response | null> => {
-    const url = new URL(request.url);
-    const pathname = url.pathname;
-
-    // Extract sandbox name
-    const sandboxName = getSandboxName(request) || options.sandboxName || 'my-sandbox';
-    const sandbox = getSandbox(env.Sandbox, sandboxName);
-
     // Handle preview URL proxying (must be first)
     const proxyResponse = await proxyToSandbox(request, env);
     if (proxyResponse) {
       return proxyResponse;
     }
 
-    // Handle OpenHands routes
-    if (pathname === `${basePath}/start-openhands`) {
-      try {
-        // Extract hostname from request if not provided
-        const hostname = options.hostname || url.hostname;
+    const url = new URL(request.url);
+    let base: ReturnType<typeof matchBasePath>;
+    let match: ReturnType<typeof matchOpenhandsRoute>;
+    try {
+      base = matchBasePath(basePath, url.pathname);
+      match = base && matchOpenhandsRoute(routes, request.method, base.path);
+    } catch (error) {
+      // Malformed `%` escape in a path parameter
+      return openhandsErrorResponse(error, options);
+    }
+    if (!base) {
+      return null;
+    }
+    if (!match) {
+      // Request doesn't match OpenHands routes
+      return null;
+    }
+    if (!match.route) {
+      return methodNotAllowedResponse(match.allow);
+    }
 
-        const server = await createOpenhandsServer(sandbox, {
-          ...options,
-          hostname: options.exposePort ? hostname : undefined,
-        });
+    // Authenticate first, so sandbox name resolvers can read the caller's claims
+    const principal = await authenticateOpenhandsRequest(request, options);
+    if (principal instanceof Response) {
+      return principal;
+    }
 
-        return Response.json({
-          process: {
-            id: server.processId,
-            port: server.port,
-            status: 'running',
-          },
-          previewUrl: server.previewUrl
-            ? { url: server.previewUrl, port: server.port }
-            : undefined,
-          success: true,
-        });
-      } catch (error) {
-        return Response.json(
-          {
-            error: error instanceof Error ? error.message : String(error),
-            errorStack: error instanceof Error ? error.stack : undefined,
-            success: false,
-          },
-          { status: 500 }
-        );
-      }
+    let sandboxName: string | null;
+    try {
+      sandboxName = await resolveOpenhandsSandboxName(
+        request,
+        { url, params: base.params, principal },
+        options
+      );
+    } catch (error) {
+      return openhandsErrorResponse(error, options);
+    }
+    if (!sandboxName) {
+      return openhandsAuthErrorResponse(403);
     }
 
-    if (pathname === `${basePath}/stop-openhands`) {
-      try {
-        const port = options.port ?? 8001;
-        const server = await findOpenhandsServer(sandbox, port);
-        if (server) {
-          await server.close();
-          return Response.json({ success: true, message: 'Server stopped' });
-        }
-        return Response.json(
-          { success: false, message: 'No server running' },
-          { status: 404 }
-        );
-      } catch (error) {
-        return Response.json(
-          {
-            error: error instanceof Error ? error.message : String(error),
-            success: false,
-          },
-          { status: 500 }
-        );
-      }
+    const route = match.route;
+    const denied = await authorizeOpenhandsRequest(
+      request,
+      route.name,
+      sandboxName,
+      options,
+      principal
+    );
+    if (denied) {
+      return echoSandboxName(denied, sandboxName);
     }
 
-    if (pathname === `${basePath}/openhands-status`) {
-      try {
-        const port = options.port ?? 8001;
-        const server = await findOpenhandsServer(sandbox, port);
-        if (!server) {
-          return Response.json({
-            running: false,
-            success: true,
+    const sandbox = getSandbox(env.Sandbox, sandboxName);
+    // Resolved name, reported by webhooks, the preview URL hostname, and the
+    // request ID propagated to agent-server
+    const sandboxOptions = {
+      ...options,
+      sandboxName,
+      hostname: getPreviewHostname(url, options.hostname),
+      requestId: getRequestId(request),
+      // Route responses never wait for webhook deliveries and their retries
+      webhooks:
+        options.webhooks && !options.webhooks.waitUntil
+          ? {
+              ...options.webhooks,
+              waitUntil: (delivery: Promise<unknown>) =>
+                ctx?.waitUntil(delivery),
+            }
+          : options.webhooks,
+    };
+    const port = options.port ?? 8001;
+    const serverKey = `${sandboxName}:${port}`;
+
+    try {
+      return await withSpan(
+        sandboxOptions,
+        `openhands.route.${route.name}`,
+        {
+          'sandbox.name': sandboxName,
+          method: request.method,
+          path: route.path,
+        },
+        async (span) => {
+          const response = await route.handle({
+            request,
+            env,
+            url,
+            params: match.params,
+            sandbox,
+            sandboxName,
+            options: sandboxOptions,
+            port,
+            serverKey,
+            getServer: () =>
+              options.serverCache
+                ? options.serverCache.resolve(serverKey, () =>
+                    findOpenhandsServer(sandbox, port, sandboxOptions)
+                  )
+                : findOpenhandsServer(sandbox, port, sandboxOptions),
           });
+          span.setAttribute('status', response.status);
+          return echoSandboxName(response, sandboxName);
         }
-
-        // Verify process is still running
-        const processes = await sandbox.listProcesses();
-        const process = processes.find((p) => p.id === server.processId);
-
-        return Response.json({
-          running: process?.status === 'running',
-          port: server.port,
-          previewUrl: server.previewUrl,
-          process: process
-            ? {
-                id: process.id,
-                status: process.status,
-                command: process.command,
-              }
-            : null,
-          success: true,
-        });
-      } catch (error) {
-        return Response.json(
-          {
-            error: error instanceof Error ? error.message : String(error),
-            success: false,
-          },
-          { status: 500 }
-        );
-      }
+      );
+    } catch (error) {
+      return echoSandboxName(
+        openhandsErrorResponse(error, options),
+        sandboxName
+      );
     }
+  };
 
-    // Request doesn't match OpenHands routes
-    return null;
+  return async (
+    request: Request,
+    env: Env,
+    ctx?: OpenhandsExecutionContext
+  ): Promise<Response | null> => {
+    try {
+      return await handle(request, env, ctx);
+    } finally {
+      options.rateLimit?.release(request);
+    }
   };
 }
 
@@ -234,27 +390,33 @@ export function createOpenhandsHandler<Env extends OpenhandsEnv = OpenhandsEnv>(
 export function attachOpenhandsRoutes<Env extends OpenhandsEnv = OpenhandsEnv>(
   fetchHandler: (
     request: Request,
-    env: Env
+    env: Env,
+    ctx?: OpenhandsExecutionContext
   ) => Response | Promise<Response>,
   options: OpenhandsHandlerOptions = {}
 ): {
-  fetch: (request: Request, env: Env) => Promise<Response>;
+  fetch: (
+    request: Request,
+    env: Env,
+    ctx?: OpenhandsExecutionContext
+  ) => Promise<Response>;
 } {
   const openhandsHandler = createOpenhandsHandler<Env>(options);
 
   return {
     fetch: async (
       request: Request,
-      env: Env
+      env: Env,
+      ctx?: OpenhandsExecutionContext
     ): Promise<Response> => {
       // First, try OpenHands handler
-      const openhandsResponse = await openhandsHandler(request, env);
+      const openhandsResponse = await openhandsHandler(request, env, ctx);
       if (openhandsResponse !== null) {
         return openhandsResponse;
       }
 
       // Fall through to user's handler
-      return fetchHandler(request, env);
+      return fetchHandler(request, env, ctx);
     },
   };
 }
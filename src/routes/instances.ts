@@ -0,0 +1,158 @@
+import {
+  OpenhandsRegistry,
+  proxyToOpenhands,
+  type OpenhandsOptions,
+  type OpenhandsRegistryOptions,
+} from '../openhands';
+import { openhandsNotFoundResponse } from './errors';
+import type { OpenhandsHandlerOptions } from './handler';
+import {
+  readJsonBody,
+  type OpenhandsRouteContext,
+  type OpenhandsRouteDefinition,
+} from './router';
+
+/**
+ * Options for the named instance routes
+ */
+export interface OpenhandsInstanceRoutesOptions extends OpenhandsRegistryOptions {
+  /** Server options for a named instance (directory, env, LLM keys, ...) */
+  getInstanceOptions?: (
+    name: string,
+    request: Request
+  ) => OpenhandsOptions | Promise<OpenhandsOptions>;
+}
+
+/**
+ * Registry of the sandbox's named instances
+ */
+function getRegistry({ sandbox, options }: OpenhandsRouteContext) {
+  return new OpenhandsRegistry(sandbox, options.instances);
+}
+
+/**
+ * Server options configured for a named instance
+ */
+async function getInstanceOptions(
+  { request, options }: OpenhandsRouteContext,
+  name: string
+): Promise<OpenhandsOptions> {
+  return (await options.instances?.getInstanceOptions?.(name, request)) ?? {};
+}
+
+/**
+ * Whether the instance routes are enabled
+ */
+const instancesEnabled = (options: OpenhandsHandlerOptions) =>
+  options.instances !== undefined;
+
+/**
+ * Named instance routes:
+ * - `GET /instances` - list instances
+ * - `POST /instances/:name/start` - start (or reuse) an instance
+ * - `POST /instances/:name/stop` - stop an instance
+ * - `/instances/:name/proxy/*` - proxy a request to an instance
+ */
+export const instanceRoutes: OpenhandsRouteDefinition[] = [
+  {
+    name: 'instances',
+    method: 'GET',
+    path: '/instances',
+    summary: 'List named instances',
+    enabled: instancesEnabled,
+    async handle(context) {
+      const instances = await getRegistry(context).list();
+      return Response.json({ instances, success: true });
+    },
+  },
+  {
+    name: 'instance-start',
+    method: 'POST',
+    path: '/instances/:name/start',
+    summary: 'Start (or reuse) a named instance (`{ labels? }`)',
+    enabled: instancesEnabled,
+    async handle(context) {
+      const { request, params, options } = context;
+      const name = params.name!;
+      const body = await readJsonBody<{ labels: Record<string, string> }>(
+        request.clone()
+      );
+      const instanceOptions = await getInstanceOptions(context, name);
+      const exposePort = instanceOptions.exposePort ?? options.exposePort;
+      const hostname = instanceOptions.hostname || options.hostname;
+
+      // Only the instance's own options: the handler's supervisor,
+      // persistence and webhooks belong to the default server
+      const server = await getRegistry(context).start(name, {
+        logger: options.logger,
+        tracer: options.tracer,
+        requestId: options.requestId,
+        ...instanceOptions,
+        exposePort,
+        hostname: exposePort ? hostname : undefined,
+        labels: body.labels,
+      });
+
+      return Response.json({
+        instance: {
+          name,
+          port: server.port,
+          processId: server.processId,
+        },
+        previewUrl: server.previewUrl
+          ? { url: server.previewUrl, port: server.port }
+          : undefined,
+        success: true,
+      });
+    },
+  },
+  {
+    name: 'instance-stop',
+    method: 'POST',
+    path: '/instances/:name/stop',
+    summary: 'Stop a named instance',
+    enabled: instancesEnabled,
+    async handle(context) {
+      const { params, sandboxName, options } = context;
+      const name = params.name!;
+      options.serverCache?.delete(`${sandboxName}/instances/${name}`);
+      const stopped = await getRegistry(context).stop(name, options.shutdown);
+      if (!stopped) {
+        return openhandsNotFoundResponse(`No instance named ${name}`);
+      }
+      return Response.json({ success: true, message: 'Instance stopped' });
+    },
+  },
+  {
+    name: 'instance-proxy',
+    method: '*',
+    path: '/instances/:name/proxy/*',
+    summary: 'Proxy a request to a named instance',
+    enabled: instancesEnabled,
+    async handle(context) {
+      const { request, url, params, sandbox, sandboxName, options } = context;
+      const name = params.name!;
+      const lookup = async () =>
+        getRegistry(context).getServer(
+          name,
+          (await getInstanceOptions(context, name)).sessionApiKey
+        );
+      const server = options.serverCache
+        ? await options.serverCache.resolve(
+            `${sandboxName}/instances/${name}`,
+            lookup
+          )
+        : await lookup();
+      if (!server) {
+        return openhandsNotFoundResponse(`Instance ${name} is not running`);
+      }
+      const target = `${server.url}/${params['*']}${url.search}`;
+      return proxyToOpenhands(
+        new Request(target, request),
+        sandbox,
+        server,
+        options
+      );
+    },
+  },
+];
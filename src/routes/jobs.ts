@@ -0,0 +1,125 @@
+import {
+  assertWithinBudget,
+  isJobDone,
+  type OpenhandsJob,
+  type OpenhandsJobQueue,
+} from '../openhands';
+import { openhandsNotFoundResponse } from './errors';
+import type { OpenhandsEnv, OpenhandsHandlerOptions } from './handler';
+import type { OpenhandsRouteContext, OpenhandsRouteDefinition } from './router';
+import { parseTaskRequest, type OpenhandsTaskRoutesOptions } from './tasks';
+
+/**
+ * Options for the background job routes
+ */
+export interface OpenhandsJobRoutesOptions
+  extends Pick<OpenhandsTaskRoutesOptions, 'root' | 'maxIterations'> {
+  /** Job queue of a Worker environment, shared with the queue consumer */
+  getQueue(env: OpenhandsEnv): OpenhandsJobQueue;
+}
+
+/**
+ * Job queue of a request
+ */
+function getQueue({ env, options }: OpenhandsRouteContext): OpenhandsJobQueue {
+  return options.jobs!.getQueue(env);
+}
+
+/**
+ * Respond 404 for a job that doesn't exist or belongs to another sandbox
+ */
+function jobNotFound(jobId: string): Response {
+  return openhandsNotFoundResponse(`Job not found: ${jobId}`);
+}
+
+/**
+ * Whether a job can be seen through the request's sandbox
+ */
+function isVisible(
+  job: OpenhandsJob | null,
+  { sandboxName }: OpenhandsRouteContext
+): job is OpenhandsJob {
+  return job !== null && job.sandboxName === sandboxName;
+}
+
+/**
+ * Whether the job routes are enabled
+ */
+const jobsEnabled = (options: OpenhandsHandlerOptions) =>
+  options.jobs !== undefined;
+
+/**
+ * Background job routes, scoped to the request's sandbox:
+ * - `POST /jobs` - queue a task (JSON body `{ prompt, workspace?, maxIterations? }`)
+ * - `GET /jobs/:id` - get the status and result of a job
+ * - `POST /jobs/:id/cancel` - cancel a queued or running job
+ */
+export const jobRoutes: OpenhandsRouteDefinition[] = [
+  {
+    name: 'job-enqueue',
+    method: 'POST',
+    path: '/jobs',
+    summary:
+      'Queue a task to run in the background (`{ prompt, workspace?, maxIterations? }`)',
+    enabled: jobsEnabled,
+    async handle(context) {
+      const task = await parseTaskRequest(
+        context.request,
+        context.options.jobs!
+      );
+      // The consumer checks again before the job starts its conversation
+      if (context.options.usage) {
+        await assertWithinBudget(
+          context.sandbox,
+          await context.getServer(),
+          context.sandboxName,
+          context.options.usage
+        );
+      }
+      const job = await getQueue(context).enqueue(context.sandboxName, task);
+      context.options.rateLimit?.startRun(context.sandboxName, job.id);
+      return Response.json({ job, success: true }, { status: 202 });
+    },
+  },
+  {
+    name: 'job-status',
+    method: 'GET',
+    path: '/jobs/:id',
+    summary: 'Get the status and result of a background job',
+    enabled: jobsEnabled,
+    async handle(context) {
+      const jobId = context.params.id!;
+      const job = await getQueue(context).get(jobId);
+      if (!isVisible(job, context)) {
+        return jobNotFound(jobId);
+      }
+      if (isJobDone(job.status)) {
+        context.options.rateLimit?.endRun(job.id);
+      }
+      return Response.json({ job, success: true });
+    },
+  },
+  {
+    name: 'job-cancel',
+    method: 'POST',
+    path: '/jobs/:id/cancel',
+    summary: 'Cancel a queued or running background job',
+    enabled: jobsEnabled,
+    async handle(context) {
+      const jobId = context.params.id!;
+      const queue = getQueue(context);
+      if (!isVisible(await queue.get(jobId), context)) {
+        return jobNotFound(jobId);
+      }
+      const job = (await queue.cancel(jobId))!;
+      if (isJobDone(job.status)) {
+        context.options.rateLimit?.endRun(job.id);
+      }
+      return Response.json({
+        job,
+        cancelled: job.status === 'cancelled',
+        success: true,
+      });
+    },
+  },
+];
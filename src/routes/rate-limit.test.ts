@@ -0,0 +1,128 @@
+import { describe, expect, test } from 'bun:test';
+import { OpenhandsRateLimitError } from '../openhands';
+import { OpenhandsRateLimiter } from './rate-limit';
+
+/**
+ * Request from a client IP
+ */
+function request(ip = '203.0.113.1', method = 'POST'): Request {
+  return new Request('http://localhost/start-openhands', {
+    method,
+    headers: { 'CF-Connecting-IP': ip },
+  });
+}
+
+/**
+ * Scope of the rate limit error thrown by `admit`, or null if admitted
+ */
+function rejection(admit: () => void): string | null {
+  try {
+    admit();
+    return null;
+  } catch (error) {
+    expect(error).toBeInstanceOf(OpenhandsRateLimitError);
+    return (error as OpenhandsRateLimitError).context.scope;
+  }
+}
+
+describe('OpenhandsRateLimiter', () => {
+  test('caps concurrent runs per sandbox until released', () => {
+    const limiter = new OpenhandsRateLimiter({ maxConcurrentRuns: 1 });
+    const first = request();
+
+    limiter.acquire(first, 'start', 'a', null);
+    expect(
+      rejection(() => limiter.acquire(request(), 'start', 'a', null))
+    ).toBe('concurrency');
+    expect(
+      rejection(() => limiter.acquire(request(), 'start', 'b', null))
+    ).toBe(null);
+
+    limiter.release(first);
+    expect(
+      rejection(() => limiter.acquire(request(), 'start', 'a', null))
+    ).toBe(null);
+  });
+
+  test('does not count requests that start no run', () => {
+    const limiter = new OpenhandsRateLimiter({ maxConcurrentRuns: 1 });
+
+    limiter.acquire(request(), 'start', 'a', null);
+
+    expect(
+      rejection(() => limiter.acquire(request(), 'status', 'a', null))
+    ).toBe(null);
+  });
+
+  test('acquire and release leave detached runs counted once', () => {
+    const limiter = new OpenhandsRateLimiter({ maxConcurrentRuns: 2 });
+    limiter.startRun('a', 'task-1');
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const inFlight = request();
+      limiter.acquire(inFlight, 'task-start', 'a', null);
+      expect(
+        rejection(() => limiter.acquire(request(), 'task-start', 'a', null))
+      ).toBe('concurrency');
+      limiter.release(inFlight);
+    }
+
+    limiter.endRun('task-1');
+    const [first, second] = [request(), request()];
+    limiter.acquire(first, 'task-start', 'a', null);
+    limiter.acquire(second, 'task-start', 'a', null);
+  });
+
+  test('expires detached runs after runTimeout', async () => {
+    const limiter = new OpenhandsRateLimiter({
+      maxConcurrentRuns: 1,
+      runTimeout: 10,
+    });
+    limiter.startRun('a', 'job-1');
+    expect(
+      rejection(() => limiter.acquire(request(), 'job-enqueue', 'a', null))
+    ).toBe('concurrency');
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(
+      rejection(() => limiter.acquire(request(), 'job-enqueue', 'a', null))
+    ).toBe(null);
+  });
+
+  test('limits requests per sandbox and per client', () => {
+    const limiter = new OpenhandsRateLimiter({
+      perSandbox: { capacity: 2, refillPerSecond: 0.001 },
+      perClient: { capacity: 1, refillPerSecond: 0.001 },
+    });
+
+    limiter.acquire(request('198.51.100.1'), 'status', 'a', null);
+    expect(
+      rejection(() =>
+        limiter.acquire(request('198.51.100.1'), 'status', 'a', null)
+      )
+    ).toBe('client');
+    // The rejected request took no sandbox token
+    limiter.acquire(request('198.51.100.2'), 'status', 'a', null);
+    expect(
+      rejection(() =>
+        limiter.acquire(request('198.51.100.3'), 'status', 'a', null)
+      )
+    ).toBe('sandbox');
+  });
+
+  test('only applies to the configured routes', () => {
+    const limiter = new OpenhandsRateLimiter({
+      perSandbox: { capacity: 1, refillPerSecond: 0.001 },
+      routes: ['start'],
+    });
+
+    limiter.acquire(request(), 'start', 'a', null);
+    expect(
+      rejection(() => limiter.acquire(request(), 'status', 'a', null))
+    ).toBe(null);
+    expect(
+      rejection(() => limiter.acquire(request(), 'start', 'a', null))
+    ).toBe('sandbox');
+  });
+});
@@ -0,0 +1,304 @@
+import { OpenhandsRateLimitError } from '../openhands';
+import type { OpenhandsPrincipal, OpenhandsRouteName } from './auth';
+
+/**
+ * Token bucket settings
+ */
+export interface OpenhandsTokenBucketOptions {
+  /** Maximum burst of requests */
+  capacity: number;
+  /** Tokens added back per second */
+  refillPerSecond: number;
+}
+
+/**
+ * Options for request rate limiting
+ */
+export interface OpenhandsRateLimitOptions {
+  /** Token bucket per sandbox name */
+  perSandbox?: OpenhandsTokenBucketOptions;
+  /** Token bucket per client identity */
+  perClient?: OpenhandsTokenBucketOptions;
+  /**
+   * Identify the client of a request (default: the authenticated principal,
+   * then the `CF-Connecting-IP` header). Returning null skips the client limit.
+   */
+  identify?: (
+    request: Request,
+    principal: OpenhandsPrincipal | null
+  ) => string | null;
+  /**
+   * Maximum concurrent agent runs per sandbox: in-flight `/start-openhands`
+   * and instance start requests, POST requests proxied to instances, and
+   * tasks and jobs until they end
+   */
+  maxConcurrentRuns?: number;
+  /**
+   * Time in ms after which a task or job still counted as running is assumed
+   * to have ended, e.g. when its status is never polled (default: 600000)
+   */
+  runTimeout?: number;
+  /** Routes the limits apply to (default: all) */
+  routes?: OpenhandsRouteName[];
+}
+
+/**
+ * Default client identity: principal ID, then connecting IP
+ */
+function defaultIdentify(
+  request: Request,
+  principal: OpenhandsPrincipal | null
+): string | null {
+  return principal?.id ?? request.headers.get('CF-Connecting-IP');
+}
+
+const DEFAULT_RUN_TIMEOUT = 600_000;
+const BUCKET_SWEEP_INTERVAL = 60_000;
+
+/**
+ * Whether a route request starts or drives an agent run
+ */
+function isAgentRun(route: OpenhandsRouteName, request: Request): boolean {
+  return (
+    route === 'start' ||
+    route === 'instance-start' ||
+    route === 'task-start' ||
+    route === 'job-enqueue' ||
+    (route === 'instance-proxy' && request.method === 'POST')
+  );
+}
+
+/**
+ * In-isolate token buckets keyed by sandbox name or client identity
+ */
+class TokenBuckets {
+  private readonly options: OpenhandsTokenBucketOptions;
+  private readonly buckets = new Map<
+    string,
+    { tokens: number; updatedAt: number }
+  >();
+  private sweptAt = Date.now();
+
+  constructor(options: OpenhandsTokenBucketOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Seconds until a token is available, or 0 if one is now
+   */
+  wait(key: string): number {
+    const bucket = this.refill(key);
+    if (bucket.tokens >= 1) {
+      return 0;
+    }
+    return Math.ceil((1 - bucket.tokens) / this.options.refillPerSecond);
+  }
+
+  /**
+   * Take a token, once `wait()` has returned 0
+   */
+  take(key: string): void {
+    this.refill(key).tokens -= 1;
+  }
+
+  /**
+   * Bucket of a key, with the tokens added back since it was last used
+   */
+  private refill(key: string): { tokens: number; updatedAt: number } {
+    const now = Date.now();
+    const { capacity, refillPerSecond } = this.options;
+    if (now - this.sweptAt >= BUCKET_SWEEP_INTERVAL) {
+      this.sweep(now);
+    }
+    const bucket = this.buckets.get(key) ?? {
+      tokens: capacity,
+      updatedAt: now,
+    };
+    bucket.tokens = Math.min(
+      capacity,
+      bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond
+    );
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+    return bucket;
+  }
+
+  /**
+   * Drop buckets that have refilled, which behave like missing ones
+   */
+  private sweep(now: number): void {
+    const { capacity, refillPerSecond } = this.options;
+    for (const [key, bucket] of this.buckets) {
+      const refilled =
+        bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond;
+      if (refilled >= capacity) {
+        this.buckets.delete(key);
+      }
+    }
+    this.sweptAt = now;
+  }
+}
+
+/**
+ * Request limiter for the OpenHands routes.
+ *
+ * Applies token buckets per sandbox name and per client identity, and caps
+ * the agent runs in flight per sandbox. Tasks and jobs keep counting after
+ * the request that started them, until their status route sees them end or
+ * `runTimeout` passes. State lives in the isolate, so create the limiter at
+ * module scope and pass it as the `rateLimit` handler option. Limits are per
+ * isolate, not global.
+ *
+ * @example
+ * ```typescript
+ * const rateLimit = new OpenhandsRateLimiter({
+ *   perSandbox: { capacity: 20, refillPerSecond: 5 },
+ *   perClient: { capacity: 10, refillPerSecond: 1 },
+ *   maxConcurrentRuns: 2,
+ * })
+ *
+ * export default attachOpenhandsRoutes(handler, { rateLimit })
+ * ```
+ */
+export class OpenhandsRateLimiter {
+  private readonly options: OpenhandsRateLimitOptions;
+  private readonly sandboxBuckets?: TokenBuckets;
+  private readonly clientBuckets?: TokenBuckets;
+  private readonly runs = new Map<string, number>();
+  // Sandbox holding a run slot, per request
+  private readonly slots = new WeakMap<Request, string>();
+  // Tasks and jobs still running after their request, by run ID
+  private readonly detachedRuns = new Map<
+    string,
+    { sandboxName: string; expiresAt: number }
+  >();
+
+  constructor(options: OpenhandsRateLimitOptions) {
+    this.options = options;
+    if (options.perSandbox) {
+      this.sandboxBuckets = new TokenBuckets(options.perSandbox);
+    }
+    if (options.perClient) {
+      this.clientBuckets = new TokenBuckets(options.perClient);
+    }
+  }
+
+  /**
+   * Admit a route request, taking a run slot if it starts an agent run.
+   * Tokens are only taken once every limit admits the request. Call
+   * `release()` once the request is handled.
+   *
+   * @throws OpenhandsRateLimitError if a limit is exceeded
+   */
+  acquire(
+    request: Request,
+    route: OpenhandsRouteName,
+    sandboxName: string,
+    principal: OpenhandsPrincipal | null
+  ): void {
+    if (this.options.routes && !this.options.routes.includes(route)) {
+      return;
+    }
+
+    const sandboxWait = this.sandboxBuckets?.wait(sandboxName) ?? 0;
+    if (sandboxWait > 0) {
+      throw new OpenhandsRateLimitError(
+        `Too many requests for sandbox ${sandboxName}`,
+        { scope: 'sandbox', key: sandboxName, retryAfter: sandboxWait }
+      );
+    }
+
+    const client = (this.options.identify ?? defaultIdentify)(
+      request,
+      principal
+    );
+    const clientWait = client ? (this.clientBuckets?.wait(client) ?? 0) : 0;
+    if (client && clientWait > 0) {
+      throw new OpenhandsRateLimitError('Too many requests', {
+        scope: 'client',
+        key: client,
+        retryAfter: clientWait,
+      });
+    }
+
+    const maxRuns = this.options.maxConcurrentRuns;
+    const startsRun = maxRuns !== undefined && isAgentRun(route, request);
+    if (startsRun) {
+      const running =
+        (this.runs.get(sandboxName) ?? 0) + this.countDetachedRuns(sandboxName);
+      if (running >= maxRuns) {
+        throw new OpenhandsRateLimitError(
+          `Sandbox ${sandboxName} already has ${running} agent runs in progress`,
+          { scope: 'concurrency', key: sandboxName, retryAfter: 1 }
+        );
+      }
+    }
+
+    this.sandboxBuckets?.take(sandboxName);
+    if (client) {
+      this.clientBuckets?.take(client);
+    }
+    if (startsRun) {
+      // Only in-flight requests are stored; detached runs are counted apart
+      this.runs.set(sandboxName, (this.runs.get(sandboxName) ?? 0) + 1);
+      this.slots.set(request, sandboxName);
+    }
+  }
+
+  /**
+   * Release the run slot held by a request, if any
+   */
+  release(request: Request): void {
+    const sandboxName = this.slots.get(request);
+    if (sandboxName === undefined) {
+      return;
+    }
+    this.slots.delete(request);
+    const running = (this.runs.get(sandboxName) ?? 1) - 1;
+    if (running > 0) {
+      this.runs.set(sandboxName, running);
+    } else {
+      this.runs.delete(sandboxName);
+    }
+  }
+
+  /**
+   * Keep counting a run that continues after its request (a task or job)
+   * against the sandbox, until `endRun()` or `runTimeout`
+   *
+   * @param sandboxName - Sandbox the run belongs to
+   * @param runId - Conversation or job ID
+   */
+  startRun(sandboxName: string, runId: string): void {
+    if (this.options.maxConcurrentRuns === undefined) {
+      return;
+    }
+    this.detachedRuns.set(runId, {
+      sandboxName,
+      expiresAt: Date.now() + (this.options.runTimeout ?? DEFAULT_RUN_TIMEOUT),
+    });
+  }
+
+  /**
+   * Stop counting a run started with `startRun()`
+   */
+  endRun(runId: string): void {
+    this.detachedRuns.delete(runId);
+  }
+
+  /**
+   * Count the sandbox's detached runs, dropping expired ones
+   */
+  private countDetachedRuns(sandboxName: string): number {
+    const now = Date.now();
+    let count = 0;
+    for (const [runId, run] of this.detachedRuns) {
+      if (run.expiresAt <= now) {
+        this.detachedRuns.delete(runId);
+      } else if (run.sandboxName === sandboxName) {
+        count++;
+      }
+    }
+    return count;
+  }
+}
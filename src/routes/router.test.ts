@@ -0,0 +1,123 @@
+import { describe, expect, test } from 'bun:test';
+import { OpenhandsInvalidRequestError } from '../openhands';
+import {
+  matchBasePath,
+  matchOpenhandsRoute,
+  readJsonBody,
+  type OpenhandsRouteDefinition,
+} from './router';
+
+/**
+ * Route definition that only needs to be matched
+ */
+function route(
+  name: OpenhandsRouteDefinition['name'],
+  method: OpenhandsRouteDefinition['method'],
+  path: string
+): OpenhandsRouteDefinition {
+  return {
+    name,
+    method,
+    path,
+    summary: name,
+    handle: async () => new Response(null),
+  };
+}
+
+const ROUTES = [
+  route('task-start', 'POST', '/tasks'),
+  route('task-status', 'GET', '/tasks/:id'),
+  route('workspace-read', 'GET', '/workspace/files/*'),
+  route('workspace-delete', 'DELETE', '/workspace/files/*'),
+];
+
+/**
+ * POST request with a raw body
+ */
+function post(body?: string): Request {
+  return new Request('http://localhost/tasks', { method: 'POST', body });
+}
+
+describe('readJsonBody', () => {
+  test('reads a JSON object', async () => {
+    expect(await readJsonBody(post('{"prompt":"hi"}'))).toEqual({
+      prompt: 'hi',
+    });
+  });
+
+  test('reads a missing body as an empty object', async () => {
+    expect(await readJsonBody(post())).toEqual({});
+    expect(await readJsonBody(post('  '))).toEqual({});
+  });
+
+  test('rejects malformed JSON', async () => {
+    await expect(readJsonBody(post('{"prompt":'))).rejects.toBeInstanceOf(
+      OpenhandsInvalidRequestError
+    );
+  });
+
+  test('rejects JSON values that are not objects', async () => {
+    for (const body of ['null', '[]', '"text"', '42']) {
+      await expect(readJsonBody(post(body))).rejects.toBeInstanceOf(
+        OpenhandsInvalidRequestError
+      );
+    }
+  });
+});
+
+describe('matchOpenhandsRoute', () => {
+  test('matches the method and decodes path parameters', () => {
+    const match = matchOpenhandsRoute(ROUTES, 'GET', '/tasks/a%20b/');
+
+    expect(match?.route?.name).toBe('task-status');
+    expect(match && 'params' in match && match.params).toEqual({ id: 'a b' });
+  });
+
+  test('passes the rest of the path as the wildcard parameter', () => {
+    const match = matchOpenhandsRoute(
+      ROUTES,
+      'DELETE',
+      '/workspace/files/src/index.ts'
+    );
+
+    expect(match?.route?.name).toBe('workspace-delete');
+    expect(match && 'params' in match && match.params).toEqual({
+      '*': 'src/index.ts',
+    });
+  });
+
+  test('returns the allowed methods for a known path', () => {
+    expect(matchOpenhandsRoute(ROUTES, 'PUT', '/workspace/files/a')).toEqual({
+      route: null,
+      allow: ['GET', 'DELETE'],
+    });
+  });
+
+  test('returns null for unknown paths', () => {
+    expect(matchOpenhandsRoute(ROUTES, 'GET', '/task')).toBeNull();
+    expect(matchOpenhandsRoute(ROUTES, 'GET', '/tasks/a/b')).toBeNull();
+  });
+
+  test('rejects malformed escapes in parameters', () => {
+    expect(() => matchOpenhandsRoute(ROUTES, 'GET', '/tasks/%E0%A4%A')).toThrow(
+      OpenhandsInvalidRequestError
+    );
+  });
+});
+
+describe('matchBasePath', () => {
+  test('strips the base path and reads its parameters', () => {
+    expect(matchBasePath('/sb/:sandbox', '/sb/team-a/tasks')).toEqual({
+      params: { sandbox: 'team-a' },
+      path: '/tasks',
+    });
+    expect(matchBasePath('/agents', '/agents')).toEqual({
+      params: {},
+      path: '/',
+    });
+  });
+
+  test('does not match paths that only share a prefix', () => {
+    expect(matchBasePath('/agents', '/agents-old/tasks')).toBeNull();
+  });
+});
@@ -0,0 +1,301 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import {
+  OpenhandsInvalidRequestError,
+  type OpenhandsServer,
+} from '../openhands';
+import type { OpenhandsRouteName } from './auth';
+import type { OpenhandsEnv, OpenhandsHandlerOptions } from './handler';
+
+/**
+ * HTTP methods accepted by route definitions ('*' matches any method)
+ */
+export type OpenhandsRouteMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | '*';
+
+/**
+ * Request state passed to a route handler
+ */
+export interface OpenhandsRouteContext {
+  request: Request;
+  /** Worker environment the request was handled with */
+  env: OpenhandsEnv;
+  url: URL;
+  /** Path parameters; a trailing `*` segment is available as `params['*']` */
+  params: Record<string, string>;
+  sandbox: Sandbox<unknown>;
+  sandboxName: string;
+  /**
+   * Handler options, with `sandboxName` set to the resolved name and
+   * `hostname` to the preview URL hostname (configured or the request host)
+   */
+  options: OpenhandsHandlerOptions & { sandboxName: string };
+  /** Agent-server port of the sandbox */
+  port: number;
+  /** Key of the sandbox's server in `serverCache` */
+  serverKey: string;
+  /** Find the running agent-server (through `serverCache` when configured) */
+  getServer(): Promise<OpenhandsServer | null>;
+}
+
+/**
+ * Declarative definition of an OpenHands route
+ */
+export interface OpenhandsRouteDefinition {
+  /** Route name, used for authorization and as the OpenAPI operation ID */
+  name: OpenhandsRouteName;
+  method: OpenhandsRouteMethod;
+  /** Path below `basePath`, with `:param` segments and an optional trailing `*` */
+  path: string;
+  /** One-line description for the OpenAPI document */
+  summary: string;
+  /** Query parameters and their descriptions */
+  query?: Record<string, string>;
+  /** Whether the route is enabled for the handler options (default: always) */
+  enabled?: (options: OpenhandsHandlerOptions) => boolean;
+  handle(context: OpenhandsRouteContext): Promise<Response>;
+}
+
+/**
+ * Result of matching a request against a route table
+ */
+export type OpenhandsRouteMatch =
+  | {
+      route: OpenhandsRouteDefinition;
+      params: Record<string, string>;
+    }
+  | {
+      route: null;
+      /** Methods accepted on the path, for the 405 `Allow` header */
+      allow: string[];
+    };
+
+/**
+ * Compiled path patterns, cached per path
+ */
+const patternCache = new Map<string, { regex: RegExp; keys: string[] }>();
+
+/**
+ * Compiled `basePath` prefixes, cached per base path
+ */
+const prefixCache = new Map<string, { regex: RegExp; keys: string[] }>();
+
+/**
+ * Compile a route path into a regular expression
+ */
+function compilePath(path: string): { regex: RegExp; keys: string[] } {
+  const cached = patternCache.get(path);
+  if (cached) {
+    return cached;
+  }
+
+  const keys: string[] = [];
+  let source = '';
+  for (const segment of path.split('/').filter(Boolean)) {
+    if (segment === '*') {
+      keys.push('*');
+      source += '(?:/(.*))?';
+    } else if (segment.startsWith(':')) {
+      keys.push(segment.slice(1));
+      source += '/([^/]+)';
+    } else {
+      source += `/${segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&')}`;
+    }
+  }
+  // Fixed paths also match with a trailing slash
+  const suffix = keys.at(-1) === '*' ? '' : '/?';
+  const compiled = { regex: new RegExp(`^${source}${suffix}$`), keys };
+  patternCache.set(path, compiled);
+  return compiled;
+}
+
+/**
+ * Decode a path parameter. Throws OpenhandsInvalidRequestError for a
+ * malformed `%` escape.
+ */
+function decodeParam(key: string, value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new OpenhandsInvalidRequestError(`Malformed path parameter: ${key}`, {
+      field: key,
+      value,
+    });
+  }
+}
+
+/**
+ * Match a path against a route path. Returns the decoded parameters, or
+ * null if the path doesn't match. Throws OpenhandsInvalidRequestError if a
+ * parameter can't be decoded.
+ */
+export function matchRoutePath(
+  routePath: string,
+  path: string
+): Record<string, string> | null {
+  const { regex, keys } = compilePath(routePath);
+  const match = regex.exec(path);
+  if (!match) {
+    return null;
+  }
+  const params: Record<string, string> = {};
+  keys.forEach((key, index) => {
+    const value = match[index + 1] ?? '';
+    params[key] = key === '*' ? value : decodeParam(key, value);
+  });
+  return params;
+}
+
+/**
+ * Match the `basePath` prefix of a request path. The base path may contain
+ * `:param` segments (e.g. `/sb/:sandbox`).
+ *
+ * @returns The decoded parameters of the prefix and the rest of the path,
+ * or null if the path is outside the base path
+ * @throws OpenhandsInvalidRequestError if a parameter can't be decoded
+ */
+export function matchBasePath(
+  basePath: string,
+  pathname: string
+): { params: Record<string, string>; path: string } | null {
+  let compiled = prefixCache.get(basePath);
+  if (!compiled) {
+    const keys: string[] = [];
+    const source = basePath
+      .split('/')
+      .filter(Boolean)
+      .map((segment) => {
+        if (segment.startsWith(':')) {
+          keys.push(segment.slice(1));
+          return '/([^/]+)';
+        }
+        return `/${segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`;
+      })
+      .join('');
+    compiled = { regex: new RegExp(`^${source}(?=/|$)`), keys };
+    prefixCache.set(basePath, compiled);
+  }
+
+  const match = compiled.regex.exec(pathname);
+  if (!match) {
+    return null;
+  }
+  const params: Record<string, string> = {};
+  compiled.keys.forEach((key, index) => {
+    params[key] = decodeParam(key, match[index + 1] ?? '');
+  });
+  return { params, path: pathname.slice(match[0].length) || '/' };
+}
+
+/**
+ * Find the route for a request method and path (relative to `basePath`).
+ * Returns null if no route has the path, or the allowed methods if routes
+ * have the path but not the method. Throws OpenhandsInvalidRequestError if a
+ * path parameter can't be decoded.
+ */
+export function matchOpenhandsRoute(
+  routes: OpenhandsRouteDefinition[],
+  method: string,
+  path: string
+): OpenhandsRouteMatch | null {
+  const allow: string[] = [];
+  for (const route of routes) {
+    const params = matchRoutePath(route.path, path);
+    if (!params) {
+      continue;
+    }
+    if (route.method === '*' || route.method === method) {
+      return { route, params };
+    }
+    allow.push(route.method);
+  }
+  return allow.length > 0 ? { route: null, allow } : null;
+}
+
+/**
+ * Read the JSON object body of a route request. A missing (empty) body
+ * reads as `{}`; malformed JSON or any other JSON value (e.g. `null` or an
+ * array) throws OpenhandsInvalidRequestError.
+ */
+export async function readJsonBody<T extends object>(request: {
+  text(): Promise<string>;
+}): Promise<Partial<T>> {
+  const text = await request.text();
+  if (text.trim() === '') {
+    return {};
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new OpenhandsInvalidRequestError('Request body must be valid JSON', {
+      field: 'body',
+    });
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new OpenhandsInvalidRequestError(
+      'Request body must be a JSON object',
+      { field: 'body', value: body }
+    );
+  }
+  return body as Partial<T>;
+}
+
+/**
+ * Convert a route path to OpenAPI form (`:id` → `{id}`, `*` → `{path}`)
+ */
+function toOpenApiPath(path: string): string {
+  return path.replace(/:([^/]+)/g, '{$1}').replace(/\/\*$/, '/{path}');
+}
+
+/**
+ * Describe routes as an OpenAPI 3.1 document.
+ *
+ * @param routes - Route table (e.g. from `getOpenhandsRoutes()`)
+ * @param options.basePath - Prefix of every path (default: '')
+ * @param options.title - API title (default: 'OpenHands')
+ */
+export function buildOpenhandsOpenApi(
+  routes: OpenhandsRouteDefinition[],
+  options: { basePath?: string; title?: string } = {}
+): Record<string, unknown> {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of routes) {
+    const path = toOpenApiPath(`${options.basePath ?? ''}${route.path}`);
+    const pathParams = [...path.matchAll(/\{([^}]+)\}/g)].map((match) => ({
+      name: match[1],
+      in: 'path',
+      required: true,
+      schema: { type: 'string' },
+    }));
+    const queryParams = Object.entries(route.query ?? {}).map(
+      ([name, description]) => ({
+        name,
+        in: 'query',
+        description,
+        schema: { type: 'string' },
+      })
+    );
+    const methods =
+      route.method === '*'
+        ? ['get', 'post', 'put', 'delete']
+        : [route.method.toLowerCase()];
+    for (const method of methods) {
+      (paths[path] ??= {})[method] = {
+        operationId:
+          methods.length > 1 ? `${route.name}-${method}` : route.name,
+        summary: route.summary,
+        parameters: [...pathParams, ...queryParams],
+        responses: {
+          default: {
+            description:
+              'JSON body with `success`; failures include `error` and `code`',
+          },
+        },
+      };
+    }
+  }
+  return {
+    openapi: '3.1.0',
+    info: { title: options.title ?? 'OpenHands', version: '1.0.0' },
+    paths,
+  };
+}
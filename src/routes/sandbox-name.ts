@@ -0,0 +1,192 @@
+import { OpenhandsInvalidRequestError } from '../openhands';
+import type { OpenhandsPrincipal } from './auth';
+
+/**
+ * Request state available to sandbox name resolvers
+ */
+export interface OpenhandsSandboxNameContext {
+  url: URL;
+  /** Parameters captured by `basePath` (e.g. `sandbox` for `/sb/:sandbox`) */
+  params: Record<string, string>;
+  /** Authenticated caller, when `authenticate` is configured */
+  principal: OpenhandsPrincipal | null;
+}
+
+/**
+ * Reads a sandbox name from a request. Returning null or undefined lets the
+ * next resolver try.
+ */
+export type OpenhandsSandboxNameResolver = (
+  request: Request,
+  context: OpenhandsSandboxNameContext
+) => string | null | undefined | Promise<string | null | undefined>;
+
+/**
+ * Decides whether a resolved name may be used. Returning a string uses that
+ * sandbox instead (e.g. a per-tenant mapping); false or null rejects the
+ * request with 403.
+ */
+export type OpenhandsSandboxNameFilter = (
+  name: string,
+  context: OpenhandsSandboxNameContext & { request: Request }
+) => string | boolean | null | Promise<string | boolean | null>;
+
+/**
+ * How the route handler names the sandbox of a request
+ */
+export interface OpenhandsSandboxNameOptions {
+  /** Resolvers tried in order; the first name found wins (default: `[sandboxNameFromQuery()]`) */
+  resolvers?: OpenhandsSandboxNameResolver[];
+  /** Lowercase names before validating them (default: false) */
+  lowercase?: boolean;
+  /** Pattern names must match (default: `DEFAULT_SANDBOX_NAME_PATTERN`) */
+  pattern?: RegExp;
+  /** Allowed names, or a callback allowing, mapping or rejecting a name */
+  allow?: string[] | OpenhandsSandboxNameFilter;
+}
+
+/**
+ * Default pattern for sandbox names: 1-63 letters, digits, '-' or '_',
+ * starting with a letter or digit
+ */
+export const DEFAULT_SANDBOX_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,62}$/;
+
+/**
+ * Read the sandbox name from a query parameter.
+ *
+ * @param param - Query parameter (default: 'sandbox')
+ */
+export function sandboxNameFromQuery(
+  param = 'sandbox'
+): OpenhandsSandboxNameResolver {
+  return (_request, { url }) => url.searchParams.get(param);
+}
+
+/**
+ * Read the sandbox name from a request header.
+ *
+ * @param header - Header name (default: 'X-Sandbox-Name')
+ */
+export function sandboxNameFromHeader(
+  header = 'X-Sandbox-Name'
+): OpenhandsSandboxNameResolver {
+  return (request) => request.headers.get(header);
+}
+
+/**
+ * Read the sandbox name from a `basePath` parameter, e.g. with
+ * `basePath: '/sb/:sandbox'` requests to `/sb/team-a/openhands-status` use
+ * sandbox 'team-a'.
+ *
+ * @param param - Base path parameter (default: 'sandbox')
+ */
+export function sandboxNameFromPath(
+  param = 'sandbox'
+): OpenhandsSandboxNameResolver {
+  return (_request, { params }) => params[param];
+}
+
+/**
+ * Read the sandbox name from a cookie.
+ *
+ * @param cookie - Cookie name (default: 'openhands_sandbox')
+ */
+export function sandboxNameFromCookie(
+  cookie = 'openhands_sandbox'
+): OpenhandsSandboxNameResolver {
+  return (request) => {
+    for (const pair of (request.headers.get('Cookie') || '').split(';')) {
+      const [name, ...value] = pair.trim().split('=');
+      if (name === cookie) {
+        try {
+          return decodeURIComponent(value.join('='));
+        } catch {
+          // Malformed escape: treat the cookie as missing
+          return null;
+        }
+      }
+    }
+    return null;
+  };
+}
+
+/**
+ * Read the sandbox name from a claim of the authenticated caller, such as
+ * a field of the Cloudflare Access JWT verified by `cloudflareAccessAuth`.
+ * Requires `authenticate`; unverified tokens are never read.
+ *
+ * @param claim - Claim name (default: 'sub')
+ */
+export function sandboxNameFromClaim(
+  claim = 'sub'
+): OpenhandsSandboxNameResolver {
+  return (_request, { principal }) => {
+    const value = principal?.claims?.[claim];
+    return typeof value === 'string' ? value : null;
+  };
+}
+
+/**
+ * Resolve, validate and filter the sandbox name of a request. Throws
+ * OpenhandsInvalidRequestError if no resolver finds a name and there is no
+ * default, or if the name is invalid.
+ *
+ * @param request - Incoming request
+ * @param context - URL, base path parameters and authenticated caller
+ * @param options - Name options, resolver and default sandbox name
+ * @returns The sandbox name, or null if `allow` rejects it
+ */
+export async function resolveOpenhandsSandboxName(
+  request: Request,
+  context: OpenhandsSandboxNameContext,
+  options: {
+    sandboxNames?: OpenhandsSandboxNameOptions;
+    getSandboxName?: (request: Request) => string | null;
+    sandboxName?: string;
+  }
+): Promise<string | null> {
+  const nameOptions = options.sandboxNames ?? {};
+  const resolvers =
+    nameOptions.resolvers ??
+    (options.getSandboxName
+      ? [options.getSandboxName]
+      : [sandboxNameFromQuery()]);
+
+  let name: string | undefined;
+  for (const resolver of resolvers) {
+    name = (await resolver(request, context))?.trim() || undefined;
+    if (name) {
+      break;
+    }
+  }
+  // Only an explicitly configured default stands in for a missing name
+  name ??= options.sandboxName;
+  if (!name) {
+    throw new OpenhandsInvalidRequestError('Sandbox name is required', {
+      field: 'sandbox',
+    });
+  }
+
+  if (nameOptions.lowercase) {
+    name = name.toLowerCase();
+  }
+  if (!(nameOptions.pattern ?? DEFAULT_SANDBOX_NAME_PATTERN).test(name)) {
+    throw new OpenhandsInvalidRequestError(`Invalid sandbox name: ${name}`, {
+      field: 'sandbox',
+      value: name,
+    });
+  }
+
+  const allow = nameOptions.allow;
+  if (Array.isArray(allow)) {
+    return allow.includes(name) ? name : null;
+  }
+  if (allow) {
+    const allowed = await allow(name, { ...context, request });
+    if (typeof allowed === 'string') {
+      return allowed;
+    }
+    return allowed ? name : null;
+  }
+  return name;
+}
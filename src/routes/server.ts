@@ -0,0 +1,442 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import {
+  checkConversationTransitions,
+  collectUsage,
+  createOpenhandsServer,
+  exposePreview,
+  getOptionSecrets,
+  getServerLogs,
+  listPreviews,
+  OpenhandsInvalidRequestError,
+  OpenhandsSupervisor,
+  proxyOpenhandsEvents,
+  revokeExpiredPreviews,
+  revokePreview,
+  snapshotSettledConversations,
+  streamOpenhandsEvents,
+  streamServerLogs,
+  type OpenhandsLogsOptions,
+  type OpenhandsOptions,
+  type OpenhandsPreviewOptions,
+  type OpenhandsServer,
+} from '../openhands';
+import { closeAgentServer } from '../openhands/shutdown';
+import {
+  DEFAULT_AGENT_SERVER_DIR,
+  isAgentServerCommand,
+  resolveAgentServerCommand,
+} from '../utils/agent-server';
+import { openhandsNotFoundResponse } from './errors';
+import type { OpenhandsHandlerOptions } from './handler';
+import { readJsonBody, type OpenhandsRouteDefinition } from './router';
+
+/**
+ * Supervisor of the route handler's server. Nothing outlives a request, so
+ * it never probes on a timer; `/openhands-status` runs its checks instead.
+ */
+function getSupervisor(
+  sandbox: Sandbox<unknown>,
+  options: OpenhandsHandlerOptions
+): OpenhandsSupervisor {
+  return new OpenhandsSupervisor(sandbox, options, {
+    ...options.supervisor,
+    interval: 0,
+  });
+}
+
+/**
+ * Find existing OpenHands server started with the configured command
+ */
+export async function findOpenhandsServer(
+  sandbox: Sandbox<unknown>,
+  port: number,
+  options: OpenhandsOptions
+): Promise<OpenhandsServer | null> {
+  const command = await resolveAgentServerCommand(
+    sandbox,
+    port,
+    options.directory || DEFAULT_AGENT_SERVER_DIR,
+    options
+  );
+  if (!command) {
+    return null;
+  }
+
+  const processes = await sandbox.listProcesses();
+
+  for (const process of processes) {
+    // Match agent-server processes on the port, whatever their arguments
+    if (
+      (process.command === command ||
+        isAgentServerCommand(process.command, port, options.executablePath)) &&
+      (process.status === 'running' || process.status === 'starting')
+    ) {
+      // Try to get exposed ports to find preview URL
+      let previewUrl: string | undefined;
+      try {
+        // Preview URLs are built on the hostname
+        const exposedPorts = await sandbox.getExposedPorts(
+          options.hostname ?? ''
+        );
+        const exposed = exposedPorts.find((p) => p.port === port);
+        if (exposed) {
+          previewUrl = exposed.url;
+        }
+      } catch {
+        // Ignore errors getting exposed ports
+      }
+
+      const server: OpenhandsServer = {
+        port,
+        url: `http://localhost:${port}`,
+        previewUrl,
+        processId: process.id,
+        sessionApiKey: options.sessionApiKey,
+        close(closeOptions) {
+          return closeAgentServer(
+            sandbox,
+            server,
+            process,
+            closeOptions,
+            previewUrl !== undefined,
+            options
+          );
+        },
+      };
+      return server;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse the `:port` parameter of a preview route
+ */
+function parsePort(value: string | undefined): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1024 || port > 65535) {
+    throw new OpenhandsInvalidRequestError(`Invalid port: ${value}`, {
+      field: 'port',
+      value,
+    });
+  }
+  return port;
+}
+
+/**
+ * Options for the `/openhands-logs` route
+ */
+export interface OpenhandsLogsRouteOptions {
+  /** Redact `env` values and the session API key from the output (default: true) */
+  redact?: boolean;
+}
+
+/**
+ * Parse a non-negative integer query parameter
+ */
+function parseCount(url: URL, name: string): number | undefined {
+  const value = url.searchParams.get(name);
+  if (value === null) {
+    return undefined;
+  }
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new OpenhandsInvalidRequestError(
+      `${name} must be a non-negative integer`,
+      { field: name, value }
+    );
+  }
+  return count;
+}
+
+/**
+ * Whether the preview routes are enabled
+ */
+const previewsEnabled = (options: OpenhandsHandlerOptions) =>
+  options.previews === true;
+
+/**
+ * Agent-server lifecycle, status, log, event, usage and preview routes
+ */
+export const serverRoutes: OpenhandsRouteDefinition[] = [
+  {
+    name: 'start',
+    method: 'POST',
+    path: '/start-openhands',
+    summary: 'Start the agent-server, or reuse the running one',
+    async handle({ sandbox, options, serverKey }) {
+      const start = () =>
+        options.supervisor
+          ? getSupervisor(sandbox, options).start()
+          : createOpenhandsServer(sandbox, options);
+      const server = options.serverCache
+        ? await options.serverCache.resolve(serverKey, start)
+        : await start();
+
+      return Response.json({
+        process: {
+          id: server.processId,
+          port: server.port,
+          status: 'running',
+        },
+        previewUrl: server.previewUrl
+          ? { url: server.previewUrl, port: server.port }
+          : undefined,
+        timings: server.timings,
+        success: true,
+      });
+    },
+  },
+  {
+    name: 'stop',
+    method: 'POST',
+    path: '/stop-openhands',
+    summary: 'Drain and stop the agent-server',
+    async handle({ sandbox, options, port, serverKey }) {
+      options.serverCache?.delete(serverKey);
+      const server = await findOpenhandsServer(sandbox, port, options);
+      if (!server) {
+        return openhandsNotFoundResponse('No server running');
+      }
+      const shutdown = await server.close(options.shutdown);
+      return Response.json({
+        success: true,
+        message: 'Server stopped',
+        shutdown,
+      });
+    },
+  },
+  {
+    name: 'status',
+    method: 'GET',
+    path: '/openhands-status',
+    summary: 'Get agent-server process, supervisor and budget status',
+    async handle({ sandbox, sandboxName, options, port }) {
+      // Status polls drive the supervisor: probe (and restart) before
+      // reporting, so the process found below is the current one
+      const supervisor = options.supervisor
+        ? await getSupervisor(sandbox, options).check()
+        : undefined;
+      // Not cached: status reports the live process state
+      const server = await findOpenhandsServer(sandbox, port, options);
+      if (!server) {
+        return Response.json({
+          running: false,
+          supervisor,
+          success: true,
+        });
+      }
+
+      // Verify process is still running
+      const processes = await sandbox.listProcesses();
+      const process = processes.find((p) => p.id === server.processId);
+
+      // Status polls double as conversation transition checks (the
+      // supervisor's check already ran them)
+      if (
+        options.webhooks &&
+        !options.supervisor &&
+        process?.status === 'running'
+      ) {
+        await checkConversationTransitions(sandbox, server, options).catch(
+          () => {}
+        );
+      }
+
+      // ...as snapshots of conversations whose turn ended, since the
+      // container can sleep or be recycled without close()...
+      if (
+        options.persistence &&
+        options.persistence.snapshotOnSettle !== false &&
+        process?.status === 'running'
+      ) {
+        await snapshotSettledConversations(
+          sandbox,
+          server,
+          options.persistence,
+          { directory: options.directory }
+        ).catch(() => []);
+      }
+
+      // ...and as budget checks, pausing conversations over budget
+      const budget =
+        options.usage?.budget && process?.status === 'running'
+          ? await collectUsage(sandbox, server, sandboxName, options.usage)
+              .then((report) => report.budget)
+              .catch(() => undefined)
+          : undefined;
+
+      return Response.json({
+        running: process?.status === 'running',
+        port: server.port,
+        previewUrl: server.previewUrl,
+        process: process
+          ? {
+              id: process.id,
+              status: process.status,
+              command: process.command,
+            }
+          : null,
+        supervisor,
+        budget,
+        success: true,
+      });
+    },
+  },
+  {
+    name: 'logs',
+    method: 'GET',
+    path: '/openhands-logs',
+    summary:
+      'Read agent-server stdout/stderr, or tail them as SSE with `follow=true`',
+    query: {
+      stream: '`stdout`, `stderr` or `both` (default)',
+      limit: 'Maximum lines per stream (default: 200)',
+      since: 'Line offset to read from (`next` of the previous page)',
+      follow: 'Stream output as Server-Sent Events (`true`)',
+    },
+    enabled: (options) => options.logs !== undefined,
+    async handle({ url, sandbox, options, getServer }) {
+      const server = await getServer();
+      if (!server) {
+        return openhandsNotFoundResponse('No server running');
+      }
+
+      const stream = url.searchParams.get('stream') ?? 'both';
+      if (stream !== 'stdout' && stream !== 'stderr' && stream !== 'both') {
+        throw new OpenhandsInvalidRequestError(
+          `Unsupported stream: ${stream}`,
+          { field: 'stream', value: stream }
+        );
+      }
+      const secrets =
+        options.logs?.redact === false ? [] : getOptionSecrets(options);
+
+      if (url.searchParams.get('follow') === 'true') {
+        return streamServerLogs(sandbox, server, { stream, secrets });
+      }
+      const logsOptions: OpenhandsLogsOptions = {
+        stream,
+        limit: parseCount(url, 'limit'),
+        since: parseCount(url, 'since'),
+        secrets,
+      };
+      const logs = await getServerLogs(sandbox, server, logsOptions);
+      return Response.json({ ...logs, success: true });
+    },
+  },
+  {
+    name: 'events',
+    method: 'GET',
+    path: '/conversations/:id/events',
+    summary:
+      'Stream conversation events (WebSocket with `Upgrade: websocket`, SSE otherwise)',
+    query: { resend_all: 'Replay past events first (`true`)' },
+    async handle({ request, url, params, sandbox, getServer }) {
+      const server = await getServer();
+      if (!server) {
+        return openhandsNotFoundResponse('No server running');
+      }
+
+      const conversationId = params.id!;
+      const streamOptions = {
+        resendAll: url.searchParams.get('resend_all') === 'true',
+      };
+      if (request.headers.get('Upgrade')?.toLowerCase() === 'websocket') {
+        return proxyOpenhandsEvents(
+          request,
+          sandbox,
+          server,
+          conversationId,
+          streamOptions
+        );
+      }
+      return streamOpenhandsEvents(
+        sandbox,
+        server,
+        conversationId,
+        streamOptions
+      );
+    },
+  },
+  {
+    name: 'usage',
+    method: 'GET',
+    path: '/usage',
+    summary: 'Report token and cost usage, pausing conversations over budget',
+    enabled: (options) => options.usage !== undefined,
+    async handle({ sandbox, sandboxName, options, getServer }) {
+      const server = await getServer();
+      if (!server) {
+        return openhandsNotFoundResponse('No server running');
+      }
+      const report = await collectUsage(
+        sandbox,
+        server,
+        sandboxName,
+        options.usage
+      );
+      return Response.json({ ...report, success: true });
+    },
+  },
+  {
+    name: 'previews',
+    method: 'GET',
+    path: '/previews',
+    summary: 'List exposed ports and their preview URLs',
+    enabled: previewsEnabled,
+    async handle({ sandbox, options }) {
+      const previews = await listPreviews(sandbox, options.hostname!);
+      return Response.json({ previews, success: true });
+    },
+  },
+  {
+    name: 'preview-expose',
+    method: 'POST',
+    path: '/previews/:port',
+    summary:
+      'Expose a port as a preview URL (`{ name?, expiresIn?, rotate? }`)',
+    enabled: previewsEnabled,
+    async handle({ request, params, sandbox, options }) {
+      const port = parsePort(params.port);
+      const body = await readJsonBody<OpenhandsPreviewOptions>(request);
+      await revokeExpiredPreviews(sandbox);
+      if (
+        body.expiresIn !== undefined &&
+        !(typeof body.expiresIn === 'number' && body.expiresIn > 0)
+      ) {
+        throw new OpenhandsInvalidRequestError(
+          'expiresIn must be a positive number of seconds',
+          { field: 'expiresIn', value: body.expiresIn }
+        );
+      }
+      const preview = await exposePreview(sandbox, port, {
+        hostname: options.hostname!,
+        name: body.name,
+        expiresIn: body.expiresIn,
+        rotate: body.rotate === true,
+      });
+      return Response.json({ preview, success: true });
+    },
+  },
+  {
+    name: 'preview-revoke',
+    method: 'POST',
+    path: '/previews/:port/revoke',
+    summary: 'Revoke the preview URL of a port',
+    enabled: previewsEnabled,
+    async handle({ params, sandbox, options, port, serverKey }) {
+      const previewPort = parsePort(params.port);
+      await revokeExpiredPreviews(sandbox);
+      if (previewPort === port) {
+        // The cached server handle carries the revoked URL
+        options.serverCache?.delete(serverKey);
+      }
+      if (!(await revokePreview(sandbox, previewPort))) {
+        return openhandsNotFoundResponse(`Port ${previewPort} is not exposed`);
+      }
+      return Response.json({ success: true, message: 'Preview revoked' });
+    },
+  },
+];
@@ -0,0 +1,168 @@
+import {
+  assertWithinBudget,
+  getTaskResult,
+  resolveWorkspacePath,
+  snapshotSettledConversations,
+  startTask,
+  DEFAULT_WORKSPACE_ROOT,
+  OpenhandsInvalidRequestError,
+  type AgentConfig,
+  type OpenhandsJobTask,
+} from '../openhands';
+import { openhandsNotFoundResponse } from './errors';
+import type { OpenhandsHandlerOptions } from './handler';
+import { readJsonBody, type OpenhandsRouteDefinition } from './router';
+
+/**
+ * Options for the task routes
+ */
+export interface OpenhandsTaskRoutesOptions {
+  /** Agent configuration for a task (e.g. `() => agents.build()`) */
+  agent: (request: Request) => AgentConfig | Promise<AgentConfig>;
+  /** Root that task workspaces are resolved against (default: '/workspace') */
+  root?: string;
+  /** Upper bound for `maxIterations` (default: no bound) */
+  maxIterations?: number;
+  /** Only count LLMs with these usage IDs in task usage (default: all) */
+  usageIds?: string[];
+}
+
+/**
+ * Request body of `POST /tasks` and `POST /jobs`
+ */
+interface TaskRequestBody {
+  prompt?: unknown;
+  workspace?: unknown;
+  maxIterations?: unknown;
+}
+
+/**
+ * Validate the JSON body of a task request, resolving its workspace inside
+ * the workspace root and capping its iterations
+ *
+ * @param request - Request with a `{ prompt, workspace?, maxIterations? }` body
+ * @param limits - Workspace root and iteration cap
+ * @returns The task, without an agent configuration
+ */
+export async function parseTaskRequest(
+  request: Request,
+  limits: Pick<OpenhandsTaskRoutesOptions, 'root' | 'maxIterations'>
+): Promise<OpenhandsJobTask> {
+  const body = await readJsonBody<TaskRequestBody>(request);
+  if (typeof body.prompt !== 'string' || body.prompt.trim() === '') {
+    throw new OpenhandsInvalidRequestError('prompt is required', {
+      field: 'prompt',
+      value: body.prompt,
+    });
+  }
+  if (body.workspace !== undefined && typeof body.workspace !== 'string') {
+    throw new OpenhandsInvalidRequestError('workspace must be a path', {
+      field: 'workspace',
+      value: body.workspace,
+    });
+  }
+  const maxIterations = body.maxIterations;
+  if (
+    maxIterations !== undefined &&
+    !(
+      typeof maxIterations === 'number' &&
+      Number.isInteger(maxIterations) &&
+      maxIterations > 0 &&
+      maxIterations <= (limits.maxIterations ?? Infinity)
+    )
+  ) {
+    throw new OpenhandsInvalidRequestError(
+      limits.maxIterations
+        ? `maxIterations must be an integer from 1 to ${limits.maxIterations}`
+        : 'maxIterations must be a positive integer',
+      { field: 'maxIterations', value: maxIterations }
+    );
+  }
+
+  return {
+    prompt: body.prompt,
+    workspace: resolveWorkspacePath(
+      body.workspace ?? '',
+      limits.root ?? DEFAULT_WORKSPACE_ROOT
+    ),
+    maxIterations: maxIterations ?? limits.maxIterations,
+  };
+}
+
+/**
+ * Whether the task routes are enabled
+ */
+const tasksEnabled = (options: OpenhandsHandlerOptions) =>
+  options.tasks !== undefined;
+
+/**
+ * Task routes:
+ * - `POST /tasks` - start a task (JSON body `{ prompt, workspace?, maxIterations? }`)
+ * - `GET /tasks/:id` - get the status and result of a task
+ */
+export const taskRoutes: OpenhandsRouteDefinition[] = [
+  {
+    name: 'task-start',
+    method: 'POST',
+    path: '/tasks',
+    summary:
+      'Start a task in a new conversation (`{ prompt, workspace?, maxIterations? }`)',
+    enabled: tasksEnabled,
+    async handle({ request, sandbox, sandboxName, options, getServer }) {
+      const server = await getServer();
+      if (!server) {
+        return openhandsNotFoundResponse('No server running');
+      }
+
+      const tasks = options.tasks!;
+      const task = await parseTaskRequest(request, tasks);
+      if (options.usage) {
+        await assertWithinBudget(sandbox, server, sandboxName, options.usage);
+      }
+      const conversationId = await startTask(
+        sandbox,
+        server,
+        { ...task, agent: await tasks.agent(request) },
+        options
+      );
+      options.rateLimit?.startRun(sandboxName, conversationId);
+      return Response.json({ conversationId, success: true }, { status: 202 });
+    },
+  },
+  {
+    name: 'task-status',
+    method: 'GET',
+    path: '/tasks/:id',
+    summary:
+      'Get the status, final message, event summary, changes and usage of a task',
+    enabled: tasksEnabled,
+    async handle({ params, sandbox, options, getServer }) {
+      const server = await getServer();
+      if (!server) {
+        return openhandsNotFoundResponse('No server running');
+      }
+      const result = await getTaskResult(
+        sandbox,
+        server,
+        params.id!,
+        { usageIds: options.tasks!.usageIds },
+        options
+      );
+      if (result.done) {
+        options.rateLimit?.endRun(result.conversationId);
+        if (
+          options.persistence &&
+          options.persistence.snapshotOnSettle !== false
+        ) {
+          await snapshotSettledConversations(
+            sandbox,
+            server,
+            options.persistence,
+            { directory: options.directory, conversationIds: [params.id!] }
+          ).catch(() => []);
+        }
+      }
+      return Response.json({ ...result, success: true });
+    },
+  },
+];
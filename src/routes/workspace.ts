@@ -0,0 +1,200 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import {
+  archiveWorkspace,
+  deleteWorkspaceFile,
+  listWorkspaceFiles,
+  readWorkspaceFile,
+  resolveWorkspacePath,
+  writeWorkspaceFile,
+  DEFAULT_WORKSPACE_ROOT,
+  OpenhandsInvalidRequestError,
+} from '../openhands';
+import { openhandsNotFoundResponse } from './errors';
+import type { OpenhandsHandlerOptions } from './handler';
+import type { OpenhandsRouteContext, OpenhandsRouteDefinition } from './router';
+
+/**
+ * Respond 404 for a missing workspace path
+ */
+function notFound(path: string): Response {
+  return openhandsNotFoundResponse(`No such file or directory: ${path}`);
+}
+
+/**
+ * Decode base64 content into bytes
+ */
+function fromBase64(content: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(content);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Resolve the `path` query parameter and workspace root of a request
+ */
+function workspaceTarget({ url, options }: OpenhandsRouteContext): {
+  path: string;
+  root: string;
+} {
+  return {
+    path: url.searchParams.get('path') ?? '',
+    root: options.workspace?.root ?? DEFAULT_WORKSPACE_ROOT,
+  };
+}
+
+/**
+ * Whether a workspace path exists
+ */
+async function exists(
+  sandbox: Sandbox<unknown>,
+  path: string,
+  root: string
+): Promise<boolean> {
+  return (await sandbox.exists(resolveWorkspacePath(path, root))).exists;
+}
+
+/**
+ * Whether the workspace routes are enabled
+ */
+const workspaceEnabled = (options: OpenhandsHandlerOptions) =>
+  options.workspace !== undefined;
+
+/**
+ * Workspace routes:
+ * - `GET /workspace/files?path=&recursive=&hidden=` - list a directory
+ * - `GET /workspace/file?path=` - download a file
+ * - `PUT /workspace/file?path=` - upload a file (request body is the content)
+ * - `DELETE /workspace/file?path=&recursive=` - delete a file or directory
+ * - `GET /workspace/archive?path=&format=tar|zip` - download a directory as an archive
+ */
+export const workspaceRoutes: OpenhandsRouteDefinition[] = [
+  {
+    name: 'workspace-list',
+    method: 'GET',
+    path: '/workspace/files',
+    summary: 'List a workspace directory',
+    query: {
+      path: 'Directory relative to the workspace root',
+      recursive: 'List subdirectories (`true`)',
+      hidden: 'Include hidden files (`true`)',
+    },
+    enabled: workspaceEnabled,
+    async handle(context) {
+      const { path, root } = workspaceTarget(context);
+      if (!(await exists(context.sandbox, path, root))) {
+        return notFound(path);
+      }
+      const files = await listWorkspaceFiles(context.sandbox, path, {
+        root,
+        recursive: context.url.searchParams.get('recursive') === 'true',
+        includeHidden: context.url.searchParams.get('hidden') === 'true',
+      });
+      return Response.json({ files, success: true });
+    },
+  },
+  {
+    name: 'workspace-read',
+    method: 'GET',
+    path: '/workspace/file',
+    summary: 'Download a workspace file',
+    query: { path: 'File relative to the workspace root' },
+    enabled: workspaceEnabled,
+    async handle(context) {
+      const { path, root } = workspaceTarget(context);
+      if (!(await exists(context.sandbox, path, root))) {
+        return notFound(path);
+      }
+      const file = await readWorkspaceFile(context.sandbox, path, { root });
+      return new Response(
+        file.encoding === 'base64' ? fromBase64(file.content) : file.content,
+        {
+          headers: {
+            'Content-Type': file.mimeType || 'application/octet-stream',
+          },
+        }
+      );
+    },
+  },
+  {
+    name: 'workspace-write',
+    method: 'PUT',
+    path: '/workspace/file',
+    summary: 'Upload a workspace file (the request body is the content)',
+    query: { path: 'File relative to the workspace root' },
+    enabled: workspaceEnabled,
+    async handle(context) {
+      const { path, root } = workspaceTarget(context);
+      const content = new Uint8Array(await context.request.arrayBuffer());
+      const written = await writeWorkspaceFile(context.sandbox, path, content, {
+        root,
+      });
+      return Response.json({
+        path: written,
+        size: content.byteLength,
+        success: true,
+      });
+    },
+  },
+  {
+    name: 'workspace-delete',
+    method: 'DELETE',
+    path: '/workspace/file',
+    summary: 'Delete a workspace file or directory',
+    query: {
+      path: 'Path relative to the workspace root',
+      recursive: 'Delete a non-empty directory (`true`)',
+    },
+    enabled: workspaceEnabled,
+    async handle(context) {
+      const { path, root } = workspaceTarget(context);
+      if (!(await exists(context.sandbox, path, root))) {
+        return notFound(path);
+      }
+      await deleteWorkspaceFile(context.sandbox, path, {
+        root,
+        recursive: context.url.searchParams.get('recursive') === 'true',
+      });
+      return Response.json({ success: true, message: 'Deleted' });
+    },
+  },
+  {
+    name: 'workspace-archive',
+    method: 'GET',
+    path: '/workspace/archive',
+    summary: 'Download a workspace directory as an archive',
+    query: {
+      path: 'Directory relative to the workspace root',
+      format: '`tar` (default) or `zip`',
+    },
+    enabled: workspaceEnabled,
+    async handle(context) {
+      const { path, root } = workspaceTarget(context);
+      const format = context.url.searchParams.get('format') ?? 'tar';
+      if (format !== 'tar' && format !== 'zip') {
+        throw new OpenhandsInvalidRequestError(
+          `Unsupported archive format: ${format}`,
+          { field: 'format', value: format }
+        );
+      }
+      if (!(await exists(context.sandbox, path, root))) {
+        return notFound(path);
+      }
+      const archive = await archiveWorkspace(context.sandbox, {
+        root,
+        path,
+        format,
+      });
+      const filename = format === 'zip' ? 'workspace.zip' : 'workspace.tar.gz';
+      return new Response(archive, {
+        headers: {
+          'Content-Type':
+            format === 'zip' ? 'application/zip' : 'application/gzip',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      });
+    },
+  },
+];
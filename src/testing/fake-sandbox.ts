@@ -0,0 +1,767 @@
+import type {
+  ExecResult,
+  Process,
+  ProcessStatus,
+  Sandbox,
+  WaitForPortOptions,
+} from '@cloudflare/sandbox';
+import {
+  StubAgentServer,
+  type StubAgentServerOptions,
+} from './stub-agent-server';
+
+/**
+ * Request handler serving a port in the fake sandbox
+ */
+export type FakeFetchHandler = (
+  request: Request
+) => Response | Promise<Response>;
+
+/**
+ * How a process started in the fake sandbox behaves
+ */
+export interface FakeProcessBehavior {
+  /** Status the process moves to once started (default: 'running') */
+  status?: ProcessStatus;
+  /** Time in ms the process stays 'starting' (default: 0) */
+  startupDelay?: number;
+  /** Exit code when `status` is terminal */
+  exitCode?: number;
+  stdout?: string;
+  stderr?: string;
+  /** Port the process listens on once running */
+  port?: number;
+  /** Handler serving `port` */
+  fetch?: FakeFetchHandler;
+  /** Keep running after SIGTERM (only SIGKILL stops it) */
+  ignoreSigterm?: boolean;
+}
+
+/**
+ * Options for the fake sandbox
+ */
+export interface FakeSandboxOptions {
+  /** Sandbox name used in preview URLs (default: 'my-sandbox') */
+  name?: string;
+  /**
+   * Decide how a started process behaves. Returning undefined falls back to
+   * the default: agent-server commands serve a StubAgentServer on their
+   * `--port`, other commands just run.
+   */
+  onStartProcess?: (
+    command: string,
+    options: { cwd?: string; env?: Record<string, string> }
+  ) => FakeProcessBehavior | undefined;
+  /**
+   * Result of `exec()`. Returning undefined falls back to the default:
+   * `realpath -m` prints its arguments (the fake has no symlinks), the lock
+   * file commands of the SDK act on the fake filesystem, and other commands
+   * succeed with empty output.
+   */
+  onExec?: (
+    command: string,
+    options: { cwd?: string; env?: Record<string, string> }
+  ) => Partial<ExecResult> | undefined;
+  /** Options for the default StubAgentServer */
+  agentServer?: StubAgentServerOptions;
+}
+
+const TERMINAL_STATUSES: ProcessStatus[] = [
+  'completed',
+  'failed',
+  'killed',
+  'error',
+];
+
+/**
+ * Process running in a FakeSandbox
+ */
+export class FakeProcess implements Process {
+  readonly id: string;
+  readonly pid: number;
+  readonly command: string;
+  readonly startTime = new Date();
+  status: ProcessStatus = 'starting';
+  endTime?: Date;
+  exitCode?: number;
+  stdout: string;
+  stderr: string;
+  private readonly sandbox: FakeSandbox;
+  private readonly behavior: FakeProcessBehavior;
+
+  constructor(
+    sandbox: FakeSandbox,
+    id: string,
+    pid: number,
+    command: string,
+    behavior: FakeProcessBehavior
+  ) {
+    this.sandbox = sandbox;
+    this.id = id;
+    this.pid = pid;
+    this.command = command;
+    this.behavior = behavior;
+    this.stdout = behavior.stdout ?? '';
+    this.stderr = behavior.stderr ?? '';
+  }
+
+  /**
+   * Move the process to a new status. Terminal statuses free its port.
+   */
+  setStatus(status: ProcessStatus, exitCode?: number): void {
+    this.status = status;
+    if (TERMINAL_STATUSES.includes(status)) {
+      this.exitCode =
+        exitCode ?? this.exitCode ?? (status === 'completed' ? 0 : 1);
+      this.endTime = new Date();
+      if (this.behavior.port !== undefined) {
+        this.sandbox.unlisten(this.behavior.port, this);
+      }
+    } else if (
+      status === 'running' &&
+      this.behavior.port !== undefined &&
+      this.behavior.fetch
+    ) {
+      if (!this.sandbox.listen(this.behavior.port, this.behavior.fetch, this)) {
+        // Like a real server, fail when another process holds the port
+        this.stderr += `[Errno 98] error while attempting to bind on address ('0.0.0.0', ${this.behavior.port}): address already in use\n`;
+        this.setStatus('failed', 1);
+      }
+    }
+  }
+
+  async kill(signal = 'SIGTERM'): Promise<void> {
+    if (TERMINAL_STATUSES.includes(this.status)) {
+      return;
+    }
+    if (signal === 'SIGTERM' && this.behavior.ignoreSigterm) {
+      return;
+    }
+    this.setStatus('killed', signal === 'SIGKILL' ? 137 : 143);
+  }
+
+  async getStatus(): Promise<ProcessStatus> {
+    return this.status;
+  }
+
+  async getLogs(): Promise<{ stdout: string; stderr: string }> {
+    return { stdout: this.stdout, stderr: this.stderr };
+  }
+
+  async waitForLog(
+    pattern: string | RegExp,
+    timeout?: number
+  ): Promise<{ line: string; match?: RegExpMatchArray }> {
+    await this.poll(timeout, 'log', () => {
+      const lines = `${this.stdout}\n${this.stderr}`.split('\n');
+      return lines.some((line) =>
+        typeof pattern === 'string'
+          ? line.includes(pattern)
+          : pattern.test(line)
+      );
+    });
+    const lines = `${this.stdout}\n${this.stderr}`.split('\n');
+    const line = lines.find((candidate) =>
+      typeof pattern === 'string'
+        ? candidate.includes(pattern)
+        : pattern.test(candidate)
+    )!;
+    return {
+      line,
+      match:
+        typeof pattern === 'string'
+          ? undefined
+          : (line.match(pattern) ?? undefined),
+    };
+  }
+
+  async waitForPort(
+    port: number,
+    options: WaitForPortOptions = {}
+  ): Promise<void> {
+    await this.poll(
+      options.timeout,
+      `port ${port}`,
+      async () => {
+        if (TERMINAL_STATUSES.includes(this.status)) {
+          throw new Error(
+            `Process ${this.id} exited with code ${this.exitCode} before port ${port} was ready`
+          );
+        }
+        if (!this.sandbox.isListening(port)) {
+          return false;
+        }
+        if (options.mode === 'tcp') {
+          return true;
+        }
+        const response = await this.sandbox.containerFetch(
+          new Request(`http://localhost:${port}${options.path ?? '/'}`),
+          port
+        );
+        const expected = options.status ?? { min: 200, max: 399 };
+        return typeof expected === 'number'
+          ? response.status === expected
+          : response.status >= expected.min && response.status <= expected.max;
+      },
+      options.interval
+    );
+  }
+
+  async waitForExit(timeout?: number): Promise<{ exitCode: number }> {
+    await this.poll(timeout, 'exit', () =>
+      TERMINAL_STATUSES.includes(this.status)
+    );
+    return { exitCode: this.exitCode ?? 0 };
+  }
+
+  /**
+   * Poll a condition until it holds or the timeout expires
+   */
+  private async poll(
+    timeout: number | undefined,
+    what: string,
+    condition: () => boolean | Promise<boolean>,
+    interval = 10
+  ): Promise<void> {
+    const deadline = timeout === undefined ? Infinity : Date.now() + timeout;
+    for (;;) {
+      if (await condition()) {
+        return;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out after ${timeout}ms waiting for ${what}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+  }
+}
+
+/**
+ * In-memory stand-in for a Sandbox, for testing Workers offline.
+ *
+ * Supports processes with controllable status transitions, port listeners
+ * reached through `containerFetch`, preview URL exposure, `exec` and an
+ * in-memory filesystem. Commands that look like agent-server serve a
+ * StubAgentServer on their `--port`, so `createOpenhandsServer()` and
+ * `OpenhandsClient` work unchanged. Pass it where a Sandbox is expected
+ * with `asSandbox()`.
+ *
+ * @example
+ * ```typescript
+ * const fake = new FakeSandbox()
+ * const server = await createOpenhandsServer(fake.asSandbox())
+ * const client = new OpenhandsClient(fake.asSandbox(), server)
+ *
+ * // Simulate a crash
+ * fake.getFakeProcess(server.processId)!.setStatus('failed', 1)
+ * ```
+ */
+export class FakeSandbox {
+  readonly name: string;
+  /** Files by absolute path */
+  readonly files = new Map<
+    string,
+    { content: string; encoding: 'utf-8' | 'base64' }
+  >();
+  /** Directories by absolute path */
+  readonly directories = new Set<string>(['/']);
+  /** Exposed ports and their preview URLs */
+  readonly exposedPorts = new Map<number, string>();
+  /** Commands passed to `exec()`, in order */
+  readonly execLog: string[] = [];
+  private readonly processes = new Map<string, FakeProcess>();
+  private readonly listeners = new Map<
+    number,
+    { handler: FakeFetchHandler; owner?: FakeProcess }
+  >();
+  private readonly options: FakeSandboxOptions;
+  private nextPid = 100;
+
+  constructor(options: FakeSandboxOptions = {}) {
+    this.options = options;
+    this.name = options.name ?? 'my-sandbox';
+  }
+
+  /**
+   * This fake typed as a Sandbox, for passing to SDK functions
+   */
+  asSandbox(): Sandbox<unknown> {
+    return this as unknown as Sandbox<unknown>;
+  }
+
+  /**
+   * Serve a port with a request handler.
+   * Returns false if another process already serves the port.
+   */
+  listen(
+    port: number,
+    handler: FakeFetchHandler,
+    owner?: FakeProcess
+  ): boolean {
+    const current = this.listeners.get(port);
+    if (current?.owner && current.owner !== owner) {
+      return false;
+    }
+    this.listeners.set(port, { handler, owner });
+    return true;
+  }
+
+  /**
+   * Stop serving a port (only if still owned by `owner`, when given)
+   */
+  unlisten(port: number, owner?: FakeProcess): void {
+    const listener = this.listeners.get(port);
+    if (listener && (!owner || listener.owner === owner)) {
+      this.listeners.delete(port);
+    }
+  }
+
+  /**
+   * Whether a port accepts connections
+   */
+  isListening(port: number): boolean {
+    return this.listeners.has(port);
+  }
+
+  /**
+   * Get a process with its fake controls
+   */
+  getFakeProcess(id: string): FakeProcess | undefined {
+    return this.processes.get(id);
+  }
+
+  // Process API
+
+  async startProcess(
+    command: string,
+    options: {
+      cwd?: string;
+      env?: Record<string, string>;
+      processId?: string;
+    } = {}
+  ): Promise<Process> {
+    const behavior =
+      this.options.onStartProcess?.(command, options) ??
+      this.defaultBehavior(command);
+    const id = options.processId ?? `proc-${crypto.randomUUID()}`;
+    const process = new FakeProcess(
+      this,
+      id,
+      this.nextPid++,
+      command,
+      behavior
+    );
+    this.processes.set(id, process);
+
+    const settle = () =>
+      process.setStatus(behavior.status ?? 'running', behavior.exitCode);
+    if (behavior.startupDelay) {
+      setTimeout(settle, behavior.startupDelay);
+    } else {
+      settle();
+    }
+    return process;
+  }
+
+  async listProcesses(): Promise<Process[]> {
+    return [...this.processes.values()];
+  }
+
+  async getProcess(id: string): Promise<Process | null> {
+    return this.processes.get(id) ?? null;
+  }
+
+  async killProcess(id: string, signal?: string): Promise<void> {
+    await this.processes.get(id)?.kill(signal);
+  }
+
+  async getProcessLogs(
+    id: string
+  ): Promise<{ stdout: string; stderr: string; processId: string }> {
+    const process = this.processes.get(id);
+    return {
+      stdout: process?.stdout ?? '',
+      stderr: process?.stderr ?? '',
+      processId: id,
+    };
+  }
+
+  /**
+   * Stream a process's output as Server-Sent Events: the output so far, then
+   * output as it is appended, and an `exit` event once the process ends
+   */
+  async streamProcessLogs(
+    id: string,
+    options: { signal?: AbortSignal } = {}
+  ): Promise<ReadableStream<Uint8Array>> {
+    const process = this.processes.get(id);
+    const encoder = new TextEncoder();
+    const sent = { stdout: 0, stderr: 0 };
+    let timer: ReturnType<typeof setInterval> | undefined;
+
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (event: Record<string, unknown>) =>
+          controller.enqueue(
+            encoder.encode(
+              `data: ${JSON.stringify({
+                ...event,
+                processId: id,
+                timestamp: new Date().toISOString(),
+              })}\n\n`
+            )
+          );
+        const flush = () => {
+          for (const type of ['stdout', 'stderr'] as const) {
+            const output = process?.[type] ?? '';
+            if (output.length > sent[type]) {
+              send({ type, data: output.slice(sent[type]) });
+              sent[type] = output.length;
+            }
+          }
+          if (!process || TERMINAL_STATUSES.includes(process.status)) {
+            clearInterval(timer);
+            send({ type: 'exit', data: '', exitCode: process?.exitCode });
+            controller.close();
+          }
+        };
+        timer = setInterval(flush, 10);
+        options.signal?.addEventListener('abort', () => clearInterval(timer));
+        flush();
+      },
+      cancel() {
+        clearInterval(timer);
+      },
+    });
+  }
+
+  async exec(
+    command: string,
+    options: { cwd?: string; env?: Record<string, string> } = {}
+  ): Promise<ExecResult> {
+    this.execLog.push(command);
+    const result =
+      this.options.onExec?.(command, options) ?? this.defaultExec(command);
+    const exitCode = result.exitCode ?? 0;
+    return {
+      success: exitCode === 0,
+      exitCode,
+      stdout: '',
+      stderr: '',
+      command,
+      duration: 0,
+      timestamp: new Date().toISOString(),
+      ...result,
+    };
+  }
+
+  /**
+   * Result of a command no `onExec` handler answered
+   */
+  private defaultExec(command: string): Partial<ExecResult> {
+    const realpath = /^realpath -m -- (.*)$/.exec(command);
+    if (realpath) {
+      const paths = splitShellArgs(realpath[1]!);
+      return { stdout: paths.map((path) => `${path}\n`).join('') };
+    }
+    // Exclusive create of a lock file
+    const lock = /^set -C; printf %s (.*)$/.exec(command);
+    if (lock) {
+      const [owner, , path] = splitShellArgs(lock[1]!);
+      if (this.files.has(path!)) {
+        return { exitCode: 1, stderr: 'cannot overwrite existing file' };
+      }
+      this.files.set(path!, { content: owner!, encoding: 'utf-8' });
+      return {};
+    }
+    const remove = /^rm -f -- (.*)$/.exec(command);
+    if (remove) {
+      this.files.delete(splitShellArgs(remove[1]!)[0]!);
+      return {};
+    }
+    return {};
+  }
+
+  // Network API
+
+  async containerFetch(request: Request, port: number): Promise<Response> {
+    const listener = this.listeners.get(port);
+    if (!listener) {
+      throw new Error(`Connection refused on port ${port}`);
+    }
+    return listener.handler(request);
+  }
+
+  async wsConnect(request: Request, port: number): Promise<Response> {
+    return this.containerFetch(request, port);
+  }
+
+  /**
+   * Durable Object fetch entry point, as used by `getSandbox().wsConnect`
+   * and `proxyToSandbox` (target port in `cf-container-target-port`)
+   */
+  async fetch(request: Request): Promise<Response> {
+    const port = Number(
+      request.headers.get('cf-container-target-port') ?? 3000
+    );
+    return this.containerFetch(request, port);
+  }
+
+  async exposePort(
+    port: number,
+    options: { name?: string; hostname: string }
+  ): Promise<{ url: string; port: number; name: string | undefined }> {
+    const url = `https://${port}-${this.name}.${options.hostname}`;
+    this.exposedPorts.set(port, url);
+    return { url, port, name: options.name };
+  }
+
+  async unexposePort(port: number): Promise<void> {
+    if (!this.exposedPorts.delete(port)) {
+      throw new Error(`Port ${port} is not exposed`);
+    }
+  }
+
+  async getExposedPorts(
+    _hostname: string
+  ): Promise<{ url: string; port: number; status: 'active' | 'inactive' }[]> {
+    return [...this.exposedPorts].map(([port, url]) => ({
+      url,
+      port,
+      status: 'active',
+    }));
+  }
+
+  async isPortExposed(port: number): Promise<boolean> {
+    return this.exposedPorts.has(port);
+  }
+
+  // Filesystem API
+
+  async writeFile(
+    path: string,
+    content: string,
+    options: { encoding?: string } = {}
+  ): Promise<{ success: boolean; path: string; timestamp: string }> {
+    this.addDirectory(parentOf(path));
+    this.files.set(path, {
+      content,
+      encoding: options.encoding === 'base64' ? 'base64' : 'utf-8',
+    });
+    return { success: true, path, timestamp: new Date().toISOString() };
+  }
+
+  async readFile(path: string): Promise<{
+    success: boolean;
+    path: string;
+    content: string;
+    encoding: 'utf-8' | 'base64';
+    timestamp: string;
+  }> {
+    const file = this.files.get(path);
+    if (!file) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return {
+      success: true,
+      path,
+      content: file.content,
+      encoding: file.encoding,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  async mkdir(
+    path: string,
+    _options: { recursive?: boolean } = {}
+  ): Promise<{ success: boolean; path: string; timestamp: string }> {
+    this.addDirectory(path);
+    return { success: true, path, timestamp: new Date().toISOString() };
+  }
+
+  async deleteFile(
+    path: string
+  ): Promise<{ success: boolean; path: string; timestamp: string }> {
+    if (!this.files.delete(path)) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return { success: true, path, timestamp: new Date().toISOString() };
+  }
+
+  async exists(path: string): Promise<{
+    success: boolean;
+    path: string;
+    exists: boolean;
+    timestamp: string;
+  }> {
+    return {
+      success: true,
+      path,
+      exists: this.files.has(path) || this.directories.has(path),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  async listFiles(
+    path: string,
+    options: { recursive?: boolean; includeHidden?: boolean } = {}
+  ): Promise<{
+    success: boolean;
+    path: string;
+    files: Array<{
+      name: string;
+      absolutePath: string;
+      relativePath: string;
+      type: 'file' | 'directory';
+      size: number;
+      modifiedAt: string;
+      mode: string;
+      permissions: {
+        readable: boolean;
+        writable: boolean;
+        executable: boolean;
+      };
+    }>;
+    count: number;
+    timestamp: string;
+  }> {
+    if (!this.directories.has(path)) {
+      throw new Error(`Directory not found: ${path}`);
+    }
+    const prefix = path === '/' ? '/' : `${path}/`;
+    const timestamp = new Date().toISOString();
+    const entries = [
+      ...[...this.directories].map((entry) => ({
+        entry,
+        type: 'directory' as const,
+        size: 0,
+      })),
+      ...[...this.files].map(([entry, file]) => ({
+        entry,
+        type: 'file' as const,
+        size: file.content.length,
+      })),
+    ]
+      .filter(({ entry }) => entry.startsWith(prefix) && entry !== path)
+      .filter(({ entry }) => {
+        const relative = entry.slice(prefix.length);
+        return (
+          (options.recursive || !relative.includes('/')) &&
+          (options.includeHidden ||
+            !relative.split('/').some((segment) => segment.startsWith('.')))
+        );
+      })
+      .map(({ entry, type, size }) => ({
+        name: entry.slice(entry.lastIndexOf('/') + 1),
+        absolutePath: entry,
+        relativePath: entry.slice(prefix.length),
+        type,
+        size,
+        modifiedAt: timestamp,
+        mode: type === 'directory' ? '755' : '644',
+        permissions: {
+          readable: true,
+          writable: true,
+          executable: type === 'directory',
+        },
+      }));
+    return {
+      success: true,
+      path,
+      files: entries,
+      count: entries.length,
+      timestamp,
+    };
+  }
+
+  /**
+   * Default behaviour: agent-server commands serve a StubAgentServer
+   */
+  private defaultBehavior(command: string): FakeProcessBehavior {
+    const port = /--port[ =](\d+)/.exec(command)?.[1];
+    if (command.includes('agent-server') && port) {
+      return {
+        port: Number(port),
+        fetch: new StubAgentServer(this.options.agentServer).fetch,
+      };
+    }
+    return {};
+  }
+
+  /**
+   * Record a directory and all its parents
+   */
+  private addDirectory(path: string): void {
+    for (
+      let dir = path;
+      dir && !this.directories.has(dir);
+      dir = parentOf(dir)
+    ) {
+      this.directories.add(dir);
+    }
+  }
+}
+
+/**
+ * Split shell arguments quoted by `quoteShellArg`
+ */
+function splitShellArgs(args: string): string[] {
+  return [...args.matchAll(/'((?:[^']|'\\'')*)'|(\S+)/g)].map(
+    ([, quoted, plain]) => quoted?.replace(/'\\''/g, "'") ?? plain!
+  );
+}
+
+/**
+ * Parent directory of an absolute path
+ */
+function parentOf(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index <= 0 ? '/' : path.slice(0, index);
+}
+
+/**
+ * Stand-in for the Sandbox Durable Object namespace binding, so
+ * `getSandbox(env.Sandbox, name)` and the route handler resolve to
+ * FakeSandbox instances (one per name).
+ *
+ * @example
+ * ```typescript
+ * const env = { Sandbox: new FakeSandboxNamespace() }
+ * const handler = createOpenhandsHandler()
+ * const response = await handler(
+ *   new Request('https://example.com/start-openhands?sandbox=test', {
+ *     method: 'POST',
+ *   }),
+ *   env
+ * )
+ * env.Sandbox.getSandbox('test').getFakeProcess(...)
+ * ```
+ */
+export class FakeSandboxNamespace {
+  private readonly sandboxes = new Map<string, FakeSandbox>();
+  private readonly options: Omit<FakeSandboxOptions, 'name'>;
+
+  constructor(options: Omit<FakeSandboxOptions, 'name'> = {}) {
+    this.options = options;
+  }
+
+  idFromName(name: string): { name: string; toString(): string } {
+    return { name, toString: () => name };
+  }
+
+  get(id: { toString(): string }): FakeSandbox {
+    return this.getSandbox(id.toString());
+  }
+
+  /**
+   * The fake sandbox with the given name, created on first use
+   */
+  getSandbox(name: string): FakeSandbox {
+    let sandbox = this.sandboxes.get(name);
+    if (!sandbox) {
+      sandbox = new FakeSandbox({ ...this.options, name });
+      this.sandboxes.set(name, sandbox);
+    }
+    return sandbox;
+  }
+}
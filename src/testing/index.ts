@@ -0,0 +1,3 @@
+export * from './fake-sandbox';
+export * from './stub-agent-server';
+export * from './memory-queue';
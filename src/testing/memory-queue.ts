@@ -0,0 +1,90 @@
+import type {
+  OpenhandsJobMessage,
+  OpenhandsKeyValueStore,
+  OpenhandsQueueBatch,
+  OpenhandsQueueMessage,
+  OpenhandsQueueSender,
+} from '../openhands';
+
+/**
+ * Key-value store kept in memory, standing in for Workers KV or Durable
+ * Object storage
+ */
+export class MemoryKeyValueStore implements OpenhandsKeyValueStore {
+  /** Stored values by key */
+  readonly values = new Map<string, string>();
+
+  async get(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+
+  async put(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.values.delete(key);
+  }
+}
+
+/**
+ * Queue kept in memory, standing in for a Cloudflare Queues binding in tests.
+ *
+ * Sent messages wait until `deliver()` hands them to a consumer as one
+ * batch. Messages the consumer retries, or neither acknowledges nor
+ * retries, are queued again for the next delivery.
+ *
+ * @example
+ * ```typescript
+ * const queue = new MemoryQueue()
+ * const jobs = new OpenhandsJobQueue({ queue, store: new MemoryKeyValueStore() })
+ * const job = await jobs.enqueue('my-sandbox', { prompt: 'Say hi', workspace: '/workspace' })
+ *
+ * const sandbox = new FakeSandbox().asSandbox()
+ * await queue.deliver((batch) =>
+ *   jobs.consume(batch, { getSandbox: () => sandbox, agent: () => agentConfig })
+ * )
+ * await jobs.get(job.id) // { status: 'finished', result: { finalMessage, ... } }
+ * ```
+ */
+export class MemoryQueue implements OpenhandsQueueSender {
+  /** Messages waiting for delivery */
+  readonly pending: OpenhandsJobMessage[] = [];
+
+  async send(message: OpenhandsJobMessage): Promise<void> {
+    this.pending.push(structuredClone(message));
+  }
+
+  /**
+   * Deliver the pending messages to a consumer as one batch
+   *
+   * @param consumer - Queue handler, e.g. calling `OpenhandsJobQueue.consume()`
+   * @returns Number of messages acknowledged and queued again
+   */
+  async deliver(
+    consumer: (batch: OpenhandsQueueBatch) => Promise<void>
+  ): Promise<{ acked: number; retried: number }> {
+    const bodies = this.pending.splice(0);
+    const acked = new Set<number>();
+    const messages = bodies.map((body, index): OpenhandsQueueMessage => ({
+      body,
+      ack: () => {
+        acked.add(index);
+      },
+      retry: () => {
+        acked.delete(index);
+      },
+    }));
+
+    try {
+      await consumer({ messages });
+    } finally {
+      bodies.forEach((body, index) => {
+        if (!acked.has(index)) {
+          this.pending.push(body);
+        }
+      });
+    }
+    return { acked: acked.size, retried: bodies.length - acked.size };
+  }
+}
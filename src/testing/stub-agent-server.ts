@@ -0,0 +1,363 @@
+import type {
+  ConfirmationPolicy,
+  ConversationExecutionStatus,
+  ConversationInfo,
+  OpenhandsEvent,
+  SendMessageRequest,
+  StartConversationRequest,
+} from '../openhands/types';
+import { SESSION_API_KEY_HEADER } from '../openhands/openhands';
+
+/**
+ * Options for the stub agent-server
+ */
+export interface StubAgentServerOptions {
+  /** Reject API requests without this key in `X-Session-API-Key` */
+  sessionApiKey?: string;
+  /**
+   * Produce the agent's reply when a conversation runs or is asked a
+   * question (default: echoes the last user message)
+   */
+  reply?: (conversation: ConversationInfo, message: string) => string;
+  /** Execution status a conversation ends in after `run` (default: 'finished') */
+  runResult?: ConversationExecutionStatus;
+  /** Cost in USD reported per token; runs count one token per character (default: 0) */
+  costPerToken?: number;
+}
+
+/**
+ * Text of the first text block of a message
+ */
+function messageText(message: SendMessageRequest): string {
+  const block = message.content.find((content) => content.type === 'text');
+  return block && 'text' in block ? block.text : '';
+}
+
+/**
+ * JSON error response in the agent-server format
+ */
+function errorResponse(status: number, detail: string): Response {
+  return Response.json({ detail }, { status });
+}
+
+/**
+ * In-memory stand-in for the agent-server HTTP API.
+ *
+ * Implements health checks and the conversation endpoints used by the SDK
+ * (create, search, get, delete, events, run, pause, ask_agent, confirmation).
+ * Running a conversation completes synchronously: the agent replies with
+ * `reply()`, usage metrics are accumulated under the LLM's `usage_id`, and
+ * the conversation moves to `runResult`. With a confirmation policy other
+ * than `NeverConfirm`, the reply is first held as a `finish` action awaiting
+ * confirmation.
+ *
+ * @example
+ * ```typescript
+ * const agentServer = new StubAgentServer({ reply: () => 'Done' })
+ * const response = await agentServer.fetch(
+ *   new Request('http://localhost:8001/api/conversations/search')
+ * )
+ * ```
+ */
+export class StubAgentServer {
+  /** Conversations by ID */
+  readonly conversations = new Map<string, ConversationInfo>();
+  /** Event history by conversation ID */
+  readonly events = new Map<string, OpenhandsEvent[]>();
+  /** Every request received, in order */
+  readonly requests: Request[] = [];
+  private readonly options: StubAgentServerOptions;
+
+  constructor(options: StubAgentServerOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Handle a request to the agent-server
+   */
+  fetch = async (request: Request): Promise<Response> => {
+    this.requests.push(request.clone() as Request);
+    const url = new URL(request.url);
+    const path = url.pathname;
+
+    if (path === '/health' || path === '/alive') {
+      return Response.json({ status: 'ok' });
+    }
+
+    if (
+      this.options.sessionApiKey &&
+      request.headers.get(SESSION_API_KEY_HEADER) !==
+        this.options.sessionApiKey &&
+      url.searchParams.get('session_api_key') !== this.options.sessionApiKey
+    ) {
+      return errorResponse(401, 'Unauthorized');
+    }
+
+    if (path === '/api/conversations' && request.method === 'POST') {
+      const body = (await request.json()) as StartConversationRequest;
+      return Response.json(this.createConversation(body));
+    }
+
+    if (path === '/api/conversations/search' && request.method === 'GET') {
+      return Response.json(this.searchConversations(url.searchParams));
+    }
+
+    const match =
+      /^\/api\/conversations\/([^/]+)(?:\/(events|events\/search|run|pause|ask_agent|confirmation_policy|events\/respond_to_confirmation))?$/.exec(
+        path
+      );
+    if (!match) {
+      return errorResponse(404, 'Not Found');
+    }
+    const id = decodeURIComponent(match[1]!);
+    const action = match[2];
+    const conversation = this.conversations.get(id);
+    if (!conversation) {
+      return errorResponse(404, `Conversation not found: ${id}`);
+    }
+
+    switch (action) {
+      case undefined:
+        if (request.method === 'DELETE') {
+          this.conversations.delete(id);
+          this.events.delete(id);
+          return Response.json({ success: true });
+        }
+        return Response.json(conversation);
+      case 'events': {
+        const message = (await request.json()) as SendMessageRequest;
+        this.appendMessage(conversation, message);
+        if (message.run) {
+          this.run(conversation);
+        }
+        return Response.json({ success: true });
+      }
+      case 'events/search':
+        return Response.json({
+          items: this.events.get(id) ?? [],
+          next_page_id: null,
+        });
+      case 'run':
+        this.run(conversation);
+        return Response.json({ success: true });
+      case 'pause':
+        conversation.execution_status = 'paused';
+        return Response.json({ success: true });
+      case 'ask_agent': {
+        const { question } = (await request.json()) as { question: string };
+        return Response.json({ response: this.reply(conversation, question) });
+      }
+      case 'confirmation_policy':
+        conversation.confirmation_policy = await request.json();
+        return Response.json({ success: true });
+      case 'events/respond_to_confirmation': {
+        const { accept, reason } = (await request.json()) as {
+          accept: boolean;
+          reason?: string;
+        };
+        this.confirm(conversation, accept, reason);
+        return Response.json({ success: true });
+      }
+      default:
+        return errorResponse(404, 'Not Found');
+    }
+  };
+
+  /**
+   * Create a conversation, or return the existing one with the same ID
+   */
+  private createConversation(
+    request: StartConversationRequest
+  ): ConversationInfo {
+    const id = request.conversation_id ?? crypto.randomUUID();
+    const existing = this.conversations.get(id);
+    if (existing) {
+      return existing;
+    }
+
+    const now = new Date().toISOString();
+    const conversation: ConversationInfo = {
+      id,
+      agent: request.agent,
+      workspace: request.workspace,
+      execution_status: 'idle',
+      max_iterations: request.max_iterations,
+      confirmation_policy: request.confirmation_policy,
+      created_at: now,
+      updated_at: now,
+    };
+    this.conversations.set(id, conversation);
+    this.events.set(id, []);
+
+    if (request.initial_message) {
+      this.appendMessage(conversation, request.initial_message);
+      if (request.initial_message.run) {
+        this.run(conversation);
+      }
+    }
+    return conversation;
+  }
+
+  /**
+   * Page through conversations, optionally filtered by status
+   */
+  private searchConversations(params: URLSearchParams): {
+    items: ConversationInfo[];
+    next_page_id: string | null;
+  } {
+    const status = params.get('status');
+    const limit = Number(params.get('limit') ?? 100);
+    const start = Number(params.get('page_id') ?? 0);
+    const matching = [...this.conversations.values()].filter(
+      (conversation) => !status || conversation.execution_status === status
+    );
+    const end = start + limit;
+    return {
+      items: matching.slice(start, end),
+      next_page_id: end < matching.length ? String(end) : null,
+    };
+  }
+
+  /**
+   * Record a message event
+   */
+  private appendMessage(
+    conversation: ConversationInfo,
+    message: SendMessageRequest
+  ): void {
+    const role = message.role ?? 'user';
+    this.pushEvent(conversation, {
+      source: role === 'assistant' ? 'agent' : 'user',
+      kind: 'MessageEvent',
+      llm_message: { role, content: message.content },
+    });
+  }
+
+  /**
+   * Run the agent loop: reply to the last user message and finish
+   */
+  private run(conversation: ConversationInfo): void {
+    const lastMessage = [...(this.events.get(conversation.id) ?? [])]
+      .reverse()
+      .find((event) => event.source === 'user');
+    const llmMessage = lastMessage?.llm_message as
+      SendMessageRequest | undefined;
+    const message = llmMessage ? messageText(llmMessage) : '';
+    const text = this.reply(conversation, message);
+    this.recordUsage(conversation, message, text);
+
+    const policy = conversation.confirmation_policy as
+      ConfirmationPolicy | undefined;
+    if (policy && policy.kind !== 'NeverConfirm') {
+      // Replying is a `finish` action the user must approve first
+      this.pushEvent(conversation, {
+        source: 'agent',
+        kind: 'ActionEvent',
+        tool_name: 'finish',
+        tool_call_id: crypto.randomUUID(),
+        action: { kind: 'FinishAction', message: text },
+        thought: [{ type: 'text', text: 'The task is complete.' }],
+        security_risk: 'LOW',
+      });
+      conversation.execution_status = 'waiting_for_confirmation';
+      return;
+    }
+    this.finish(conversation, text);
+  }
+
+  /**
+   * Approve or reject the pending `finish` action
+   */
+  private confirm(
+    conversation: ConversationInfo,
+    accept: boolean,
+    reason = 'User rejected the action.'
+  ): void {
+    const action = [...(this.events.get(conversation.id) ?? [])]
+      .reverse()
+      .find((event) => event.kind === 'ActionEvent');
+    if (
+      conversation.execution_status !== 'waiting_for_confirmation' ||
+      !action
+    ) {
+      return;
+    }
+    const message = (action.action as { message: string }).message;
+    this.pushEvent(conversation, {
+      source: 'environment',
+      kind: accept ? 'ObservationEvent' : 'UserRejectObservation',
+      action_id: action.id,
+      tool_name: action.tool_name,
+      tool_call_id: action.tool_call_id,
+      ...(accept ? {} : { rejection_reason: reason }),
+    });
+    if (accept) {
+      this.finish(conversation, message);
+    } else {
+      conversation.execution_status = 'paused';
+    }
+  }
+
+  /**
+   * Send the agent's reply and end the run
+   */
+  private finish(conversation: ConversationInfo, text: string): void {
+    this.pushEvent(conversation, {
+      source: 'agent',
+      kind: 'MessageEvent',
+      llm_message: {
+        role: 'assistant',
+        content: [{ type: 'text', text }],
+      },
+    });
+    conversation.execution_status = this.options.runResult ?? 'finished';
+  }
+
+  /**
+   * Accumulate usage metrics for a run, counting one token per character
+   */
+  private recordUsage(
+    conversation: ConversationInfo,
+    prompt: string,
+    completion: string
+  ): void {
+    const usageId = conversation.agent.llm.usage_id ?? 'agent';
+    const usageToMetrics = ((conversation.stats ??= {}).usage_to_metrics ??=
+      {});
+    const metrics = (usageToMetrics[usageId] ??= {
+      model_name: conversation.agent.llm.model,
+      accumulated_cost: 0,
+      accumulated_token_usage: { prompt_tokens: 0, completion_tokens: 0 },
+    });
+    const tokens = (metrics.accumulated_token_usage ??= {});
+    tokens.prompt_tokens = (tokens.prompt_tokens ?? 0) + prompt.length;
+    tokens.completion_tokens =
+      (tokens.completion_tokens ?? 0) + completion.length;
+    metrics.accumulated_cost =
+      (metrics.accumulated_cost ?? 0) +
+      (prompt.length + completion.length) * (this.options.costPerToken ?? 0);
+  }
+
+  /**
+   * Produce the agent's reply
+   */
+  private reply(conversation: ConversationInfo, message: string): string {
+    return this.options.reply
+      ? this.options.reply(conversation, message)
+      : message;
+  }
+
+  /**
+   * Append an event and bump the conversation's update time
+   */
+  private pushEvent(
+    conversation: ConversationInfo,
+    event: Pick<OpenhandsEvent, 'source' | 'kind'> & Record<string, unknown>
+  ): void {
+    const timestamp = new Date().toISOString();
+    const events = this.events.get(conversation.id) ?? [];
+    events.push({ id: crypto.randomUUID(), timestamp, ...event });
+    this.events.set(conversation.id, events);
+    conversation.updated_at = timestamp;
+  }
+}
@@ -0,0 +1,115 @@
+import { describe, expect, test } from 'bun:test';
+import { FakeSandbox } from '../testing';
+import {
+  buildAgentServerCommand,
+  isAgentServerCommand,
+  quoteShellArg,
+  resolveAgentServerCommand,
+  DEFAULT_AGENT_SERVER_DIR,
+  DEFAULT_AGENT_SERVER_PATH,
+} from './agent-server';
+
+describe('buildAgentServerCommand', () => {
+  test('builds the default command', () => {
+    expect(buildAgentServerCommand(8001, DEFAULT_AGENT_SERVER_DIR)).toBe(
+      `${DEFAULT_AGENT_SERVER_PATH} --host 0.0.0.0 --port 8001`
+    );
+  });
+
+  test('quotes the directory, executable, host and arguments', () => {
+    const command = buildAgentServerCommand(8001, '/srv/my app', {
+      executablePath: '/opt/agent server/bin/agent-server',
+      host: '$(reboot)',
+      args: ['--name', "it's"],
+      launcher: 'uv run',
+    });
+
+    expect(command).toBe(
+      "cd '/srv/my app' && uv run '/opt/agent server/bin/agent-server' " +
+        "--host '$(reboot)' --port 8001 --name 'it'\\''s'"
+    );
+  });
+});
+
+describe('quoteShellArg', () => {
+  test('leaves plain arguments unquoted', () => {
+    expect(quoteShellArg('--port=8001')).toBe('--port=8001');
+  });
+
+  test('quotes shell metacharacters', () => {
+    expect(quoteShellArg('a; rm -rf /')).toBe("'a; rm -rf /'");
+  });
+});
+
+describe('isAgentServerCommand', () => {
+  test('matches agent-server on the port whatever its arguments', () => {
+    expect(
+      isAgentServerCommand(
+        'uv run /opt/bin/agent-server --host 127.0.0.1 --port 8001 --debug',
+        8001
+      )
+    ).toBe(true);
+    expect(isAgentServerCommand('agent-server --port=8001', 8001)).toBe(true);
+  });
+
+  test('rejects other ports and executables', () => {
+    expect(isAgentServerCommand('agent-server --port 8002', 8001)).toBe(false);
+    expect(
+      isAgentServerCommand('python -m http.server --port 8001', 8001)
+    ).toBe(false);
+  });
+});
+
+describe('resolveAgentServerCommand', () => {
+  test('discovers the executable once per sandbox name', async () => {
+    const fake = new FakeSandbox({
+      onExec: (command) =>
+        command.startsWith('test -f ')
+          ? {
+              stdout: command.includes('/root/software-agent-sdk')
+                ? 'EXISTS'
+                : 'NOT_FOUND',
+            }
+          : undefined,
+    });
+    const options = { executablePath: 'auto', sandboxName: 'discovery-test' };
+
+    // Each request gets a new sandbox stub
+    const first = await resolveAgentServerCommand(
+      fake.asSandbox(),
+      8001,
+      undefined,
+      options
+    );
+    const probes = fake.execLog.length;
+    const second = await resolveAgentServerCommand(
+      new FakeSandbox().asSandbox(),
+      8001,
+      undefined,
+      options
+    );
+
+    expect(first).toBe(
+      '/root/software-agent-sdk/.venv/bin/agent-server --host 0.0.0.0 --port 8001'
+    );
+    expect(second).toBe(first);
+    expect(probes).toBeGreaterThan(0);
+    expect(fake.execLog).toHaveLength(probes);
+  });
+
+  test('returns null when no executable is found', async () => {
+    const sandbox = new FakeSandbox({
+      onExec: (command) =>
+        command.startsWith('test -f ')
+          ? { stdout: 'NOT_FOUND' }
+          : { exitCode: 1 },
+    }).asSandbox();
+
+    expect(
+      await resolveAgentServerCommand(sandbox, 8001, undefined, {
+        executablePath: 'auto',
+        sandboxName: 'missing-executable',
+      })
+    ).toBeNull();
+  });
+});
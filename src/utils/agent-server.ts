@@ -12,6 +12,32 @@ export const DEFAULT_AGENT_SERVER_PATH =
 export const DEFAULT_AGENT_SERVER_DIR =
   '/container-server/software-agent-sdk';
 
+/**
+ * Default host the agent-server binds to
+ */
+export const DEFAULT_AGENT_SERVER_HOST = '0.0.0.0';
+
+/**
+ * Value for `executablePath` that discovers the executable with `findAgentServerPath`
+ */
+export const AUTO_DISCOVER_AGENT_SERVER = 'auto';
+
+/**
+ * Options controlling how the agent-server command line is built
+ */
+export interface AgentServerCommandOptions {
+  /** Path to the agent-server executable (default: DEFAULT_AGENT_SERVER_PATH) */
+  executablePath?: string;
+  /** Host the agent-server binds to (default: 0.0.0.0) */
+  host?: string;
+  /** Extra CLI arguments appended to the command */
+  args?: string[];
+  /** Command prefix used to launch the executable, e.g. 'uv run' (not quoted) */
+  launcher?: string;
+  /** Sandbox name, under which auto-discovered executable paths are cached */
+  sandboxName?: string;
+}
+
 /**
  * Get the default agent-server executable path
  */
@@ -35,7 +61,7 @@ export async function checkAgentServerExists(
 ): Promise<boolean> {
   try {
     const result = await sandbox.exec(
-      `test -f ${path} && echo "EXISTS" || echo "NOT_FOUND"`
+      `test -f ${quoteShellArg(path)} && echo "EXISTS" || echo "NOT_FOUND"`
     );
     return result.stdout.trim() === 'EXISTS';
   } catch {
@@ -76,15 +102,110 @@ export async function findAgentServerPath(
 }
 
 /**
- * Build the agent-server command
+ * Quote a CLI argument for the shell if it contains special characters
+ */
+export function quoteShellArg(arg: string): string {
+  return /^[\w@%+=:,./-]+$/.test(arg)
+    ? arg
+    : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Build the agent-server command. The working directory, executable, host
+ * and arguments are quoted for the shell; the launcher is used as written.
  */
 export function buildAgentServerCommand(
   port: number,
-  directory?: string
+  directory?: string,
+  options: AgentServerCommandOptions = {}
 ): string {
-  const command = `${DEFAULT_AGENT_SERVER_PATH} --host 0.0.0.0 --port ${port}`;
+  const executable = options.executablePath || DEFAULT_AGENT_SERVER_PATH;
+  const host = options.host || DEFAULT_AGENT_SERVER_HOST;
+  const args = (options.args ?? []).map(quoteShellArg);
+  const command = [
+    ...(options.launcher ? [options.launcher] : []),
+    quoteShellArg(executable),
+    `--host ${quoteShellArg(host)} --port ${port}`,
+    ...args,
+  ].join(' ');
   return directory && directory !== DEFAULT_AGENT_SERVER_DIR
-    ? `cd ${directory} && ${command}`
+    ? `cd ${quoteShellArg(directory)} && ${command}`
     : command;
 }
 
+/**
+ * Whether a process command line runs agent-server on a port. Matches on the
+ * executable and `--port` only, so servers started with another launcher,
+ * host or extra arguments (e.g. by an older SDK version) still match.
+ *
+ * @param command - Command line of the process
+ * @param port - Port the server should listen on
+ * @param executablePath - Custom executable name to accept besides `agent-server`
+ */
+export function isAgentServerCommand(
+  command: string,
+  port: number,
+  executablePath?: string
+): boolean {
+  const tokens = command.split(/\s+/);
+  const runsAgentServer = tokens.some(
+    (token) =>
+      token === 'agent-server' ||
+      token.endsWith('/agent-server') ||
+      (!!executablePath &&
+        executablePath !== AUTO_DISCOVER_AGENT_SERVER &&
+        token === executablePath)
+  );
+  const listensOnPort = tokens.some(
+    (token, index) =>
+      token === `--port=${port}` ||
+      (token === '--port' && tokens[index + 1] === String(port))
+  );
+  return runsAgentServer && listensOnPort;
+}
+
+// Discovered executable paths, cached per sandbox name (a new stub is
+// created for every request), or per stub when no name is given
+const discoveredPaths = new Map<string, string>();
+const discoveredStubPaths = new WeakMap<Sandbox<unknown>, string>();
+
+/**
+ * Build the agent-server command, resolving `executablePath: 'auto'` by
+ * searching the sandbox for the executable. The path found is cached under
+ * `sandboxName`, so discovery runs once per sandbox and isolate.
+ * Returns null if auto-discovery finds no executable.
+ */
+export async function resolveAgentServerCommand(
+  sandbox: Sandbox<unknown>,
+  port: number,
+  directory?: string,
+  options: AgentServerCommandOptions = {}
+): Promise<string | null> {
+  if (options.executablePath !== AUTO_DISCOVER_AGENT_SERVER) {
+    return buildAgentServerCommand(port, directory, options);
+  }
+
+  const name = options.sandboxName;
+  let executablePath =
+    name !== undefined
+      ? discoveredPaths.get(name)
+      : discoveredStubPaths.get(sandbox);
+  if (!executablePath) {
+    const found = await findAgentServerPath(sandbox);
+    if (!found) {
+      return null;
+    }
+    executablePath = found;
+    if (name !== undefined) {
+      discoveredPaths.set(name, executablePath);
+    } else {
+      discoveredStubPaths.set(sandbox, executablePath);
+    }
+  }
+
+  return buildAgentServerCommand(port, directory, {
+    ...options,
+    executablePath,
+  });
+}
+
@@ -0,0 +1,38 @@
+const encoder = new TextEncoder();
+
+/**
+ * Compare two strings in constant time
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+  let diff = aBytes.length ^ bBytes.length;
+  for (let i = 0; i < aBytes.length; i++) {
+    diff |= aBytes[i]! ^ (bBytes[i % (bBytes.length || 1)] ?? 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * HMAC-SHA256 a message and return the hex digest
+ */
+export async function hmacSha256Hex(
+  secret: string,
+  message: string
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    encoder.encode(message)
+  );
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}